@@ -1,13 +1,37 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AISettings, ChatMessage } from '../types';
+import { createProvider, gameBrief } from '../services/ai';
+import { gameTools } from '../services/ai/tools';
+import { GameSession } from '../services/session';
+import { loadTranscript, saveTranscript } from '../services/chat';
+import { Markdown } from './Markdown';
 
-export const ChatBot: React.FC = () => {
+const SYSTEM = 'You are the Osmos Prime Arena Assistant. You help players understand game mechanics like mass, split, and class roles. Use your tools for anything about the current match or the rules instead of guessing, and keep answers short. Format with markdown.';
+
+const TOOL_LABELS: Record<string, string> = {
+  get_my_stats: 'Reading your vitals',
+  list_nearby_threats: 'Scanning for threats',
+  explain_class: 'Pulling class records',
+  mass_to_eat: 'Weighing the target',
+  lookup_rules: 'Searching the design archive'
+};
+
+interface ChatBotProps {
+  ai: AISettings;
+  sessionId: string; // the transcript is stored under this
+  session: () => GameSession | null;
+}
+
+export const ChatBot: React.FC<ChatBotProps> = ({ ai, sessionId, session }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<{ role: 'user' | 'ai', text: string, sources?: any[] }[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => loadTranscript(sessionId));
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [tool, setTool] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const tools = useMemo(() => gameTools(session), [session]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -15,32 +39,40 @@ export const ChatBot: React.FC = () => {
     }
   }, [messages, loading]);
 
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Saved once a reply settles rather than on every streamed chunk
+  useEffect(() => { if (!loading) saveTranscript(sessionId, messages); }, [sessionId, messages, loading]);
+
   const handleSend = async () => {
     if (!input.trim() || loading) return;
     const userMsg = input.trim();
+    const history: ChatMessage[] = [...messages, { role: 'user', text: userMsg }];
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+    setMessages(history);
     setLoading(true);
+    const ctrl = abortRef.current = new AbortController();
+    // The reply streams into a message that is only added once its first words arrive
+    const show = (msg: ChatMessage) => setMessages([...history, msg]);
+    const live = session();
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: userMsg,
-        config: {
-          systemInstruction: 'You are the Osmos Prime Arena Assistant. You help players understand game mechanics like mass, split, and class roles. You also use Google Search to provide up-to-date gaming trends or help if asked.',
-          tools: [{ googleSearch: {} }]
-        }
+      const reply = await createProvider(ai).generate({
+        task: 'chat',
+        system: SYSTEM,
+        messages: history.map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', text: m.text })),
+        brief: (live && gameBrief(live)) || undefined,
+        tools,
+        signal: ctrl.signal,
+        onTool: setTool,
+        onText: text => { setTool(null); show({ role: 'ai', text }); }
       });
-
-      const aiText = response.text || "I am currently recalibrating my neural net. Try again soon.";
-      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-
-      setMessages(prev => [...prev, { role: 'ai', text: aiText, sources }]);
+      show({ role: 'ai', text: reply.text, offline: reply.provider === 'offline' || !!reply.fallbackReason });
     } catch (err) {
-      setMessages(prev => [...prev, { role: 'ai', text: "Signal interference detected. AI offline." }]);
+      show({ role: 'ai', text: ctrl.signal.aborted ? 'Transmission cut.' : "Signal interference detected. AI offline." });
     } finally {
       setLoading(false);
+      setTool(null);
     }
   };
 
@@ -50,31 +82,29 @@ export const ChatBot: React.FC = () => {
         <div className="glass w-full h-[400px] rounded-[24px] mb-4 overflow-hidden flex flex-col border-white/10 shadow-3xl animate-in slide-in-from-bottom-6">
           <div className="bg-indigo-500/20 p-4 border-b border-white/10 flex justify-between items-center">
             <span className="font-orbitron text-[10px] font-black uppercase tracking-widest text-white">Arena Intel</span>
-            <button onClick={() => setIsOpen(false)} className="text-white/40 hover:text-white">×</button>
+            <div className="flex gap-3 items-center">
+              {messages.length > 0 && !loading && <button onClick={() => setMessages([])} className="text-[8px] text-white/30 hover:text-white uppercase tracking-widest">Clear</button>}
+              <button onClick={() => setIsOpen(false)} className="text-white/40 hover:text-white">×</button>
+            </div>
           </div>
           <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-hide">
             {messages.length === 0 && (
-              <div className="text-[11px] text-white/20 italic">Ask me about Osmos Prime mechanics or general gaming tactics...</div>
+              <div className="text-[11px] text-white/20 italic">Ask about your stats, nearby threats, a class, or what it takes to eat that cell...</div>
             )}
             {messages.map((m, i) => (
               <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
                 <div className={`max-w-[85%] p-3 rounded-2xl text-[11px] ${m.role === 'user' ? 'bg-indigo-500 text-white' : 'bg-white/5 text-indigo-100 border border-white/5'}`}>
-                  {m.text}
+                  {m.role === 'ai' ? <Markdown text={m.text} /> : m.text}
                 </div>
-                {m.sources && m.sources.length > 0 && (
-                  <div className="mt-1 flex flex-wrap gap-1">
-                    {m.sources.map((s: any, idx: number) => (
-                      s.web?.uri && (
-                        <a key={idx} href={s.web.uri} target="_blank" rel="noreferrer" className="text-[8px] text-indigo-400 underline truncate max-w-[60px]">
-                          Source
-                        </a>
-                      )
-                    ))}
-                  </div>
-                )}
+                {m.offline && <span className="mt-1 text-[8px] text-white/30 uppercase tracking-widest">Offline intel</span>}
               </div>
             ))}
-            {loading && <div className="text-indigo-400 text-[10px] animate-pulse">AI is searching...</div>}
+            {loading && (
+              <div className="flex gap-3 items-center text-[10px]">
+                <span className="text-indigo-400 animate-pulse">{tool ? `${TOOL_LABELS[tool] || tool}...` : 'AI is thinking...'}</span>
+                <button onClick={() => abortRef.current?.abort()} className="text-white/30 hover:text-white uppercase tracking-widest text-[8px]">Stop</button>
+              </div>
+            )}
           </div>
           <div className="p-4 bg-slate-950/40 border-t border-white/10 flex gap-2">
             <input 
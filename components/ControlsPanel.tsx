@@ -0,0 +1,67 @@
+
+import React, { useEffect, useState } from 'react';
+import { GameAction, KeyBindings } from '../types';
+import { DEFAULT_KEY_BINDINGS } from '../constants';
+import { GAME_ACTIONS, keyLabel } from '../services/input';
+
+const ACTION_INFO: Record<GameAction, { name: string; pad: string }> = {
+  split: { name: 'Split', pad: 'A / RT' },
+  eject: { name: 'Eject (hold to repeat)', pad: 'X / RB' },
+  ability: { name: 'Class skill', pad: 'B / LB' },
+  advisor: { name: 'Tactical advisor', pad: 'Y' }
+};
+
+interface ControlsPanelProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+/** Key rebinding. Taking a key another action uses swaps the two. */
+export const ControlsPanel: React.FC<ControlsPanelProps> = ({ bindings, onChange, onClose }) => {
+  const [listening, setListening] = useState<GameAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    const onKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setListening(null);
+      if (e.code === 'Escape') return;
+      const taken = GAME_ACTIONS.find(a => a !== listening && bindings[a] === e.code);
+      onChange({ ...bindings, [listening]: e.code, ...(taken && { [taken]: bindings[listening] }) });
+    };
+    window.addEventListener('keydown', onKey, true);
+    return () => window.removeEventListener('keydown', onKey, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass p-8 rounded-[40px] w-[520px] shadow-2xl border-white/10 text-left" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em]">Controls</span>
+          <button onClick={onClose} className="text-[10px] font-orbitron font-black text-white/40 hover:text-white uppercase tracking-widest">Close</button>
+        </div>
+        <div className="grid grid-cols-[1fr_120px_80px] gap-x-4 gap-y-2 items-center text-[11px] text-white/70">
+          <span className="text-[9px] text-white/30 uppercase tracking-widest">Action</span>
+          <span className="text-[9px] text-white/30 uppercase tracking-widest">Key</span>
+          <span className="text-[9px] text-white/30 uppercase tracking-widest">Gamepad</span>
+          {GAME_ACTIONS.map(action => (
+            <React.Fragment key={action}>
+              <span>{ACTION_INFO[action].name}</span>
+              <button onClick={() => setListening(action)}
+                className={`glass px-3 py-2 rounded-xl font-orbitron font-black uppercase tracking-widest text-[10px] ${listening === action ? 'text-amber-300 border-amber-500/40 animate-pulse' : 'text-white border-white/10 hover:border-indigo-500'}`}>
+                {listening === action ? 'Press a key' : keyLabel(bindings[action])}
+              </button>
+              <span className="font-orbitron text-[10px] text-white/40">{ACTION_INFO[action].pad}</span>
+            </React.Fragment>
+          ))}
+        </div>
+        <div className="text-[10px] text-white/30 mt-6 leading-relaxed">
+          Steer with the mouse, the left gamepad stick, or a thumb on the left half of a touch screen. Esc cancels a rebind.
+        </div>
+        <button onClick={() => onChange({ ...DEFAULT_KEY_BINDINGS })} className="glass mt-6 px-4 py-2 rounded-full text-[9px] font-orbitron font-black text-white/60 hover:text-white uppercase tracking-widest border-white/10">Reset to defaults</button>
+      </div>
+    </div>
+  );
+};
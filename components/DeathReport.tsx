@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { DeathCause, DeathReport, EatenKind } from '../types';
+import { PHYSICS_TPS } from '../constants';
+
+const EATEN_LABELS: Record<EatenKind, string> = { food: 'Pellets', ejected: 'Ejecta', ai: 'AI cells', player: 'Players', virus: 'Viruses' };
+
+export function describeCause(c: DeathCause): string {
+  switch (c.kind) {
+    case 'cell': return `Consumed by ${c.name}${c.class && c.class !== c.name ? ` · ${c.class}` : ''}${c.isPlayer ? ' (player)' : ''}`;
+    case 'virus': return c.finisher ? `Burst on a virus, picked off by ${c.finisher}` : 'Burst on a virus';
+    case 'drain': return c.effect ? `Dissolved in ${c.source}` : `Drained dry by ${c.source}`;
+  }
+}
+
+export const formatTicks = (ticks: number) => {
+  const s = Math.floor(ticks / PHYSICS_TPS);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const CHART_W = 360, CHART_H = 90;
+
+const MassChart: React.FC<{ samples: number[] }> = ({ samples }) => {
+  const peak = Math.max(1, ...samples);
+  const step = CHART_W / Math.max(1, samples.length - 1);
+  const points = samples.map((m, i) => `${(i * step).toFixed(1)},${(CHART_H - (m / peak) * (CHART_H - 4)).toFixed(1)}`).join(' ');
+  return (
+    <svg width={CHART_W} height={CHART_H} className="overflow-visible">
+      <polygon points={`0,${CHART_H} ${points} ${CHART_W},${CHART_H}`} fill="rgba(16,185,129,0.12)" />
+      <polyline points={points} fill="none" stroke="#34d399" strokeWidth={2} strokeLinejoin="round" />
+      <text x={0} y={10} className="fill-white/40 text-[9px] font-orbitron">{peak}</text>
+    </svg>
+  );
+};
+
+export const DeathReportPanel: React.FC<{ report: DeathReport }> = ({ report }) => {
+  const eaten = (Object.keys(EATEN_LABELS) as EatenKind[]).filter(k => report.eaten[k]);
+  const stats: [string, string | number][] = [
+    ['Time alive', formatTicks(report.ticks)],
+    ['Peak mass', report.peakMass],
+    ['XP earned', report.xpEarned],
+    ['Levels gained', report.levelsGained]
+  ];
+  return (
+    <div className="glass p-8 rounded-[40px] w-[440px] shadow-2xl border-red-500/20 text-left mb-10">
+      <div className="text-[10px] text-red-400/70 font-black uppercase tracking-[0.3em] mb-1">Cause of death</div>
+      <div className="font-orbitron text-lg font-black text-white mb-6">{describeCause(report.cause)}</div>
+      <div className="grid grid-cols-4 gap-3 mb-6">
+        {stats.map(([label, value]) => (
+          <div key={label}>
+            <div className="font-orbitron text-xl font-black text-white">{value}</div>
+            <div className="text-[8px] text-white/40 uppercase tracking-widest">{label}</div>
+          </div>
+        ))}
+      </div>
+      <MassChart samples={report.massHistory} />
+      <div className="flex flex-wrap gap-x-5 gap-y-1 mt-5 text-[10px] text-white/60">
+        {eaten.length === 0 && <span className="text-white/30">Nothing eaten</span>}
+        {eaten.map(k => <span key={k}><span className="font-orbitron font-black text-white">{report.eaten[k]}</span> {EATEN_LABELS[k]}</span>)}
+      </div>
+    </div>
+  );
+};
@@ -1,176 +1,134 @@
 
-import React, { useRef, useEffect, useCallback } from 'react';
-import { Biome, PlayerState, GameEntity } from '../types';
-import { MAP_SIZE, CLASS_DATA } from '../constants';
+import React, { useRef, useEffect, useState } from 'react';
+import { GameMap, PlayerState, GameEntity, WorldEventState, RendererKind } from '../types';
+import { HUNT_SENSE_ZOOM } from '../constants';
+import { AdvisorMarks, Camera, DEFAULT_RENDER_OPTIONS, RenderFrame, RenderOptions } from './render/frame';
+import { createCanvas2DRenderer } from './render/canvas2d';
+import { createWebGLRenderer } from './render/webgl';
+
+export type WorldPointer = (type: 'down' | 'move' | 'up', world: { x: number; y: number }, e: React.MouseEvent) => boolean | void;
 
 interface GameCanvasProps {
-  player: PlayerState;
-  engineRef: React.MutableRefObject<{ entities: GameEntity[] }>;
-  biomes: Biome[];
-  activeEffects: string[];
+  player: Pick<PlayerState, 'id' | 'name'>;
+  engineRef: React.MutableRefObject<{ entities: GameEntity[]; worldEvents: WorldEventState[]; tick: number }>;
+  map: GameMap;
+  activeEffects: Record<string, number>;
   onMove: (dx: number, dy: number) => void;
+  freeCamera?: boolean; // Replay viewing: drag to pan, wheel to zoom, double-click to follow the player again; no fog
+  renderer?: RendererKind; // falls back to Canvas2D when WebGL2 is unavailable
+  camera?: React.MutableRefObject<Camera>; // share the camera with an overlay; one is kept internally otherwise
+  onWorldPointer?: WorldPointer; // free camera only: a 'down' handler returning true takes the drag instead of panning
+  options?: RenderOptions;
+  starCount?: number;
+  advice?: AdvisorMarks | null;
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ player, engineRef, biomes, activeEffects, onMove }) => {
+export const GameCanvas: React.FC<GameCanvasProps> = ({ player, engineRef, map, activeEffects, onMove, freeCamera, renderer = 'canvas', camera, onWorldPointer, options = DEFAULT_RENDER_OPTIONS, starCount = 400, advice = null }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const cam = useRef({ x: MAP_SIZE / 2, y: MAP_SIZE / 2, zoom: 0.8 });
+  const ownCam = useRef<Camera>({ x: map.size / 2, y: map.size / 2, zoom: 0.8 });
+  const cam = camera || ownCam;
   const stars = useRef<{x: number, y: number, s: number}[]>([]);
-
-  if (stars.current.length === 0) {
-    for(let i=0; i<400; i++) {
+  const starField = useRef(''); // map size and count the stars were scattered for
+  const follow = useRef(true);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const claimed = useRef(false);
+
+  if (starField.current !== `${map.size}:${starCount}`) {
+    starField.current = `${map.size}:${starCount}`;
+    stars.current = [];
+    for(let i=0; i<starCount; i++) {
       stars.current.push({
-        x: Math.random() * MAP_SIZE,
-        y: Math.random() * MAP_SIZE,
+        x: Math.random() * map.size,
+        y: Math.random() * map.size,
         s: Math.random() * 2 + 1
       });
     }
   }
 
+  const toWorld = (e: React.MouseEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: cam.current.x + (e.clientX - rect.left - canvas.width / 2) / cam.current.zoom,
+      y: cam.current.y + (e.clientY - rect.top - canvas.height / 2) / cam.current.zoom
+    };
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    if (freeCamera) {
+      if (!drag.current) { onWorldPointer?.('move', toWorld(e), e); return; }
+      cam.current.x -= (e.clientX - drag.current.x) / cam.current.zoom;
+      cam.current.y -= (e.clientY - drag.current.y) / cam.current.zoom;
+      drag.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
     const rect = canvas.getBoundingClientRect();
     onMove(e.clientX - rect.left - canvas.width / 2, e.clientY - rect.top - canvas.height / 2);
   };
 
-  const render = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { alpha: false });
-    if (!ctx) return;
-
-    const { entities } = engineRef.current;
-    const playerCells = entities.filter(e => e.ownerId === 'player' || e.id === 'player');
-    if (playerCells.length === 0) return;
-
-    const totalMass = playerCells.reduce((sum, c) => sum + c.mass, 0);
-    const avgX = playerCells.reduce((sum, c) => sum + (c.x * c.mass), 0) / totalMass;
-    const avgY = playerCells.reduce((sum, c) => sum + (c.y * c.mass), 0) / totalMass;
-
-    cam.current.x += (avgX - cam.current.x) * 0.15;
-    cam.current.y += (avgY - cam.current.y) * 0.15;
-
-    const massZoom = Math.max(0.1, Math.min(0.8, 150 / (Math.sqrt(totalMass) + 80)));
-    cam.current.zoom += (massZoom - cam.current.zoom) * 0.05;
-
-    const { width, height } = canvas;
-    const z = cam.current.zoom;
-    const vW = width / z;
-    const vH = height / z;
-    const vX = cam.current.x - vW / 2;
-    const vY = cam.current.y - vH / 2;
-
-    ctx.fillStyle = '#020617';
-    ctx.fillRect(0, 0, width, height);
-
-    ctx.save();
-    ctx.translate(width / 2, height / 2);
-    ctx.scale(z, z);
-    ctx.translate(-cam.current.x, -cam.current.y);
-
-    // Stars
-    stars.current.forEach(s => {
-      const px = s.x;
-      const py = s.y;
-      if (px > vX && px < vX + vW && py > vY && py < vY + vH) {
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
-        ctx.fillRect(px, py, s.s, s.s);
-      }
-    });
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!freeCamera) return;
+    if (onWorldPointer?.('down', toWorld(e), e)) { claimed.current = true; return; }
+    drag.current = { x: e.clientX, y: e.clientY };
+    follow.current = false;
+  };
 
-    // Biomes
-    biomes.forEach(b => {
-      if (b.bounds.x + b.bounds.w > vX && b.bounds.x < vX + vW &&
-          b.bounds.y + b.bounds.h > vY && b.bounds.y < vY + vH) {
-        ctx.fillStyle = b.color + '12';
-        ctx.fillRect(b.bounds.x, b.bounds.y, b.bounds.w, b.bounds.h);
-      }
-    });
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (claimed.current) onWorldPointer?.('up', toWorld(e), e);
+    claimed.current = false;
+    drag.current = null;
+  };
 
-    // World Border
-    ctx.strokeStyle = '#1e293b';
-    ctx.lineWidth = 15;
-    ctx.strokeRect(0, 0, MAP_SIZE, MAP_SIZE);
-
-    // Food
-    ctx.fillStyle = '#475569';
-    ctx.beginPath();
-    for (let i = 0; i < entities.length; i++) {
-      const e = entities[i];
-      if (e.type === 'food' && e.x > vX && e.x < vX + vW && e.y > vY && e.y < vY + vH) {
-        ctx.moveTo(e.x + e.radius, e.y);
-        ctx.arc(e.x, e.y, e.radius, 0, 6.28);
-      }
-    }
-    ctx.fill();
-
-    const time = Date.now() * 0.002;
-    for (let i = 0; i < entities.length; i++) {
-      const e = entities[i];
-      if (e.type === 'food' || e.x + e.radius < vX || e.x - e.radius > vX + vW || e.y + e.radius < vY || e.y - e.radius > vY + vH) continue;
-
-      if (e.type === 'virus') {
-         ctx.fillStyle = e.color;
-         ctx.strokeStyle = '#166534';
-         ctx.lineWidth = 4;
-         ctx.beginPath();
-         const spikes = 20;
-         for(let s=0; s<spikes*2; s++) {
-            const rad = s % 2 === 0 ? e.radius : e.radius * 0.85;
-            const angle = (s / spikes) * Math.PI;
-            ctx.lineTo(e.x + Math.cos(angle) * rad, e.y + Math.sin(angle) * rad);
-         }
-         ctx.closePath();
-         ctx.fill();
-         ctx.stroke();
-         continue;
-      }
-
-      const pulse = 1 + Math.sin(time + i) * 0.02;
-      const r = e.radius * pulse;
-
-      // Special Effects
-      if ((e.id === 'player' || e.ownerId === 'player') && activeEffects.includes('FORTIFIED')) {
-        ctx.save();
-        ctx.shadowBlur = 20;
-        ctx.shadowColor = '#3b82f6';
-        ctx.strokeStyle = '#60a5fa';
-        ctx.lineWidth = 6;
-        ctx.beginPath();
-        ctx.arc(e.x, e.y, r + 8, 0, 6.28);
-        ctx.stroke();
-        ctx.restore();
-      }
-
-      ctx.fillStyle = e.color;
-      ctx.beginPath();
-      ctx.arc(e.x, e.y, r, 0, 6.28);
-      ctx.fill();
-
-      // Labeling
-      if (r * z > 14 && e.type !== 'ejected') {
-        ctx.fillStyle = 'white';
-        ctx.font = `bold ${Math.max(12, r * 0.35)}px Orbitron`;
-        ctx.textAlign = 'center';
-        const label = e.ownerId === 'player' || e.id === 'player' ? player.name : (e.class || 'AI');
-        ctx.fillText(label, e.x, e.y + (r*0.1));
-      }
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!freeCamera) return;
+    follow.current = false;
+    cam.current.zoom = Math.max(0.05, Math.min(2, cam.current.zoom * (e.deltaY > 0 ? 0.9 : 1.1)));
+  };
+
+  // Latest props for the frame loop, so the backend isn't rebuilt every time the parent re-renders
+  const latest = useRef({ player, map, activeEffects, freeCamera, options, advice });
+  latest.current = { player, map, activeEffects, freeCamera, options, advice };
+
+  const buildFrame = (width: number, height: number): RenderFrame | null => {
+    const { player, map, activeEffects, freeCamera, options, advice } = latest.current;
+    const { entities, worldEvents, tick } = engineRef.current;
+    const playerCells = entities.filter(e => e.type === 'player' && e.ownerId === player.id);
+    if (playerCells.length === 0 && !freeCamera) return null;
+    const huntSense = !!activeEffects.HUNT_SENSE;
+
+    if (playerCells.length > 0 && (!freeCamera || follow.current)) {
+      const totalMass = playerCells.reduce((sum, c) => sum + c.mass, 0);
+      const avgX = playerCells.reduce((sum, c) => sum + (c.x * c.mass), 0) / totalMass;
+      const avgY = playerCells.reduce((sum, c) => sum + (c.y * c.mass), 0) / totalMass;
+
+      cam.current.x += (avgX - cam.current.x) * 0.15;
+      cam.current.y += (avgY - cam.current.y) * 0.15;
+
+      const massZoom = Math.max(0.1, Math.min(0.8, 150 / (Math.sqrt(totalMass) + 80))) * (huntSense ? HUNT_SENSE_ZOOM : 1);
+      cam.current.zoom += (massZoom - cam.current.zoom) * 0.05;
     }
 
-    ctx.restore();
+    // Advice fades out over its last second
+    const adviceLeft = advice ? advice.until - performance.now() : 0;
 
-    // Vignette
-    const grd = ctx.createRadialGradient(width/2, height/2, width*0.4, width/2, height/2, width*0.8);
-    grd.addColorStop(0, 'transparent');
-    grd.addColorStop(1, 'rgba(0,0,0,0.5)');
-    ctx.fillStyle = grd;
-    ctx.fillRect(0, 0, width, height);
+    return {
+      width, height, cam: cam.current, entities, worldEvents, biomes: map.biomes, mapSize: map.size, stars: stars.current, tick,
+      time: Date.now() * 0.002, playerId: player.id, playerName: player.name, playerCells, playerStats: player.stats, activeEffects, fog: !freeCamera, options,
+      advice: adviceLeft > 0 ? { waypoint: advice!.waypoint, avoid: advice!.avoid, chase: advice!.chase, alpha: Math.min(1, adviceLeft / 1000) } : null
+    };
+  };
 
-  }, [player.name, biomes, engineRef, activeEffects]);
+  const [webglFailed, setWebglFailed] = useState(false);
+  const kind: RendererKind = renderer === 'webgl' && !webglFailed ? 'webgl' : 'canvas';
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const backend = kind === 'webgl' ? createWebGLRenderer(canvas) : createCanvas2DRenderer(canvas);
+    // A canvas keeps its first context type, so falling back means a fresh element
+    if (!backend) { setWebglFailed(true); return; }
     const resize = () => {
       canvas.width = window.innerWidth;
       canvas.height = window.innerHeight;
@@ -178,14 +136,16 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ player, engineRef, biome
     window.addEventListener('resize', resize);
     resize();
     let id = requestAnimationFrame(function frame() {
-      render();
+      const next = buildFrame(canvas.width, canvas.height);
+      if (next) backend.draw(next);
       id = requestAnimationFrame(frame);
     });
     return () => {
       window.removeEventListener('resize', resize);
       cancelAnimationFrame(id);
+      backend.dispose();
     };
-  }, [render]);
+  }, [kind]);
 
-  return <canvas ref={canvasRef} onMouseMove={handleMouseMove} className="w-full h-full block touch-none" />;
+  return <canvas key={kind} ref={canvasRef} onMouseMove={handleMouseMove} onMouseDown={handleMouseDown} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onWheel={handleWheel} onDoubleClick={() => follow.current = true} className="w-full h-full block touch-none" />;
 };
@@ -0,0 +1,486 @@
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Biome, BiomeEffect, GameEntity, GameMap, RendererKind, Shape, WorldEventState } from '../types';
+import { BIOME_EFFECTS, VIRUS_MASS, VIRUS_RADIUS } from '../constants';
+import { inShape, spawnDensity, MAP_LIMITS } from '../engine/maps';
+import { exportMap, loadMap } from '../services/maps';
+import { GameCanvas, WorldPointer } from './GameCanvas';
+import { Camera, shapePath } from './render/frame';
+
+type Point = { x: number; y: number };
+type Tool = 'select' | 'rect' | 'circle' | 'polygon' | 'virus' | 'spawn';
+type Selection = { kind: 'biome' | 'virus' | 'spawn'; index: number } | null;
+type Gesture =
+  | { type: 'move'; sel: NonNullable<Selection>; from: Point; origin: GameMap }
+  | { type: 'handle'; sel: NonNullable<Selection>; handle: number; origin: GameMap }
+  | { type: 'draw'; tool: 'rect' | 'circle' | 'spawn'; from: Point; to: Point };
+
+export interface MapHistory {
+  past: GameMap[];
+  present: GameMap;
+  future: GameMap[];
+}
+
+export const startHistory = (map: GameMap): MapHistory => ({ past: [], present: map, future: [] });
+
+const TOOLS: { id: Tool; label: string; key: string }[] = [
+  { id: 'select', label: 'Select', key: 'V' },
+  { id: 'rect', label: 'Rect', key: 'R' },
+  { id: 'circle', label: 'Circle', key: 'C' },
+  { id: 'polygon', label: 'Polygon', key: 'P' },
+  { id: 'virus', label: 'Virus', key: 'X' },
+  { id: 'spawn', label: 'Spawn', key: 'S' }
+];
+const EFFECTS = Object.keys(BIOME_EFFECTS) as BiomeEffect[];
+const HISTORY_LIMIT = 100;
+const HANDLE_PX = 8;
+const MIN_SHAPE = 50; // world units; smaller drags are treated as clicks
+const EDITOR_PLAYER = { id: 'editor', name: '' };
+const NO_EFFECTS: Record<string, number> = {};
+const NO_EVENTS: WorldEventState[] = [];
+
+const BLANK_MAP: GameMap = { id: 'untitled', name: 'Untitled', size: 8000, food: 1500, ai: 45, viruses: [], biomes: [] };
+
+const rectBetween = (a: Point, b: Point): Shape => ({
+  kind: 'rect', x: Math.round(Math.min(a.x, b.x)), y: Math.round(Math.min(a.y, b.y)), w: Math.round(Math.abs(b.x - a.x)), h: Math.round(Math.abs(b.y - a.y))
+});
+
+function moveShape(s: Shape, dx: number, dy: number): Shape {
+  if (s.kind === 'polygon') return { kind: 'polygon', points: s.points.map(([x, y]) => [Math.round(x + dx), Math.round(y + dy)]) };
+  return { ...s, x: Math.round(s.x + dx), y: Math.round(s.y + dy) };
+}
+
+/** Rects drag by their corners, circles by a point on the rim, polygons by each vertex. */
+function handlesOf(s: Shape): Point[] {
+  if (s.kind === 'rect') return [{ x: s.x, y: s.y }, { x: s.x + s.w, y: s.y }, { x: s.x + s.w, y: s.y + s.h }, { x: s.x, y: s.y + s.h }];
+  if (s.kind === 'circle') return [{ x: s.x + s.r, y: s.y }];
+  return s.points.map(([x, y]) => ({ x, y }));
+}
+
+function dragHandle(s: Shape, i: number, p: Point): Shape {
+  if (s.kind === 'rect') return rectBetween(handlesOf(s)[(i + 2) % 4], p);
+  if (s.kind === 'circle') return { ...s, r: Math.max(MIN_SHAPE, Math.round(Math.hypot(p.x - s.x, p.y - s.y))) };
+  return { kind: 'polygon', points: s.points.map((pt, k) => k === i ? [Math.round(p.x), Math.round(p.y)] : pt) };
+}
+
+/** The shape an item is edited through: spawn zones behave like circles. */
+function shapeOf(map: GameMap, sel: NonNullable<Selection>): Shape | null {
+  if (sel.kind === 'biome') return map.biomes[sel.index]?.shape ?? null;
+  if (sel.kind === 'spawn') { const z = map.playerSpawns?.[sel.index]; return z ? { kind: 'circle', x: z.x, y: z.y, r: z.r } : null; }
+  return null;
+}
+
+function withShape(map: GameMap, sel: NonNullable<Selection>, shape: Shape): GameMap {
+  if (sel.kind === 'biome') return { ...map, biomes: map.biomes.map((b, i) => i === sel.index ? { ...b, shape } : b) };
+  if (sel.kind === 'spawn' && shape.kind === 'circle') {
+    return { ...map, playerSpawns: (map.playerSpawns || []).map((z, i) => i === sel.index ? { x: shape.x, y: shape.y, r: shape.r } : z) };
+  }
+  return map;
+}
+
+function moveItem(map: GameMap, sel: NonNullable<Selection>, dx: number, dy: number): GameMap {
+  if (sel.kind === 'virus') return { ...map, viruses: map.viruses.map((v, i) => i === sel.index ? { x: Math.round(v.x + dx), y: Math.round(v.y + dy) } : v) };
+  const shape = shapeOf(map, sel);
+  return shape ? withShape(map, sel, moveShape(shape, dx, dy)) : map;
+}
+
+function removeItem(map: GameMap, sel: NonNullable<Selection>): GameMap {
+  if (sel.kind === 'biome') return { ...map, biomes: map.biomes.filter((_, i) => i !== sel.index) };
+  if (sel.kind === 'virus') return { ...map, viruses: map.viruses.filter((_, i) => i !== sel.index) };
+  const playerSpawns = (map.playerSpawns || []).filter((_, i) => i !== sel.index);
+  const { playerSpawns: _, ...rest } = map;
+  return playerSpawns.length > 0 ? { ...rest, playerSpawns } : rest;
+}
+
+const nextBiomeId = (map: GameMap) => String(map.biomes.reduce((n, b) => Math.max(n, Number(b.id) || 0), 0) + 1);
+
+const fitCamera = (map: GameMap): Camera => ({ x: map.size / 2, y: map.size / 2, zoom: Math.min(window.innerWidth, window.innerHeight) / map.size * 0.85 });
+
+/** A number input that only commits once editing finishes, so half-typed values never reach the map. */
+const NumberField: React.FC<{ label: string; value: number; min: number; max: number; step?: number; onCommit: (v: number) => void }> = ({ label, value, min, max, step = 1, onCommit }) => {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+  const commit = () => {
+    const v = Math.max(min, Math.min(max, Number(text)));
+    if (Number.isFinite(v) && v !== value) onCommit(v);
+    else setText(String(value));
+  };
+  return (
+    <label className="flex items-center justify-between gap-3 text-[9px] font-orbitron text-white/50 uppercase tracking-widest">
+      {label}
+      <input type="number" min={min} max={max} step={step} value={text} onChange={e => setText(e.target.value)} onBlur={commit} onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+        className="bg-slate-950/60 border border-white/10 rounded-lg px-2 py-1 w-24 text-right text-white outline-none focus:border-indigo-500" />
+    </label>
+  );
+};
+
+interface MapEditorProps {
+  history: MapHistory;
+  renderer?: RendererKind;
+  onTestPlay: (history: MapHistory) => void;
+  onExit: (history: MapHistory) => void;
+}
+
+export const MapEditor: React.FC<MapEditorProps> = ({ history: initial, renderer, onTestPlay, onExit }) => {
+  const [history, setHistory] = useState(initial);
+  const [tool, setTool] = useState<Tool>('select');
+  const [paint, setPaint] = useState<BiomeEffect>('nutrient');
+  const [selection, setSelection] = useState<Selection>(null);
+  const [error, setError] = useState<string | null>(null);
+  const map = history.present;
+
+  const camera = useRef<Camera>(fitCamera(initial.present));
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const draft = useRef<Point[]>([]); // polygon being placed
+  const hover = useRef<Point | null>(null);
+  const mergeKey = useRef<string | null>(null);
+
+  // Viruses render as real virus entities; biomes come straight from the map
+  const engineRef = useRef({ entities: [] as GameEntity[], worldEvents: NO_EVENTS, tick: 0 });
+  const virusEntities = useRef<{ source: GameMap['viruses'] | null; entities: GameEntity[] }>({ source: null, entities: [] });
+  if (virusEntities.current.source !== map.viruses) {
+    virusEntities.current = {
+      source: map.viruses,
+      entities: map.viruses.map((v, i) => ({ id: `v-${i}`, type: 'virus', x: v.x, y: v.y, radius: VIRUS_RADIUS, color: '#22c55e', mass: VIRUS_MASS }))
+    };
+  }
+  engineRef.current.entities = virusEntities.current.entities;
+
+  const latest = useRef({ map, selection, tool, paint });
+  latest.current = { map, selection, tool, paint };
+
+  /** Records an edit. Edits sharing a merge key (typing into one field, dragging a slider) collapse into one undo step. */
+  const commit = useCallback((next: GameMap, merge: string | null = null) => {
+    const collapse = merge !== null && merge === mergeKey.current;
+    mergeKey.current = merge;
+    setHistory(h => collapse
+      ? { ...h, present: next }
+      : { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    mergeKey.current = null;
+    setSelection(null);
+    setHistory(h => h.past.length === 0 ? h : { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] });
+  }, []);
+
+  const redo = useCallback(() => {
+    mergeKey.current = null;
+    setSelection(null);
+    setHistory(h => h.future.length === 0 ? h : { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: h.future[0], future: h.future.slice(1) });
+  }, []);
+
+  const closePolygon = useCallback(() => {
+    const points = draft.current;
+    draft.current = [];
+    if (points.length < 3) return;
+    const { map, paint } = latest.current;
+    const biome: Biome = {
+      id: nextBiomeId(map), name: BIOME_EFFECTS[paint].names[0], color: BIOME_EFFECTS[paint].color, effect: paint,
+      shape: { kind: 'polygon', points: points.map(p => [Math.round(p.x), Math.round(p.y)]) }
+    };
+    commit({ ...map, biomes: [...map.biomes, biome] });
+    setSelection({ kind: 'biome', index: map.biomes.length });
+  }, [commit]);
+
+  const hitTest = (map: GameMap, p: Point): Selection => {
+    const virus = map.viruses.findIndex(v => Math.hypot(v.x - p.x, v.y - p.y) < VIRUS_RADIUS);
+    if (virus >= 0) return { kind: 'virus', index: virus };
+    const spawn = (map.playerSpawns || []).findIndex(z => Math.hypot(z.x - p.x, z.y - p.y) < z.r);
+    if (spawn >= 0) return { kind: 'spawn', index: spawn };
+    for (let i = map.biomes.length - 1; i >= 0; i--) if (inShape(p, map.biomes[i].shape)) return { kind: 'biome', index: i };
+    return null;
+  };
+
+  const onWorldPointer: WorldPointer = (type, p) => {
+    const { map, selection, tool } = latest.current;
+    const g = gesture.current;
+    hover.current = p;
+    if (type === 'move') {
+      if (g?.type === 'draw') g.to = p;
+      else if (g?.type === 'move') setHistory(h => ({ ...h, present: moveItem(g.origin, g.sel, p.x - g.from.x, p.y - g.from.y) }));
+      else if (g?.type === 'handle') {
+        const shape = shapeOf(g.origin, g.sel);
+        if (shape) setHistory(h => ({ ...h, present: withShape(g.origin, g.sel, dragHandle(shape, g.handle, p)) }));
+      }
+      return;
+    }
+    if (type === 'up') {
+      gesture.current = null;
+      if (g?.type === 'move' || g?.type === 'handle') {
+        mergeKey.current = null;
+        setHistory(h => h.present === g.origin ? h : { past: [...h.past, g.origin].slice(-HISTORY_LIMIT), present: h.present, future: [] });
+      } else if (g?.type === 'draw') {
+        const r = Math.round(Math.hypot(g.to.x - g.from.x, g.to.y - g.from.y));
+        if (g.tool === 'spawn') {
+          const playerSpawns = [...(map.playerSpawns || []), { x: Math.round(g.from.x), y: Math.round(g.from.y), r: Math.max(MIN_SHAPE, r) }];
+          commit({ ...map, playerSpawns });
+          setSelection({ kind: 'spawn', index: playerSpawns.length - 1 });
+        } else if (r >= MIN_SHAPE) {
+          const { paint } = latest.current;
+          const shape: Shape = g.tool === 'rect' ? rectBetween(g.from, g.to) : { kind: 'circle', x: Math.round(g.from.x), y: Math.round(g.from.y), r };
+          commit({ ...map, biomes: [...map.biomes, { id: nextBiomeId(map), name: BIOME_EFFECTS[paint].names[0], color: BIOME_EFFECTS[paint].color, effect: paint, shape }] });
+          setSelection({ kind: 'biome', index: map.biomes.length });
+        }
+      }
+      return;
+    }
+
+    // Pointer down
+    if (tool === 'rect' || tool === 'circle' || tool === 'spawn') {
+      gesture.current = { type: 'draw', tool, from: p, to: p };
+      return true;
+    }
+    if (tool === 'virus') {
+      commit({ ...map, viruses: [...map.viruses, { x: Math.round(p.x), y: Math.round(p.y) }] });
+      setSelection({ kind: 'virus', index: map.viruses.length });
+      return true;
+    }
+    if (tool === 'polygon') {
+      const first = draft.current[0];
+      if (draft.current.length >= 3 && Math.hypot(first.x - p.x, first.y - p.y) < (HANDLE_PX * 2) / camera.current.zoom) closePolygon();
+      else draft.current = [...draft.current, p];
+      return true;
+    }
+    if (selection) {
+      const shape = shapeOf(map, selection);
+      const handle = shape ? handlesOf(shape).findIndex(h => Math.hypot(h.x - p.x, h.y - p.y) < HANDLE_PX / camera.current.zoom) : -1;
+      if (handle >= 0) {
+        gesture.current = { type: 'handle', sel: selection, handle, origin: map };
+        return true;
+      }
+    }
+    const hit = hitTest(map, p);
+    setSelection(hit);
+    if (!hit) return false;
+    gesture.current = { type: 'move', sel: hit, from: p, origin: map };
+    return true;
+  };
+
+  const deleteSelection = useCallback(() => {
+    const { map, selection } = latest.current;
+    if (!selection) return;
+    commit(removeItem(map, selection));
+    setSelection(null);
+  }, [commit]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.code === 'KeyZ') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); return; }
+      if (mod && e.code === 'KeyY') { e.preventDefault(); redo(); return; }
+      if (mod) return;
+      if (e.code === 'Enter') closePolygon();
+      else if (e.code === 'Escape') { draft.current = []; setSelection(null); }
+      else if (e.code === 'Delete' || e.code === 'Backspace') {
+        if (draft.current.length > 0) draft.current = draft.current.slice(0, -1);
+        else deleteSelection();
+      } else {
+        const t = TOOLS.find(t => e.code === `Key${t.key}`);
+        if (t) { draft.current = []; setTool(t.id); }
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo, closePolygon, deleteSelection]);
+
+  // Editor overlay: spawn zones, the selection and whatever is being drawn, on the shared camera
+  useEffect(() => {
+    let id = requestAnimationFrame(function frame() {
+      id = requestAnimationFrame(frame);
+      const canvas = overlayRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) { canvas.width = window.innerWidth; canvas.height = window.innerHeight; }
+      const { map, selection } = latest.current;
+      const cam = camera.current, z = cam.zoom;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.save();
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.scale(z, z);
+      ctx.translate(-cam.x, -cam.y);
+      ctx.lineWidth = 2 / z;
+
+      (map.playerSpawns || []).forEach((s, i) => {
+        ctx.fillStyle = 'rgba(255,255,255,0.05)';
+        ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+        ctx.setLineDash([10 / z, 8 / z]);
+        ctx.beginPath();
+        ctx.arc(s.x, s.y, s.r, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'rgba(255,255,255,0.7)';
+        ctx.font = `bold ${12 / z}px Orbitron`;
+        ctx.textAlign = 'center';
+        ctx.fillText(`SPAWN ${i + 1}`, s.x, s.y + 4 / z);
+      });
+
+      if (selection) {
+        ctx.strokeStyle = '#ffffff';
+        const shape = shapeOf(map, selection);
+        if (shape) {
+          ctx.stroke(shapePath(shape));
+          ctx.fillStyle = '#6366f1';
+          handlesOf(shape).forEach(h => ctx.fillRect(h.x - HANDLE_PX / z / 2, h.y - HANDLE_PX / z / 2, HANDLE_PX / z, HANDLE_PX / z));
+        } else if (selection.kind === 'virus' && map.viruses[selection.index]) {
+          const v = map.viruses[selection.index];
+          ctx.beginPath();
+          ctx.arc(v.x, v.y, VIRUS_RADIUS + 12 / z, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+      }
+
+      const g = gesture.current;
+      ctx.strokeStyle = '#a5b4fc';
+      ctx.setLineDash([8 / z, 6 / z]);
+      if (g?.type === 'draw') {
+        ctx.beginPath();
+        if (g.tool === 'rect') { const r = rectBetween(g.from, g.to) as Extract<Shape, { kind: 'rect' }>; ctx.rect(r.x, r.y, r.w, r.h); }
+        else ctx.arc(g.from.x, g.from.y, Math.hypot(g.to.x - g.from.x, g.to.y - g.from.y), 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      const pts = draft.current;
+      if (pts.length > 0) {
+        ctx.beginPath();
+        pts.forEach(p => ctx.lineTo(p.x, p.y));
+        if (hover.current) ctx.lineTo(hover.current.x, hover.current.y);
+        ctx.stroke();
+        ctx.fillStyle = '#a5b4fc';
+        pts.forEach(p => ctx.fillRect(p.x - HANDLE_PX / z / 2, p.y - HANDLE_PX / z / 2, HANDLE_PX / z, HANDLE_PX / z));
+      }
+      ctx.restore();
+    });
+    return () => cancelAnimationFrame(id);
+  }, []);
+
+  const handleLoad = async (file: File) => {
+    try {
+      const loaded = await loadMap(file);
+      commit(loaded);
+      setSelection(null);
+      camera.current = fitCamera(loaded);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Map could not be read');
+    }
+  };
+
+  const biome = selection?.kind === 'biome' ? map.biomes[selection.index] : undefined;
+  const spawnZone = selection?.kind === 'spawn' ? map.playerSpawns?.[selection.index] : undefined;
+  const updateBiome = (patch: Partial<Biome>, merge: string | null = null) => {
+    if (!selection || selection.kind !== 'biome') return;
+    commit({ ...map, biomes: map.biomes.map((b, i) => i === selection.index ? { ...b, ...patch } : b) }, merge);
+  };
+  const setDensity = (kind: 'food' | 'ai', value: number) => {
+    if (!biome) return;
+    const spawns = { ...biome.spawns, [kind]: value };
+    if (value === spawnDensity({ ...biome, spawns: undefined }, kind)) delete spawns[kind];
+    updateBiome({ spawns: Object.keys(spawns).length > 0 ? spawns : undefined }, `${kind}-${biome.id}`);
+  };
+  const reorder = (delta: number) => {
+    if (!selection || selection.kind !== 'biome') return;
+    const to = selection.index + delta;
+    if (to < 0 || to >= map.biomes.length) return;
+    const biomes = [...map.biomes];
+    [biomes[selection.index], biomes[to]] = [biomes[to], biomes[selection.index]];
+    commit({ ...map, biomes });
+    setSelection({ kind: 'biome', index: to });
+  };
+
+  const pill = 'glass px-4 py-2 rounded-full text-[9px] font-orbitron font-black uppercase tracking-widest border-white/10 transition-all';
+  const panel = 'glass p-6 rounded-[32px] w-72 shadow-2xl border-white/10 flex flex-col gap-3';
+
+  return (
+    <>
+      <GameCanvas player={EDITOR_PLAYER} engineRef={engineRef} map={map} activeEffects={NO_EFFECTS} onMove={() => {}} freeCamera renderer={renderer} camera={camera} onWorldPointer={onWorldPointer} />
+      <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
+      <div className="absolute top-6 left-1/2 -translate-x-1/2 glass px-4 py-3 rounded-full flex items-center gap-2 shadow-2xl border-white/10">
+        {TOOLS.map(t => (
+          <button key={t.id} onClick={() => { draft.current = []; setTool(t.id); }} title={`${t.label} (${t.key})`}
+            className={`${pill} ${tool === t.id ? 'text-white border-indigo-500 bg-indigo-500/20' : 'text-white/40 hover:text-white'}`}>{t.label}</button>
+        ))}
+        <select value={paint} onChange={e => setPaint(e.target.value as BiomeEffect)} title="Effect for newly drawn biomes"
+          className="bg-slate-950/60 border border-white/10 rounded-full px-3 py-2 text-[9px] font-orbitron font-black uppercase tracking-widest outline-none" style={{ color: BIOME_EFFECTS[paint].color }}>
+          {EFFECTS.map(fx => <option key={fx} value={fx}>{BIOME_EFFECTS[fx].label}</option>)}
+        </select>
+      </div>
+
+      <div className="absolute top-6 right-6 flex gap-2">
+        <button onClick={undo} disabled={history.past.length === 0} className={`${pill} text-white/60 hover:text-white disabled:opacity-30`}>Undo</button>
+        <button onClick={redo} disabled={history.future.length === 0} className={`${pill} text-white/60 hover:text-white disabled:opacity-30`}>Redo</button>
+        <button onClick={() => { commit(BLANK_MAP); setSelection(null); camera.current = fitCamera(BLANK_MAP); }} className={`${pill} text-white/60 hover:text-white`}>New</button>
+        <label className={`${pill} text-white/60 hover:text-white cursor-pointer`}>
+          Load
+          <input type="file" accept="application/json,.json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleLoad(f); e.target.value = ''; }} />
+        </label>
+        <button onClick={() => exportMap(map)} className={`${pill} text-white/60 hover:text-white`}>Save</button>
+        <button onClick={() => onTestPlay(history)} className={`${pill} text-emerald-300 border-emerald-500/40 hover:bg-emerald-500/20`}>Test Play</button>
+        <button onClick={() => onExit(history)} className={`${pill} text-white/60 hover:text-white`}>Done</button>
+      </div>
+
+      <div className="absolute top-28 left-6 flex flex-col gap-4">
+        <div className={panel}>
+          <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em]">Map</span>
+          <input value={map.name} onChange={e => commit({ ...map, name: e.target.value, id: e.target.value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled' }, 'name')}
+            className="bg-slate-950/60 border border-white/10 rounded-lg px-3 py-2 font-orbitron text-sm text-white outline-none focus:border-indigo-500" />
+          <NumberField label="Size" value={map.size} min={MAP_LIMITS.size[0]} max={MAP_LIMITS.size[1]} step={500} onCommit={size => commit({ ...map, size })} />
+          <NumberField label="Food" value={map.food} min={MAP_LIMITS.food[0]} max={MAP_LIMITS.food[1]} step={100} onCommit={food => commit({ ...map, food })} />
+          <NumberField label="AI cells" value={map.ai} min={MAP_LIMITS.ai[0]} max={MAP_LIMITS.ai[1]} onCommit={ai => commit({ ...map, ai })} />
+          <span className="text-[9px] font-orbitron text-white/30 uppercase tracking-widest">{map.biomes.length} biomes · {map.viruses.length} viruses · {map.playerSpawns?.length || 0} spawns</span>
+        </div>
+
+        {biome && (
+          <div className={panel}>
+            <span className="text-[10px] font-black uppercase tracking-[0.3em]" style={{ color: biome.color }}>Biome · {biome.shape.kind}</span>
+            <input value={biome.name} onChange={e => updateBiome({ name: e.target.value }, `name-${biome.id}`)}
+              className="bg-slate-950/60 border border-white/10 rounded-lg px-3 py-2 font-orbitron text-sm text-white outline-none focus:border-indigo-500" />
+            <div className="flex items-center gap-2">
+              <select value={biome.effect} onChange={e => updateBiome({ effect: e.target.value as BiomeEffect })}
+                className="flex-1 bg-slate-950/60 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-orbitron text-white outline-none">
+                {EFFECTS.map(fx => <option key={fx} value={fx}>{BIOME_EFFECTS[fx].label}</option>)}
+              </select>
+              <input type="color" value={biome.color} onChange={e => updateBiome({ color: e.target.value }, `color-${biome.id}`)} className="w-10 h-8 bg-transparent cursor-pointer" />
+            </div>
+            {(['food', 'ai'] as const).map(kind => (
+              <label key={kind} className="flex flex-col gap-1 text-[9px] font-orbitron text-white/50 uppercase tracking-widest">
+                {kind === 'food' ? 'Food' : 'AI'} density · {spawnDensity(biome, kind).toFixed(2)}x
+                <input type="range" min={0} max={5} step={0.25} value={spawnDensity(biome, kind)} onChange={e => setDensity(kind, Number(e.target.value))} className="accent-indigo-500" />
+              </label>
+            ))}
+            <div className="flex gap-2">
+              <button onClick={() => reorder(1)} className={`${pill} text-white/60 hover:text-white`}>Raise</button>
+              <button onClick={() => reorder(-1)} className={`${pill} text-white/60 hover:text-white`}>Lower</button>
+              <button onClick={deleteSelection} className={`${pill} text-red-400 hover:text-red-300`}>Delete</button>
+            </div>
+          </div>
+        )}
+
+        {spawnZone && (
+          <div className={panel}>
+            <span className="text-[10px] text-white/70 font-black uppercase tracking-[0.3em]">Spawn zone {selection!.index + 1}</span>
+            <NumberField label="Radius" value={spawnZone.r} min={MIN_SHAPE} max={map.size} step={50} onCommit={r => commit(withShape(map, selection!, { kind: 'circle', x: spawnZone.x, y: spawnZone.y, r }))} />
+            <span className="text-[9px] font-orbitron text-white/30 uppercase tracking-widest">{selection!.index === 0 ? 'First player starts at its center' : 'Later players drop in here'}</span>
+            <button onClick={deleteSelection} className={`${pill} text-red-400 hover:text-red-300`}>Delete</button>
+          </div>
+        )}
+
+        {selection?.kind === 'virus' && (
+          <div className={panel}>
+            <span className="text-[10px] text-emerald-400 font-black uppercase tracking-[0.3em]">Virus</span>
+            <button onClick={deleteSelection} className={`${pill} text-red-400 hover:text-red-300`}>Delete</button>
+          </div>
+        )}
+
+        {error && <span className="text-[9px] text-red-400 uppercase tracking-widest">{error}</span>}
+      </div>
+
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-[9px] font-orbitron text-white/30 uppercase tracking-widest pointer-events-none">
+        Drag empty space to pan · wheel to zoom · polygon: click points, Enter or click the first point to close · Del removes · Ctrl+Z / Ctrl+Shift+Z
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,60 @@
+
+import React from 'react';
+
+// `code`, **bold**, *italic* or _italic_, and [links](https://...)
+const INLINE = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+function inline(text: string): React.ReactNode[] {
+  return text.split(INLINE).map((part, i) => {
+    if (i % 2 === 0) return part;
+    if (part.startsWith('`')) return <code key={i} className="bg-black/40 rounded px-1 font-mono text-[10px]">{part.slice(1, -1)}</code>;
+    if (part.startsWith('**')) return <strong key={i} className="text-white">{inline(part.slice(2, -2))}</strong>;
+    if (part.startsWith('[')) {
+      const [, label, href] = part.match(/^\[([^\]]+)\]\((.+)\)$/)!;
+      return <a key={i} href={href} target="_blank" rel="noreferrer" className="text-indigo-400 underline">{label}</a>;
+    }
+    return <em key={i}>{inline(part.slice(1, -1))}</em>;
+  });
+}
+
+const withBreaks = (lines: string[]) => lines.flatMap((l, i) => i ? [<br key={`br${i}`} />, ...inline(l)] : inline(l));
+
+/**
+ * The markdown chat models actually write: paragraphs, headings, lists,
+ * fenced code and the usual inline marks. Built as elements, never as HTML.
+ */
+export const Markdown: React.FC<{ text: string }> = ({ text }) => {
+  const blocks: React.ReactNode[] = [];
+  const lines = text.replace(/\r/g, '').split('\n');
+  for (let i = 0; i < lines.length;) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+    const key = blocks.length;
+    if (line.startsWith('```')) {
+      const end = lines.findIndex((l, j) => j > i && l.startsWith('```'));
+      const body = lines.slice(i + 1, end < 0 ? lines.length : end);
+      blocks.push(<pre key={key} className="bg-black/40 rounded-lg p-2 font-mono text-[10px] overflow-x-auto whitespace-pre">{body.join('\n')}</pre>);
+      i = end < 0 ? lines.length : end + 1;
+      continue;
+    }
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      blocks.push(<div key={key} className="font-black text-white uppercase tracking-wider text-[10px]">{inline(heading[1])}</div>);
+      i++;
+      continue;
+    }
+    const list = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (list) {
+      const ordered = /\d/.test(list[1]);
+      const items: string[] = [];
+      for (let m; i < lines.length && (m = lines[i].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/)) && /\d/.test(m[1]) === ordered; i++) items.push(m[2]);
+      const Tag = ordered ? 'ol' : 'ul';
+      blocks.push(<Tag key={key} className={`${ordered ? 'list-decimal' : 'list-disc'} pl-4 space-y-0.5`}>{items.map((it, j) => <li key={j}>{inline(it)}</li>)}</Tag>);
+      continue;
+    }
+    const para: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !/^(```|#{1,6}\s|\s*([-*+]|\d+[.)])\s)/.test(lines[i]); i++) para.push(lines[i]);
+    blocks.push(<p key={key}>{withBreaks(para)}</p>);
+  }
+  return <div className="space-y-2">{blocks}</div>;
+};
@@ -1,17 +1,22 @@
 
 import React, { useRef, useEffect } from 'react';
-import { GameEntity, Biome, PlayerState } from '../types';
-import { MAP_SIZE } from '../constants';
+import { GameEntity, GameMap, PlayerState, WorldEventState } from '../types';
+import { FACTION_DATA } from '../constants';
+import { shapePath } from './render/frame';
+import { outweighs } from '../engine/combat';
 
 interface MinimapProps {
   player: PlayerState;
   entities: GameEntity[];
-  biomes: Biome[];
+  map: GameMap;
+  worldEvents?: WorldEventState[];
+  huntSense?: boolean;
+  tick?: number; // entities may be mutated in place, so redraw when the world advances
+  size?: number; // px
 }
 
-export const Minimap: React.FC<MinimapProps> = ({ player, entities, biomes }) => {
+export const Minimap: React.FC<MinimapProps> = ({ player, entities, map, worldEvents = [], huntSense, tick, size = 180 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const size = 180;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -19,7 +24,7 @@ export const Minimap: React.FC<MinimapProps> = ({ player, entities, biomes }) =>
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) return;
 
-    const scale = size / MAP_SIZE;
+    const scale = size / map.size;
 
     // Background
     ctx.fillStyle = '#020617';
@@ -37,23 +42,37 @@ export const Minimap: React.FC<MinimapProps> = ({ player, entities, biomes }) =>
     ctx.stroke();
 
     // Biomes
-    biomes.forEach(biome => {
+    ctx.save();
+    ctx.scale(scale, scale);
+    map.biomes.forEach(biome => {
       ctx.fillStyle = biome.color + '33';
-      ctx.fillRect(
-        biome.bounds.x * scale,
-        biome.bounds.y * scale,
-        biome.bounds.w * scale,
-        biome.bounds.h * scale
-      );
+      ctx.fill(shapePath(biome.shape));
     });
+    ctx.restore();
+
+    // World event zones
+    worldEvents.forEach(ev => {
+      ctx.strokeStyle = ev.color;
+      ctx.fillStyle = ev.color + '22';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(ev.x * scale, ev.y * scale, ev.radius * scale, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+
+    const ownCells = entities.filter(e => e.type === 'player' && e.ownerId === player.id);
+    const biggestCell = ownCells.reduce((m, c) => Math.max(m, c.mass), 0);
+    const playerFaction = ownCells[0]?.faction;
 
     // Entities
     entities.forEach(entity => {
-      if (entity.type === 'food') return;
+      if (entity.type === 'food' || entity.isVisible === false) return;
       const x = entity.x * scale;
       const y = entity.y * scale;
-      const isPlayerCell = entity.id === 'player' || entity.ownerId === 'player';
-      
+      const isPlayerCell = entity.type === 'player' && entity.ownerId === player.id;
+      const isPrey = huntSense && !isPlayerCell && (entity.type === 'ai' || entity.type === 'player') && outweighs(biggestCell, player.stats, entity) && (playerFaction === undefined || entity.faction !== playerFaction);
+
       if (isPlayerCell) {
         ctx.fillStyle = '#ffffff';
         ctx.shadowBlur = 4;
@@ -62,8 +81,26 @@ export const Minimap: React.FC<MinimapProps> = ({ player, entities, biomes }) =>
         ctx.arc(x, y, 3, 0, Math.PI * 2);
         ctx.fill();
         ctx.shadowBlur = 0;
+      } else if (isPrey) {
+        ctx.strokeStyle = '#ff3e3e';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(x, y, 3.5, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.fillStyle = '#ff3e3e';
+        ctx.fillRect(x - 1, y - 1, 2, 2);
+      } else if (entity.type === 'player') {
+        // Other operators: allies in their faction color, everyone else hostile orange
+        const ally = playerFaction !== undefined && entity.faction === playerFaction;
+        ctx.strokeStyle = ally ? FACTION_DATA[playerFaction].color : '#f97316';
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(x, y, 3, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.fillRect(x - 1, y - 1, 2, 2);
       } else if (entity.type === 'ai') {
-        ctx.fillStyle = entity.color;
+        ctx.fillStyle = entity.faction !== undefined ? FACTION_DATA[entity.faction].color : entity.color;
         ctx.beginPath();
         ctx.arc(x, y, 1.5, 0, Math.PI * 2);
         ctx.fill();
@@ -78,7 +115,7 @@ export const Minimap: React.FC<MinimapProps> = ({ player, entities, biomes }) =>
     ctx.lineWidth = 1;
     ctx.strokeRect(0, 0, size, size);
 
-  }, [entities, biomes]);
+  }, [entities, map, worldEvents, huntSense, player.id, tick, size]);
 
   return (
     <div className="relative rounded-3xl overflow-hidden border border-white/10 shadow-3xl bg-slate-900/40 backdrop-blur-xl p-1 animate-in zoom-in duration-700">
@@ -0,0 +1,73 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { ReplayFile, RendererKind } from '../types';
+import { PHYSICS_TPS } from '../constants';
+import { ReplaySession, exportReplay } from '../services/replay';
+import { GameCanvas } from './GameCanvas';
+import { Minimap } from './Minimap';
+
+interface ReplayViewerProps {
+  replay: ReplayFile;
+  onExit: () => void;
+  renderer?: RendererKind;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+const clock = (ticks: number) => {
+  const s = Math.floor(ticks / PHYSICS_TPS);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit, renderer }) => {
+  const [session] = useState(() => new ReplaySession(replay));
+  const sessionRef = useRef(session);
+  const [, setFrame] = useState(0);
+
+  useEffect(() => {
+    let frameId = requestAnimationFrame(function update(time) {
+      sessionRef.current.advance(time);
+      frameId = requestAnimationFrame(update);
+    });
+    const uiInterval = setInterval(() => setFrame(f => f + 1), 100);
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code === 'Space') { sessionRef.current.paused = !sessionRef.current.paused; setFrame(f => f + 1); }
+      if (e.code === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => { cancelAnimationFrame(frameId); clearInterval(uiInterval); window.removeEventListener('keydown', onKey); };
+  }, [onExit]);
+
+  const view = session.view();
+  if (!view) return null;
+
+  return (
+    <>
+      <GameCanvas player={view.state} engineRef={sessionRef} map={session.map} activeEffects={view.effects} onMove={() => {}} freeCamera renderer={renderer} />
+      <div className="absolute top-6 left-1/2 -translate-x-1/2 glass px-6 py-4 rounded-[32px] flex items-center gap-4 shadow-2xl border-white/10 pointer-events-auto">
+        <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em]">Replay</span>
+        <span className="text-[10px] font-orbitron text-white/60 uppercase tracking-widest">{replay.player.name} · {replay.player.cls}</span>
+        <button onClick={() => { session.paused = !session.paused; setFrame(f => f + 1); }} className="glass w-10 h-10 rounded-xl font-orbitron font-black text-white border-white/20 hover:border-indigo-500">
+          {session.paused ? '▶' : '❚❚'}
+        </button>
+        <input type="range" min={0} max={session.length} value={session.seekTarget ?? session.tick} onChange={e => { session.seek(Number(e.target.value)); setFrame(f => f + 1); }} className="w-80 accent-indigo-500" />
+        <span className="text-[10px] font-orbitron text-white/70 w-24 text-center">{clock(session.tick)} / {clock(session.length)}</span>
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button key={s} onClick={() => { session.speed = s; setFrame(f => f + 1); }}
+              className={`px-2 py-1 rounded-lg text-[9px] font-orbitron font-black border ${session.speed === s ? 'text-white border-indigo-500 bg-indigo-500/20' : 'text-white/40 border-white/10 hover:text-white'}`}>{s}x</button>
+          ))}
+        </div>
+        <button onClick={() => exportReplay(replay)} className="glass px-4 py-2 rounded-full text-[9px] font-orbitron font-black text-white/60 hover:text-white uppercase tracking-widest border-white/10">Export</button>
+        <button onClick={onExit} className="glass px-4 py-2 rounded-full text-[9px] font-orbitron font-black text-white/60 hover:text-white uppercase tracking-widest border-white/10">Exit</button>
+      </div>
+      {session.seekTarget !== null && (
+        <div className="absolute top-28 left-1/2 -translate-x-1/2 text-[10px] font-orbitron text-indigo-400 font-black uppercase tracking-[0.6em] animate-pulse pointer-events-none">Seeking...</div>
+      )}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-[9px] font-orbitron text-white/30 uppercase tracking-widest pointer-events-none">Drag to pan · wheel to zoom · double-click to follow · space to pause</div>
+      <div className="absolute bottom-10 right-10">
+        <Minimap player={view.state} entities={session.entities} map={session.map} worldEvents={session.worldEvents} tick={session.tick} />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { Leaderboard, SimEvent } from '../types';
+
+export type KillEvent = Extract<SimEvent, { type: 'kill' }>;
+
+interface LeaderboardPanelProps {
+  board: Leaderboard;
+  playerId: string;
+}
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ board, playerId }) => {
+  const listed = board.top.some(e => e.id === playerId);
+  return (
+    <div className="glass px-6 py-4 rounded-[28px] w-64 shadow-2xl border-white/10">
+      <div className="flex justify-between items-end mb-3">
+        <span className="text-[10px] text-white/40 font-black uppercase tracking-[0.3em]">Leaderboard</span>
+        <span className="text-[9px] text-white/30 font-orbitron">{board.total} alive</span>
+      </div>
+      <div className="flex flex-col gap-1">
+        {board.top.map((e, i) => (
+          <div key={e.id} className={`flex items-center gap-3 text-[11px] rounded-lg px-2 py-0.5 ${e.id === playerId ? 'bg-emerald-500/20 text-emerald-300 font-black' : 'text-white/70'}`}>
+            <span className="font-orbitron text-white/30 w-5 text-right">{i + 1}</span>
+            <span className="flex-1 truncate">{e.name}</span>
+            <span className="font-orbitron">{e.mass}</span>
+          </div>
+        ))}
+        {!listed && board.rank > 0 && (
+          <div className="flex items-center gap-3 text-[11px] rounded-lg px-2 py-0.5 mt-1 border-t border-white/10 bg-emerald-500/20 text-emerald-300 font-black">
+            <span className="font-orbitron w-5 text-right">{board.rank}</span>
+            <span className="flex-1">You</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface KillFeedProps {
+  kills: { key: number; ev: KillEvent }[];
+  playerId: string;
+}
+
+export const KillFeed: React.FC<KillFeedProps> = ({ kills, playerId }) => (
+  <div className="flex flex-col items-end gap-1">
+    {kills.map(({ key, ev }) => {
+      const mine = ev.killerId === playerId || ev.victimId === playerId;
+      return (
+        <div key={key} className={`glass px-4 py-1.5 rounded-2xl text-[11px] animate-in fade-in slide-in-from-right-4 duration-300 ${mine ? 'border-rose-500/40 text-white' : 'text-white/60'}`}>
+          <span className={ev.killerId === playerId ? 'text-emerald-300 font-black' : 'font-bold'}>{ev.killer}</span>
+          <span className="opacity-50"> consumed </span>
+          <span className={ev.victimId === playerId ? 'text-rose-300 font-black' : 'font-bold'}>{ev.victim}</span>
+          <span className="font-orbitron text-[9px] opacity-50 ml-2">+{ev.mass}</span>
+        </div>
+      );
+    })}
+  </div>
+);
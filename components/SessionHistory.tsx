@@ -0,0 +1,57 @@
+
+import React from 'react';
+import { CellClass, Profile } from '../types';
+import { CLASS_DATA } from '../constants';
+import { killsIn } from '../services/profile';
+import { describeCause, formatTicks } from './DeathReport';
+
+interface SessionHistoryProps {
+  profile: Profile;
+  onClose: () => void;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ profile, onClose }) => (
+  <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+    <div className="glass p-8 rounded-[40px] w-[760px] max-h-[80vh] flex flex-col shadow-2xl border-white/10 text-left" onClick={e => e.stopPropagation()}>
+      <div className="flex justify-between items-center mb-6">
+        <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em]">Personal bests</span>
+        <button onClick={onClose} className="text-[10px] font-orbitron font-black text-white/40 hover:text-white uppercase tracking-widest">Close</button>
+      </div>
+      <div className="grid grid-cols-5 gap-3 mb-8">
+        {(Object.keys(CLASS_DATA) as CellClass[]).map(cls => {
+          const best = profile.bests[cls];
+          return (
+            <div key={cls} className="rounded-2xl border border-white/10 p-3">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="w-2 h-2 rounded-full" style={{ background: CLASS_DATA[cls].color }} />
+                <span className="text-[9px] font-orbitron font-black text-white uppercase tracking-widest">{cls}</span>
+              </div>
+              {best ? (
+                <div className="text-[10px] text-white/60 leading-relaxed">
+                  <div>Peak <span className="text-white font-bold">{best.peakMass}</span></div>
+                  <div>Alive <span className="text-white font-bold">{formatTicks(best.ticks)}</span></div>
+                  <div>XP <span className="text-white font-bold">{best.xpEarned}</span></div>
+                  <div>Kills <span className="text-white font-bold">{best.kills}</span></div>
+                </div>
+              ) : <div className="text-[10px] text-white/20">No runs yet</div>}
+            </div>
+          );
+        })}
+      </div>
+      <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em] mb-3">Recent sessions</span>
+      <div className="overflow-y-auto flex flex-col gap-1 pr-2">
+        {profile.history.length === 0 && <span className="text-[11px] text-white/30">Die once and it shows up here.</span>}
+        {profile.history.map(r => (
+          <div key={r.at} className="grid grid-cols-[110px_80px_1fr_50px_60px_40px] gap-3 items-center text-[11px] text-white/70 py-1 border-b border-white/5">
+            <span className="text-white/40">{new Date(r.at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+            <span style={{ color: CLASS_DATA[r.class].color }} className="font-bold">{r.class}</span>
+            <span className="truncate" title={`${r.map} · ${describeCause(r.cause)}`}>{describeCause(r.cause)}</span>
+            <span className="font-orbitron text-right">{formatTicks(r.ticks)}</span>
+            <span className="font-orbitron text-right">{r.peakMass}</span>
+            <span className="font-orbitron text-right">{killsIn(r)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
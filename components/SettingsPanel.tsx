@@ -0,0 +1,139 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AIProviderKind, AISettings, GraphicsSettings, Settings } from '../types';
+import { GRAPHICS_PRESETS, STAR_RANGE, UI_SCALE_RANGE, MINIMAP_RANGE, AI_PROVIDERS, AI_TIMEOUT_RANGE } from '../services/settings';
+import { createProvider } from '../services/ai';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="mb-6">
+    <div className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em] mb-3">{title}</div>
+    <div className="flex flex-col gap-2">{children}</div>
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; value: boolean; onChange: (v: boolean) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between text-[11px] text-white/70 cursor-pointer">
+    {label}
+    <input type="checkbox" checked={value} onChange={e => onChange(e.target.checked)} className="accent-indigo-500" />
+  </label>
+);
+
+const Slider: React.FC<{ label: string; value: number; range: [number, number]; step: number; format: (v: number) => string; onChange: (v: number) => void }> = ({ label, value, range, step, format, onChange }) => (
+  <label className="grid grid-cols-[120px_1fr_48px] gap-3 items-center text-[11px] text-white/70">
+    {label}
+    <input type="range" min={range[0]} max={range[1]} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="accent-indigo-500" />
+    <span className="font-orbitron text-[10px] text-right text-white">{format(value)}</span>
+  </label>
+);
+
+const TextField: React.FC<{ label: string; value: string; onChange: (v: string) => void }> = ({ label, value, onChange }) => (
+  <label className="grid grid-cols-[120px_1fr] gap-3 items-center text-[11px] text-white/70">
+    {label}
+    <input value={value} onChange={e => onChange(e.target.value)} spellCheck={false}
+      className="bg-black/30 border border-white/10 rounded-lg px-3 py-1.5 text-[11px] text-white outline-none focus:border-indigo-500" />
+  </label>
+);
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const PROVIDER_NAMES: Record<AIProviderKind, string> = { gemini: 'Gemini', local: 'Local', offline: 'Offline' };
+
+/** Sends one short question through the current AI settings and reports who answered. */
+const ProviderTest: React.FC<{ ai: AISettings }> = ({ ai }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => setStatus(null), [ai]);
+
+  const run = async () => {
+    abortRef.current?.abort();
+    const ctrl = abortRef.current = new AbortController();
+    setStatus('Waiting for a reply...');
+    try {
+      const reply = await createProvider(ai).generate({
+        task: 'chat', system: 'Answer in one short sentence.', messages: [{ role: 'user', text: 'How do I split?' }],
+        signal: ctrl.signal, onText: text => setStatus(text)
+      });
+      setStatus(reply.fallbackReason ? `${reply.fallbackReason}; offline rules answered.` : `OK: ${reply.text}`);
+    } catch (err) {
+      if (!ctrl.signal.aborted) setStatus(`Failed: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-3">
+      <button onClick={run} className="glass shrink-0 px-4 py-2 rounded-full text-[9px] font-orbitron font-black text-white/60 hover:text-white uppercase tracking-widest border-white/10">Test</button>
+      {status && <span className="text-[10px] text-white/50 leading-relaxed line-clamp-3">{status}</span>}
+    </div>
+  );
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const set = (patch: Partial<Settings>) => onChange({ ...settings, ...patch });
+  const gfx = (patch: Partial<GraphicsSettings>) => set({ graphics: { ...settings.graphics, ...patch } });
+  const ai = (patch: Partial<AISettings>) => set({ ai: { ...settings.ai, ...patch } });
+  const preset = (Object.keys(GRAPHICS_PRESETS) as (keyof typeof GRAPHICS_PRESETS)[])
+    .find(k => JSON.stringify(GRAPHICS_PRESETS[k]) === JSON.stringify(settings.graphics));
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass p-8 rounded-[40px] w-[520px] max-h-[85vh] overflow-y-auto shadow-2xl border-white/10 text-left" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <span className="font-orbitron text-lg font-black text-white tracking-widest uppercase">Settings</span>
+          <button onClick={onClose} className="text-[10px] font-orbitron font-black text-white/40 hover:text-white uppercase tracking-widest">Close</button>
+        </div>
+        <Section title="Graphics">
+          <div className="flex gap-2 mb-1">
+            {(Object.keys(GRAPHICS_PRESETS) as (keyof typeof GRAPHICS_PRESETS)[]).map(k => (
+              <button key={k} onClick={() => set({ graphics: { ...GRAPHICS_PRESETS[k] } })}
+                className={`glass px-4 py-2 rounded-full text-[9px] font-orbitron font-black uppercase tracking-widest ${preset === k ? 'text-white border-white/40' : 'text-white/40 border-white/5 hover:text-white'}`}>{k}</button>
+            ))}
+            <button onClick={() => set({ renderer: settings.renderer === 'webgl' ? 'canvas' : 'webgl' })} title="Drawing backend; WebGL falls back to Canvas2D where unsupported"
+              className="glass ml-auto px-4 py-2 rounded-full text-[9px] font-orbitron font-black text-white/60 hover:text-white uppercase tracking-widest border-white/10">{settings.renderer === 'webgl' ? 'WebGL' : 'Canvas'}</button>
+          </div>
+          <Slider label="Stars" value={settings.graphics.stars} range={STAR_RANGE} step={50} format={String} onChange={stars => gfx({ stars })} />
+          <Toggle label="Pulse animation" value={settings.graphics.pulse} onChange={pulse => gfx({ pulse })} />
+          <Toggle label="Glow" value={settings.graphics.glow} onChange={glow => gfx({ glow })} />
+          <Toggle label="Vignette" value={settings.graphics.vignette} onChange={vignette => gfx({ vignette })} />
+        </Section>
+        <Section title="Interface">
+          <Slider label="UI scale" value={settings.uiScale} range={UI_SCALE_RANGE} step={0.05} format={pct} onChange={uiScale => set({ uiScale })} />
+          <Slider label="Minimap size" value={settings.minimapSize} range={MINIMAP_RANGE} step={10} format={v => `${v}px`} onChange={minimapSize => set({ minimapSize })} />
+          <Toggle label="Cell names" value={settings.labels} onChange={labels => set({ labels })} />
+          <Toggle label="Mass numbers" value={settings.massNumbers} onChange={massNumbers => set({ massNumbers })} />
+        </Section>
+        <Section title="Audio">
+          <Slider label="Master" value={settings.volume.master} range={[0, 1]} step={0.05} format={pct} onChange={master => set({ volume: { ...settings.volume, master } })} />
+          <Slider label="Effects" value={settings.volume.effects} range={[0, 1]} step={0.05} format={pct} onChange={effects => set({ volume: { ...settings.volume, effects } })} />
+        </Section>
+        <Section title="AI Advisor">
+          <div className="flex gap-2 mb-1">
+            {AI_PROVIDERS.map(k => (
+              <button key={k} onClick={() => ai({ provider: k })}
+                className={`glass px-4 py-2 rounded-full text-[9px] font-orbitron font-black uppercase tracking-widest ${settings.ai.provider === k ? 'text-white border-white/40' : 'text-white/40 border-white/5 hover:text-white'}`}>{PROVIDER_NAMES[k]}</button>
+            ))}
+          </div>
+          {settings.ai.provider === 'gemini' && <>
+            <TextField label="Model" value={settings.ai.geminiModel} onChange={geminiModel => ai({ geminiModel })} />
+            {!process.env.API_KEY && <div className="text-[10px] text-amber-300/70">No GEMINI_API_KEY was set at build time; replies will come from the offline rules.</div>}
+          </>}
+          {settings.ai.provider === 'local' && <>
+            <TextField label="Endpoint" value={settings.ai.localUrl} onChange={localUrl => ai({ localUrl })} />
+            <TextField label="Model" value={settings.ai.localModel} onChange={localModel => ai({ localModel })} />
+            <div className="text-[10px] text-white/30">Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1.</div>
+          </>}
+          {settings.ai.provider === 'offline'
+            ? <div className="text-[10px] text-white/30">Answers from the game's own rules. No network needed.</div>
+            : <Slider label="Timeout" value={settings.ai.timeoutMs} range={AI_TIMEOUT_RANGE} step={1000} format={v => `${v / 1000}s`} onChange={timeoutMs => ai({ timeoutMs })} />}
+          <ProviderTest ai={settings.ai} />
+        </Section>
+      </div>
+    </div>
+  );
+};
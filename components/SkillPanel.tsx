@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { PlayerState, Stats } from '../types';
+import { SKILL_TREE, STAT_POINT_CAP } from '../constants';
+import { STAT_KEYS, canUnlock } from '../engine/progression';
+
+interface SkillPanelProps {
+  player: PlayerState;
+  onAllocate: (stat: keyof Stats) => void;
+  onUnlock: (skillId: string) => void;
+}
+
+export const SkillPanel: React.FC<SkillPanelProps> = ({ player, onAllocate, onUnlock }) => {
+  return (
+    <div className="glass p-6 rounded-[32px] w-80 shadow-2xl border-indigo-500/30 pointer-events-auto animate-in fade-in slide-in-from-left-4 duration-500">
+      <div className="flex justify-between items-end mb-4">
+        <span className="text-[10px] text-indigo-400 font-black uppercase tracking-[0.3em]">Evolution</span>
+        <span className="font-orbitron text-xl font-black text-indigo-300 leading-none">{player.skillPoints} <span className="text-[9px] text-white/40 tracking-widest">SP</span></span>
+      </div>
+      <div className="flex flex-col gap-2 mb-5">
+        {STAT_KEYS.map(stat => (
+          <div key={stat} className="flex items-center gap-3">
+            <span className="text-[10px] font-orbitron font-black text-white/60 uppercase tracking-widest w-24">{stat}</span>
+            <span className="text-[11px] font-orbitron text-white flex-1">{player.stats[stat].toFixed(2)}</span>
+            <span className="text-[9px] text-white/30">{player.allocated[stat]}/{STAT_POINT_CAP}</span>
+            <button
+              disabled={player.skillPoints < 1 || player.allocated[stat] >= STAT_POINT_CAP}
+              onClick={() => onAllocate(stat)}
+              className="w-7 h-7 rounded-xl border border-white/20 text-white font-black hover:border-indigo-500 disabled:opacity-20"
+            >+</button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col gap-2">
+        {SKILL_TREE[player.class].map(node => {
+          const owned = player.skills.includes(node.id);
+          return (
+            <button
+              key={node.id}
+              disabled={owned || !canUnlock(player, node.id)}
+              onClick={() => onUnlock(node.id)}
+              className={`text-left p-3 rounded-2xl border transition-all ${owned ? 'border-indigo-500/60 bg-indigo-500/20' : 'border-white/10 hover:border-indigo-500 disabled:opacity-30'}`}
+            >
+              <div className="flex justify-between">
+                <span className="text-[10px] font-orbitron font-black text-white uppercase tracking-widest">{node.name}</span>
+                <span className="text-[9px] text-white/40">{owned ? 'ACTIVE' : `LV${node.minLevel} · ${node.cost} SP`}</span>
+              </div>
+              <div className="text-[10px] text-white/50 mt-1">{node.description}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
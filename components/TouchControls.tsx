@@ -0,0 +1,79 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GameAction } from '../types';
+import { TOUCH_STICK_RADIUS } from '../constants';
+import { InputController } from '../services/input';
+
+const BUTTONS: { action: GameAction; label: string; className: string }[] = [
+  { action: 'split', label: 'Split', className: 'w-20 h-20 border-amber-500/40' },
+  { action: 'eject', label: 'Eject', className: 'w-16 h-16 border-emerald-500/40' },
+  { action: 'ability', label: 'Skill', className: 'w-16 h-16 border-indigo-500/40' },
+  { action: 'advisor', label: 'AI', className: 'w-12 h-12 border-white/20' }
+];
+
+/**
+ * Twin-thumb controls: a floating stick wherever the left thumb lands, action
+ * buttons under the right. Hidden until the first touch so mice never see it.
+ */
+export const TouchControls: React.FC<{ input: InputController }> = ({ input }) => {
+  const [active, setActive] = useState(false);
+  const [stick, setStick] = useState<{ ox: number; oy: number; x: number; y: number } | null>(null);
+  const finger = useRef<{ id: number; ox: number; oy: number } | null>(null);
+
+  useEffect(() => {
+    const start = (e: TouchEvent) => {
+      setActive(true);
+      if (finger.current !== null || (e.target as HTMLElement).closest?.('button, input, textarea')) return;
+      const t = Array.from(e.changedTouches).find(t => t.clientX < window.innerWidth / 2);
+      if (!t) return;
+      finger.current = { id: t.identifier, ox: t.clientX, oy: t.clientY };
+      setStick({ ox: t.clientX, oy: t.clientY, x: 0, y: 0 });
+    };
+    const move = (e: TouchEvent) => {
+      const f = finger.current;
+      const t = f && Array.from(e.changedTouches).find(t => t.identifier === f.id);
+      if (!t) return;
+      const dx = t.clientX - f.ox, dy = t.clientY - f.oy;
+      const scale = Math.min(1, TOUCH_STICK_RADIUS / (Math.hypot(dx, dy) || 1));
+      input.touchStick((dx * scale) / TOUCH_STICK_RADIUS, (dy * scale) / TOUCH_STICK_RADIUS);
+      setStick({ ox: f.ox, oy: f.oy, x: dx * scale, y: dy * scale });
+    };
+    const end = (e: TouchEvent) => {
+      if (!Array.from(e.changedTouches).some(t => t.identifier === finger.current?.id)) return;
+      finger.current = null;
+      input.touchStick(0, 0);
+      setStick(null);
+    };
+    window.addEventListener('touchstart', start);
+    window.addEventListener('touchmove', move);
+    window.addEventListener('touchend', end);
+    window.addEventListener('touchcancel', end);
+    return () => {
+      window.removeEventListener('touchstart', start);
+      window.removeEventListener('touchmove', move);
+      window.removeEventListener('touchend', end);
+      window.removeEventListener('touchcancel', end);
+    };
+  }, [input]);
+
+  if (!active) return null;
+  return (
+    <>
+      {stick && (
+        <div className="absolute pointer-events-none rounded-full border-2 border-white/20 bg-white/5" style={{ left: stick.ox - TOUCH_STICK_RADIUS, top: stick.oy - TOUCH_STICK_RADIUS, width: TOUCH_STICK_RADIUS * 2, height: TOUCH_STICK_RADIUS * 2 }}>
+          <div className="absolute w-12 h-12 rounded-full bg-white/30" style={{ left: TOUCH_STICK_RADIUS - 24 + stick.x, top: TOUCH_STICK_RADIUS - 24 + stick.y }} />
+        </div>
+      )}
+      <div className="absolute right-8 bottom-1/3 flex flex-wrap-reverse justify-end items-end gap-4 w-48 pointer-events-auto">
+        {BUTTONS.map(({ action, label, className }) => (
+          <button key={action} className={`glass rounded-full font-orbitron font-black text-[10px] text-white uppercase tracking-widest active:scale-95 ${className}`}
+            onTouchStart={e => { e.preventDefault(); input.press(`touch:${action}`, action); }}
+            onTouchEnd={() => input.release(`touch:${action}`)}
+            onTouchCancel={() => input.release(`touch:${action}`)}>
+            {label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,316 @@
+
+import { FACTION_DATA } from '../../constants';
+import { visionRadius, inDarkZone } from '../../engine/visibility';
+import { shapeBounds } from '../../engine/maps';
+import { Renderer, RenderFrame, cellLook, shapePath, adviceArrow, isPellet, healthBar, healthColor, ADVICE_COLORS } from './frame';
+
+/** The original immediate-mode backend; always available. */
+export function createCanvas2DRenderer(canvas: HTMLCanvasElement): Renderer {
+  const ctx = canvas.getContext('2d', { alpha: false })!;
+  const fog = document.createElement('canvas');
+
+  const draw = (frame: RenderFrame) => {
+    const { width, height, cam, entities, worldEvents, biomes, mapSize, stars, time, playerCells, options } = frame;
+    const pulse = options.pulse ? 1 : 0;
+    const z = cam.zoom;
+    const vW = width / z;
+    const vH = height / z;
+    const vX = cam.x - vW / 2;
+    const vY = cam.y - vH / 2;
+
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(z, z);
+    ctx.translate(-cam.x, -cam.y);
+
+    // Stars
+    stars.forEach(s => {
+      const px = s.x;
+      const py = s.y;
+      if (px > vX && px < vX + vW && py > vY && py < vY + vH) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+        ctx.fillRect(px, py, s.s, s.s);
+      }
+    });
+
+    // Biomes
+    biomes.forEach(b => {
+      const bb = shapeBounds(b.shape);
+      if (bb.x + bb.w > vX && bb.x < vX + vW && bb.y + bb.h > vY && bb.y < vY + vH) {
+        ctx.fillStyle = b.color + '12';
+        ctx.fill(shapePath(b.shape));
+      }
+    });
+
+    // World event zones
+    worldEvents.forEach(ev => {
+      ctx.save();
+      ctx.fillStyle = ev.color + '0d';
+      ctx.strokeStyle = ev.color + '88';
+      ctx.lineWidth = 10;
+      ctx.setLineDash([60, 40]);
+      ctx.lineDashOffset = -time * 30;
+      ctx.beginPath();
+      ctx.arc(ev.x, ev.y, ev.radius, 0, 6.28);
+      ctx.fill();
+      ctx.stroke();
+      ctx.restore();
+    });
+
+    // World Border
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 15;
+    ctx.strokeRect(0, 0, mapSize, mapSize);
+
+    // Food
+    ctx.fillStyle = '#475569';
+    ctx.beginPath();
+    for (let i = 0; i < entities.length; i++) {
+      const e = entities[i];
+      if (isPellet(e) && e.isVisible !== false && e.x > vX && e.x < vX + vW && e.y > vY && e.y < vY + vH) {
+        ctx.moveTo(e.x + e.radius, e.y);
+        ctx.arc(e.x, e.y, e.radius, 0, 6.28);
+      }
+    }
+    ctx.fill();
+
+    for (let i = 0; i < entities.length; i++) {
+      const e = entities[i];
+      if (isPellet(e) || e.isVisible === false || e.x + e.radius < vX || e.x - e.radius > vX + vW || e.y + e.radius < vY || e.y - e.radius > vY + vH) continue;
+
+      if (e.type === 'food') {
+        ctx.save();
+        ctx.fillStyle = e.color;
+        ctx.beginPath();
+        if (e.food === 'stardust') {
+          if (options.glow) { ctx.shadowBlur = 15; ctx.shadowColor = e.color; }
+          ctx.arc(e.x, e.y, e.radius * (1 + Math.sin(time * 4 + i) * 0.25 * pulse), 0, 6.28);
+        } else if (e.food === 'toxic') {
+          for (let s = 0; s < 16; s++) {
+            const rad = s % 2 === 0 ? e.radius : e.radius * 0.6;
+            ctx.lineTo(e.x + Math.cos(s / 8 * Math.PI) * rad, e.y + Math.sin(s / 8 * Math.PI) * rad);
+          }
+          ctx.closePath();
+        } else {
+          ctx.arc(e.x, e.y, e.radius, 0, 6.28);
+        }
+        ctx.fill();
+        if (e.food === 'cluster') {
+          ctx.globalAlpha = 0.35;
+          ctx.beginPath();
+          ctx.arc(e.x, e.y, e.radius * 1.6, 0, 6.28);
+          ctx.fill();
+        }
+        ctx.restore();
+        continue;
+      }
+
+      if (e.type === 'hazard') {
+        const speed = Math.hypot(e.vx || 0, e.vy || 0) || 1;
+        const trail = ctx.createLinearGradient(e.x, e.y, e.x - (e.vx || 0) / speed * e.radius * 6, e.y - (e.vy || 0) / speed * e.radius * 6);
+        trail.addColorStop(0, e.color + 'aa');
+        trail.addColorStop(1, e.color + '00');
+        ctx.strokeStyle = trail;
+        ctx.lineWidth = e.radius * 1.4;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(e.x, e.y);
+        ctx.lineTo(e.x - (e.vx || 0) / speed * e.radius * 6, e.y - (e.vy || 0) / speed * e.radius * 6);
+        ctx.stroke();
+        ctx.lineCap = 'butt';
+        ctx.fillStyle = '#431407';
+        ctx.strokeStyle = e.color;
+        ctx.lineWidth = 5;
+        ctx.beginPath();
+        ctx.arc(e.x, e.y, e.radius, 0, 6.28);
+        ctx.fill();
+        ctx.stroke();
+        continue;
+      }
+
+      if (e.type === 'virus') {
+         ctx.fillStyle = e.color;
+         ctx.strokeStyle = '#166534';
+         ctx.lineWidth = 4;
+         ctx.beginPath();
+         const spikes = 20;
+         for(let s=0; s<spikes*2; s++) {
+            const rad = s % 2 === 0 ? e.radius : e.radius * 0.85;
+            const angle = (s / spikes) * Math.PI;
+            ctx.lineTo(e.x + Math.cos(angle) * rad, e.y + Math.sin(angle) * rad);
+         }
+         ctx.closePath();
+         ctx.fill();
+         ctx.stroke();
+         continue;
+      }
+
+      const look = cellLook(frame, e, i);
+      const { r } = look;
+
+      // Parasite tether
+      if (e.latchedTo) {
+        const host = entities.find(h => h.id === e.latchedTo);
+        if (host) {
+          ctx.save();
+          ctx.strokeStyle = '#d946ef';
+          ctx.lineWidth = 4;
+          ctx.setLineDash([12, 8]);
+          ctx.lineDashOffset = -time * 20;
+          ctx.beginPath();
+          ctx.moveTo(e.x, e.y);
+          ctx.lineTo(host.x, host.y);
+          ctx.stroke();
+          ctx.restore();
+        }
+      }
+
+      if (look.prey) {
+        ctx.save();
+        ctx.strokeStyle = '#ff3e3e';
+        ctx.lineWidth = 5;
+        ctx.globalAlpha = 0.6 + Math.sin(time * 3) * 0.3 * pulse;
+        ctx.beginPath();
+        ctx.arc(e.x, e.y, r + 14, 0, 6.28);
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Plague: zombies and infected player cells ooze green
+      if (look.infected) {
+        ctx.save();
+        ctx.strokeStyle = '#a3e635';
+        ctx.lineWidth = 4;
+        ctx.setLineDash([6, 10]);
+        ctx.lineDashOffset = time * 15;
+        ctx.beginPath();
+        ctx.arc(e.x, e.y, r + 6, 0, 6.28);
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Special Effects
+      if (look.fortified) {
+        ctx.save();
+        if (options.glow) { ctx.shadowBlur = 20; ctx.shadowColor = '#3b82f6'; }
+        ctx.strokeStyle = '#60a5fa';
+        ctx.lineWidth = 6;
+        ctx.beginPath();
+        ctx.arc(e.x, e.y, r + 8, 0, 6.28);
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Advisor: threats to avoid and prey to chase
+      if (look.advice) {
+        ctx.save();
+        ctx.strokeStyle = ADVICE_COLORS[look.advice];
+        ctx.lineWidth = 4;
+        ctx.globalAlpha = frame.advice!.alpha;
+        ctx.setLineDash([18, 12]);
+        ctx.lineDashOffset = time * 20;
+        ctx.beginPath();
+        ctx.arc(e.x, e.y, r + 22, 0, 6.28);
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Cloaked Assassins shimmer: faint to their owner, barely there to anyone close enough to spot them
+      ctx.globalAlpha = look.alpha;
+      ctx.fillStyle = e.color;
+      ctx.beginPath();
+      ctx.arc(e.x, e.y, r, 0, 6.28);
+      ctx.fill();
+
+      // Faction membrane
+      if (e.faction !== undefined) {
+        ctx.strokeStyle = FACTION_DATA[e.faction].color;
+        ctx.lineWidth = Math.max(3, r * 0.06);
+        ctx.stroke();
+      }
+
+      // Labeling
+      if (r * z > 14 && look.label) {
+        ctx.fillStyle = 'white';
+        ctx.font = `bold ${Math.max(12, r * 0.35)}px Orbitron`;
+        ctx.textAlign = 'center';
+        ctx.fillText(look.label, e.x, e.y + (r*0.1));
+      }
+      if (r * z > 14 && look.mass) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.font = `bold ${Math.max(10, r * 0.22)}px Orbitron`;
+        ctx.textAlign = 'center';
+        ctx.fillText(look.mass, e.x, e.y + r * (look.label ? 0.45 : 0.1));
+      }
+      if (look.health !== null) {
+        const bar = healthBar(e, r, z);
+        ctx.fillStyle = '#0f172a';
+        ctx.fillRect(bar.x, bar.y, bar.w, bar.h);
+        ctx.fillStyle = healthColor(look.health);
+        ctx.fillRect(bar.x, bar.y, bar.w * look.health, bar.h);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    // Advisor waypoint
+    const arrow = adviceArrow(frame);
+    if (arrow) {
+      ctx.save();
+      ctx.globalAlpha = frame.advice!.alpha * 0.8;
+      ctx.strokeStyle = ADVICE_COLORS.waypoint;
+      ctx.lineWidth = 6;
+      ctx.lineCap = 'round';
+      ctx.setLineDash([24, 16]);
+      ctx.lineDashOffset = -time * 30;
+      ctx.beginPath();
+      ctx.moveTo(arrow.x0, arrow.y0);
+      ctx.lineTo(arrow.x1, arrow.y1);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      arrow.barbs.forEach(b => { ctx.moveTo(arrow.x1, arrow.y1); ctx.lineTo(b.x, b.y); });
+      ctx.arc(arrow.x1, arrow.y1, 50, 0, 6.28);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    ctx.restore();
+
+    // Fog of war: darken everything, then cut a soft hole around each own cell's vision range
+    if (fog.width !== width || fog.height !== height) { fog.width = width; fog.height = height; }
+    const fctx = frame.fog ? fog.getContext('2d') : null;
+    if (fctx) {
+      fctx.globalCompositeOperation = 'source-over';
+      fctx.clearRect(0, 0, width, height);
+      fctx.fillStyle = 'rgba(2, 6, 23, 0.85)';
+      fctx.fillRect(0, 0, width, height);
+      fctx.globalCompositeOperation = 'destination-out';
+      playerCells.forEach(c => {
+        const sx = (c.x - cam.x) * z + width / 2;
+        const sy = (c.y - cam.y) * z + height / 2;
+        const vr = visionRadius(c, inDarkZone(biomes, c)) * z;
+        const hole = fctx.createRadialGradient(sx, sy, vr * 0.7, sx, sy, vr);
+        hole.addColorStop(0, 'rgba(0,0,0,1)');
+        hole.addColorStop(1, 'rgba(0,0,0,0)');
+        fctx.fillStyle = hole;
+        fctx.beginPath();
+        fctx.arc(sx, sy, vr, 0, 6.28);
+        fctx.fill();
+      });
+      ctx.drawImage(fog, 0, 0);
+    }
+
+    // Vignette
+    if (!options.vignette) return;
+    const grd = ctx.createRadialGradient(width/2, height/2, width*0.4, width/2, height/2, width*0.8);
+    grd.addColorStop(0, 'transparent');
+    grd.addColorStop(1, 'rgba(0,0,0,0.5)');
+    ctx.fillStyle = grd;
+    ctx.fillRect(0, 0, width, height);
+  };
+
+  return { draw, dispose: () => {} };
+}
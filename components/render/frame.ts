@@ -0,0 +1,114 @@
+
+import { Biome, GameEntity, GraphicsSettings, Shape, Stats, WorldEventState } from '../../types';
+import { isCloaked } from '../../engine/visibility';
+import { isCell, nameOf } from '../../engine/entity';
+import { outweighs } from '../../engine/combat';
+import { CELL_HEALTH } from '../../constants';
+
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export type RenderOptions = Omit<GraphicsSettings, 'stars'> & { labels: boolean; massNumbers: boolean };
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = { pulse: true, glow: true, vignette: true, labels: true, massNumbers: false };
+
+/** The tactical advisor's last answer in world units: an arrow to the waypoint, rings on cells to avoid or chase. */
+export interface AdvisorMarks {
+  waypoint: { x: number; y: number } | null;
+  avoid: string[];
+  chase: string[];
+  until: number; // performance.now() ms
+}
+
+/** Plain pellets draw as one batched layer beneath everything else. */
+export const isPellet = (e: GameEntity) => e.type === 'food' && e.food === 'pellet';
+
+/** Everything a backend needs to draw one frame; GameCanvas owns the camera and builds this. */
+export interface RenderFrame {
+  width: number;
+  height: number;
+  cam: Camera;
+  entities: GameEntity[];
+  worldEvents: WorldEventState[];
+  biomes: Biome[];
+  mapSize: number;
+  stars: { x: number; y: number; s: number }[];
+  tick: number;
+  time: number; // seconds-ish clock for pulses and dash scrolling
+  playerId: string;
+  playerName: string;
+  playerCells: GameEntity[];
+  playerStats: Stats;
+  activeEffects: Record<string, number>;
+  fog: boolean;
+  options: RenderOptions;
+  advice: (Omit<AdvisorMarks, 'until'> & { alpha: number }) | null;
+}
+
+export interface Renderer {
+  draw(frame: RenderFrame): void;
+  dispose(): void;
+}
+
+/** The per-cell decorations both backends agree on. */
+export function cellLook(frame: RenderFrame, e: GameEntity, i: number) {
+  const { playerId, playerName, playerCells, playerStats, activeEffects, tick, time, options } = frame;
+  const isOwn = e.type === 'player' && e.ownerId === playerId;
+  const biggestCell = playerCells.reduce((m, c) => Math.max(m, c.mass), 0);
+  const playerFaction = playerCells[0]?.faction;
+  const cloaked = isCloaked(frame.biomes, e);
+  return {
+    isOwn,
+    r: options.pulse ? e.radius * (1 + Math.sin(time + i) * 0.02) : e.radius,
+    alpha: cloaked ? (isOwn ? 0.45 : 0.2) : 1,
+    // Hunt sense: mark everything the player can swallow
+    prey: !!activeEffects.HUNT_SENSE && !isOwn && (e.type === 'ai' || e.type === 'player') && outweighs(biggestCell, playerStats, e) && (playerFaction === undefined || e.faction !== playerFaction),
+    infected: (e.infectedUntil || 0) > tick || (isOwn && !!activeEffects.INFECTED),
+    fortified: isOwn && !!activeEffects.FORTIFIED,
+    label: e.type === 'ejected' || !options.labels ? null : isOwn ? playerName : nameOf(e),
+    mass: options.massNumbers && isCell(e) ? String(Math.floor(e.mass)) : null,
+    health: isCell(e) && e.health !== undefined ? Math.max(0, e.health / CELL_HEALTH) : null, // share left while wounded
+    advice: frame.advice?.avoid.includes(e.id) ? 'avoid' as const : frame.advice?.chase.includes(e.id) ? 'chase' as const : null
+  };
+}
+
+/** Where a wounded cell's health bar sits: just above it, never smaller than a few screen pixels. */
+export function healthBar(e: GameEntity, r: number, zoom: number) {
+  const w = Math.max(r * 1.4, 30 / zoom), h = Math.max(r * 0.1, 5 / zoom);
+  return { x: e.x - w / 2, y: e.y - r - h - 6 / zoom, w, h };
+}
+
+export const healthColor = (share: number) => share > 0.5 ? '#22c55e' : share > 0.25 ? '#f59e0b' : '#ef4444';
+
+export const ADVICE_COLORS = { avoid: '#f97316', chase: '#22c55e', waypoint: '#a5b4fc' };
+
+/** The advisor arrow from the player's center of mass to the waypoint, with its two barbs. */
+export function adviceArrow(frame: RenderFrame) {
+  const w = frame.advice?.waypoint;
+  const cells = frame.playerCells;
+  if (!w || !cells.length) return null;
+  const total = cells.reduce((sum, c) => sum + c.mass, 0);
+  const x0 = cells.reduce((sum, c) => sum + c.x * c.mass, 0) / total;
+  const y0 = cells.reduce((sum, c) => sum + c.y * c.mass, 0) / total;
+  const angle = Math.atan2(w.y - y0, w.x - x0);
+  const barb = (turn: number) => ({ x: w.x - Math.cos(angle + turn) * 40, y: w.y - Math.sin(angle + turn) * 40 });
+  return { x0, y0, x1: w.x, y1: w.y, barbs: [barb(0.5), barb(-0.5)] };
+}
+
+const paths = new WeakMap<Shape, Path2D>();
+
+/** A biome outline as a reusable Canvas path, in world units. */
+export function shapePath(s: Shape): Path2D {
+  let path = paths.get(s);
+  if (!path) {
+    path = new Path2D();
+    if (s.kind === 'rect') path.rect(s.x, s.y, s.w, s.h);
+    else if (s.kind === 'circle') path.arc(s.x, s.y, s.r, 0, Math.PI * 2);
+    else { s.points.forEach(([x, y]) => path!.lineTo(x, y)); path.closePath(); }
+    paths.set(s, path);
+  }
+  return path;
+}
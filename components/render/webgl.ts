@@ -0,0 +1,635 @@
+
+import { GameEntity, Shape } from '../../types';
+import { FACTION_DATA, MAX_PLAYER_CELLS } from '../../constants';
+import { visionRadius, inDarkZone } from '../../engine/visibility';
+import { shapeBounds } from '../../engine/maps';
+import { Renderer, RenderFrame, cellLook, adviceArrow, isPellet, healthBar, healthColor, ADVICE_COLORS } from './frame';
+
+/*
+ * WebGL2 backend. Every shape is an instanced quad: one buffer of per-instance
+ * floats per batch, uploaded and drawn with a single call each frame. Biomes
+ * are the exception, drawn as cached triangle meshes. Labels come from a
+ * signed-distance-field glyph atlas; fog and vignette are one full-screen pass.
+ */
+
+const COMMON = `
+uniform vec3 u_cam;
+uniform vec2 u_screen;
+vec4 toClip(vec2 world) { return vec4((world - u_cam.xy) * u_cam.z / (u_screen * 0.5) * vec2(1.0, -1.0), 0.0, 1.0); }
+`;
+
+const DISC_VS = `#version 300 es
+layout(location=0) in vec2 a_corner;
+layout(location=1) in vec4 a_geom;   // x, y, radius, glow
+layout(location=2) in vec4 a_fill;
+layout(location=3) in vec4 a_stroke;
+layout(location=4) in vec4 a_style;  // stroke width, spikes, dashes around the rim, dash phase
+${COMMON}
+out vec2 v_local; out float v_radius; out float v_glow;
+out vec4 v_fill; out vec4 v_stroke; out vec4 v_style;
+void main() {
+  float extent = a_geom.z + a_style.x * 0.5 + a_geom.w + 2.0 / u_cam.z;
+  v_local = a_corner * extent;
+  v_radius = a_geom.z; v_glow = a_geom.w;
+  v_fill = a_fill; v_stroke = a_stroke; v_style = a_style;
+  gl_Position = toClip(a_geom.xy + v_local);
+}`;
+
+const DISC_FS = `#version 300 es
+precision highp float;
+in vec2 v_local; in float v_radius; in float v_glow;
+in vec4 v_fill; in vec4 v_stroke; in vec4 v_style;
+out vec4 o_color;
+const float TAU = 6.2831853;
+void main() {
+  float d = length(v_local);
+  float angle = atan(v_local.y, v_local.x);
+  float r = v_radius;
+  if (v_style.y > 0.0) r *= mix(0.85, 1.0, abs(fract(angle / TAU * v_style.y) * 2.0 - 1.0));
+  float aa = max(fwidth(d), 0.0001);
+  float hw = v_style.x * 0.5;
+  float fill = 1.0 - smoothstep(r - aa, r, d);
+  float stroke = hw > 0.0 ? smoothstep(r - hw - aa, r - hw, d) * (1.0 - smoothstep(r + hw, r + hw + aa, d)) : 0.0;
+  if (v_style.z > 0.0 && fract(angle / TAU * v_style.z + v_style.w) > 0.6) stroke = 0.0;
+  vec4 s = vec4(v_stroke.rgb, 1.0) * v_stroke.a * stroke;
+  vec4 c = s + vec4(v_fill.rgb, 1.0) * v_fill.a * fill * (1.0 - s.a);
+  if (v_glow > 0.0) {
+    vec4 g = v_stroke.a > 0.0 ? v_stroke : v_fill;
+    float gap = hw > 0.0 ? max(abs(d - r) - hw, 0.0) : max(d - r, 0.0);
+    c += vec4(g.rgb, 1.0) * g.a * 0.6 * (1.0 - smoothstep(0.0, v_glow, gap)) * (1.0 - c.a);
+  }
+  if (c.a < 0.002) discard;
+  o_color = c;
+}`;
+
+const RECT_VS = `#version 300 es
+layout(location=0) in vec2 a_corner;
+layout(location=1) in vec4 a_rect;
+layout(location=2) in vec4 a_color;
+${COMMON}
+out vec4 v_color;
+void main() {
+  v_color = a_color;
+  gl_Position = toClip(a_rect.xy + (a_corner * 0.5 + 0.5) * a_rect.zw);
+}`;
+
+const TRI_VS = `#version 300 es
+layout(location=0) in vec2 a_pos;
+layout(location=1) in vec4 a_color;
+${COMMON}
+out vec4 v_color;
+void main() {
+  v_color = a_color;
+  gl_Position = toClip(a_pos);
+}`;
+
+const LINE_VS = `#version 300 es
+layout(location=0) in vec2 a_corner;
+layout(location=1) in vec4 a_ends;   // from.xy, to.xy
+layout(location=2) in vec4 a_style;  // width, dash period, dash phase
+layout(location=3) in vec4 a_from;
+layout(location=4) in vec4 a_to;
+${COMMON}
+out vec4 v_color; out float v_dist; out vec2 v_dash;
+void main() {
+  vec2 delta = a_ends.zw - a_ends.xy;
+  float len = max(length(delta), 0.0001);
+  vec2 normal = vec2(-delta.y, delta.x) / len;
+  float t = a_corner.x * 0.5 + 0.5;
+  v_color = mix(a_from, a_to, t);
+  v_dist = t * len;
+  v_dash = a_style.yz;
+  gl_Position = toClip(a_ends.xy + delta * t + normal * a_corner.y * a_style.x * 0.5);
+}`;
+
+const LINE_FS = `#version 300 es
+precision highp float;
+in vec4 v_color; in float v_dist; in vec2 v_dash;
+out vec4 o_color;
+void main() {
+  if (v_dash.x > 0.0 && fract(v_dist / v_dash.x + v_dash.y) > 0.6) discard;
+  o_color = vec4(v_color.rgb, 1.0) * v_color.a;
+}`;
+
+const FLAT_FS = `#version 300 es
+precision highp float;
+in vec4 v_color;
+out vec4 o_color;
+void main() { o_color = vec4(v_color.rgb, 1.0) * v_color.a; }`;
+
+const TEXT_VS = `#version 300 es
+layout(location=0) in vec2 a_corner;
+layout(location=1) in vec4 a_rect;
+layout(location=2) in vec4 a_uv;
+layout(location=3) in vec4 a_color;
+${COMMON}
+out vec2 v_uv; out vec4 v_color;
+void main() {
+  vec2 t = a_corner * 0.5 + 0.5;
+  v_uv = mix(a_uv.xy, a_uv.zw, t);
+  v_color = a_color;
+  gl_Position = toClip(a_rect.xy + t * a_rect.zw);
+}`;
+
+const TEXT_FS = `#version 300 es
+precision highp float;
+uniform sampler2D u_atlas;
+in vec2 v_uv; in vec4 v_color;
+out vec4 o_color;
+void main() {
+  float sdf = texture(u_atlas, v_uv).r;
+  float aa = max(fwidth(sdf) * 0.75, 0.001);
+  float a = smoothstep(0.5 - aa, 0.5 + aa, sdf) * v_color.a;
+  if (a < 0.002) discard;
+  o_color = vec4(v_color.rgb, 1.0) * a;
+}`;
+
+const OVERLAY_VS = `#version 300 es
+layout(location=0) in vec2 a_corner;
+void main() { gl_Position = vec4(a_corner, 0.0, 1.0); }`;
+
+const OVERLAY_FS = `#version 300 es
+precision highp float;
+uniform vec2 u_screen;
+uniform float u_fog;
+uniform float u_vignette;
+uniform int u_holeCount;
+uniform vec3 u_holes[${MAX_PLAYER_CELLS}]; // screen x, y (GL orientation), vision radius in px
+out vec4 o_color;
+void main() {
+  vec2 p = gl_FragCoord.xy;
+  // Fog of war: darken everything, with a soft hole around each own cell's vision range
+  float fog = u_fog * 0.85;
+  for (int i = 0; i < ${MAX_PLAYER_CELLS}; i++) {
+    if (i >= u_holeCount) break;
+    vec3 h = u_holes[i];
+    fog *= 1.0 - clamp((h.z - distance(p, h.xy)) / (h.z * 0.3), 0.0, 1.0);
+  }
+  float vignette = clamp((distance(p, u_screen * 0.5) - u_screen.x * 0.4) / (u_screen.x * 0.4), 0.0, 1.0) * 0.5 * u_vignette;
+  vec4 c = vec4(vec3(2.0, 6.0, 23.0) / 255.0, 1.0) * fog;
+  o_color = c * (1.0 - vignette) + vec4(0.0, 0.0, 0.0, vignette);
+}`;
+
+// Glyph atlas: printable ASCII rasterised large, then turned into a distance field
+const FIRST_CHAR = 32, LAST_CHAR = 126, ATLAS_COLS = 16;
+const GLYPH_CELL = 72, GLYPH_PAD = 10, GLYPH_BASELINE = 52, GLYPH_PX = 48, SDF_SPREAD = 8;
+const FONT = `bold ${GLYPH_PX}px Orbitron`;
+
+interface Batch {
+  vao: WebGLVertexArrayObject;
+  buffer: WebGLBuffer;
+  stride: number;
+  data: Float32Array;
+  count: number;
+  instanced: boolean;
+}
+
+type RGBA = [number, number, number, number];
+
+export function createWebGLRenderer(canvas: HTMLCanvasElement): Renderer | null {
+  const gl = canvas.getContext('webgl2', { alpha: false, antialias: false, premultipliedAlpha: true });
+  if (!gl) return null;
+  try {
+    return build(gl);
+  } catch (err) {
+    console.warn('WebGL renderer unavailable:', err);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return null;
+  }
+}
+
+function build(gl: WebGL2RenderingContext): Renderer {
+  const compile = (vsSource: string, fsSource: string) => {
+    const prog = gl.createProgram()!;
+    [[gl.VERTEX_SHADER, vsSource], [gl.FRAGMENT_SHADER, fsSource]].forEach(([type, source]) => {
+      const shader = gl.createShader(type as number)!;
+      gl.shaderSource(shader, source as string);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) || 'Shader failed to compile');
+      gl.attachShader(prog, shader);
+      gl.deleteShader(shader);
+    });
+    gl.linkProgram(prog);
+    if (!gl.getProgramParameter(prog, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(prog) || 'Program failed to link');
+    return prog;
+  };
+  const programs = {
+    disc: compile(DISC_VS, DISC_FS),
+    rect: compile(RECT_VS, FLAT_FS),
+    tri: compile(TRI_VS, FLAT_FS),
+    line: compile(LINE_VS, LINE_FS),
+    text: compile(TEXT_VS, TEXT_FS),
+    overlay: compile(OVERLAY_VS, OVERLAY_FS)
+  };
+
+  const quad = gl.createBuffer()!;
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+  const makeBatch = (layout: number[]): Batch => {
+    const stride = layout.reduce((a, b) => a + b, 0);
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    let offset = 0;
+    layout.forEach((size, i) => {
+      gl.enableVertexAttribArray(i + 1);
+      gl.vertexAttribPointer(i + 1, size, gl.FLOAT, false, stride * 4, offset * 4);
+      gl.vertexAttribDivisor(i + 1, 1);
+      offset += size;
+    });
+    gl.bindVertexArray(null);
+    return { vao, buffer, stride, data: new Float32Array(stride * 1024), count: 0, instanced: true };
+  };
+  // Plain triangles, one vertex (x, y, rgba) per slot
+  const makeMesh = (): Batch => {
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 24, 0);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, 24, 8);
+    gl.bindVertexArray(null);
+    return { vao, buffer, stride: 6, data: new Float32Array(6 * 1024), count: 0, instanced: false };
+  };
+  const discs = makeBatch([4, 4, 4, 4]);
+  const rects = makeBatch([4, 4]);
+  const bars = makeBatch([4, 4]); // health bars, drawn over the cells
+  const lines = makeBatch([4, 4, 4, 4]);
+  const glyphs = makeBatch([4, 4, 4]);
+  const tris = makeMesh();
+  const overlayVao = gl.createVertexArray()!;
+  gl.bindVertexArray(overlayVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  /** Reserves the next instance and returns its offset into `data`. */
+  const alloc = (b: Batch) => {
+    if ((b.count + 1) * b.stride > b.data.length) {
+      const next = new Float32Array(b.data.length * 2);
+      next.set(b.data);
+      b.data = next;
+    }
+    return b.count++ * b.stride;
+  };
+
+  const colors = new Map<string, RGBA>();
+  const probe = document.createElement('canvas').getContext('2d')!;
+  const rgba = (color: string): RGBA => {
+    let c = colors.get(color);
+    if (!c) {
+      probe.fillStyle = '#000';
+      probe.fillStyle = color;
+      const norm = String(probe.fillStyle);
+      const m = norm.match(/[\d.]+/g) || [];
+      c = norm.startsWith('#')
+        ? [parseInt(norm.slice(1, 3), 16) / 255, parseInt(norm.slice(3, 5), 16) / 255, parseInt(norm.slice(5, 7), 16) / 255, 1]
+        : [Number(m[0]) / 255, Number(m[1]) / 255, Number(m[2]) / 255, m[3] !== undefined ? Number(m[3]) : 1];
+      colors.set(color, c);
+    }
+    return c;
+  };
+  const put = (data: Float32Array, o: number, color: string | null, alpha = 1) => {
+    if (!color) { data[o] = data[o + 1] = data[o + 2] = data[o + 3] = 0; return; }
+    const c = rgba(color);
+    data[o] = c[0]; data[o + 1] = c[1]; data[o + 2] = c[2]; data[o + 3] = c[3] * alpha;
+  };
+
+  const disc = (x: number, y: number, radius: number, fill: string | null, fillAlpha: number, stroke: string | null = null, strokeAlpha = 1, strokeWidth = 0, opts: { glow?: number; spikes?: number; dashes?: number; phase?: number } = {}) => {
+    const o = alloc(discs);
+    discs.data[o] = x; discs.data[o + 1] = y; discs.data[o + 2] = radius; discs.data[o + 3] = opts.glow || 0;
+    put(discs.data, o + 4, fill, fillAlpha);
+    put(discs.data, o + 8, stroke, strokeAlpha);
+    discs.data[o + 12] = strokeWidth; discs.data[o + 13] = opts.spikes || 0; discs.data[o + 14] = opts.dashes || 0; discs.data[o + 15] = opts.phase || 0;
+  };
+  const rect = (x: number, y: number, w: number, h: number, color: string, alpha: number, batch = rects) => {
+    const o = alloc(batch);
+    batch.data[o] = x; batch.data[o + 1] = y; batch.data[o + 2] = w; batch.data[o + 3] = h;
+    put(batch.data, o + 4, color, alpha);
+  };
+  const meshes = new WeakMap<Shape, Float32Array>();
+  const fillShape = (shape: Shape, color: string, alpha: number) => {
+    let mesh = meshes.get(shape);
+    if (!mesh) { mesh = triangulate(shape); meshes.set(shape, mesh); }
+    for (let k = 0; k < mesh.length; k += 2) {
+      const o = alloc(tris);
+      tris.data[o] = mesh[k]; tris.data[o + 1] = mesh[k + 1];
+      put(tris.data, o + 2, color, alpha);
+    }
+  };
+  const line = (x0: number, y0: number, x1: number, y1: number, width: number, color: string, alpha0: number, alpha1: number, dashPeriod = 0, dashPhase = 0) => {
+    const o = alloc(lines);
+    lines.data[o] = x0; lines.data[o + 1] = y0; lines.data[o + 2] = x1; lines.data[o + 3] = y1;
+    lines.data[o + 4] = width; lines.data[o + 5] = dashPeriod; lines.data[o + 6] = dashPhase; lines.data[o + 7] = 0;
+    put(lines.data, o + 8, color, alpha0);
+    put(lines.data, o + 12, color, alpha1);
+  };
+
+  // Signed-distance-field glyph atlas, rebuilt once Orbitron has loaded
+  const atlas = gl.createTexture()!;
+  let advances = new Float32Array(LAST_CHAR - FIRST_CHAR + 1);
+  let atlasW = 1, atlasH = 1;
+  const buildAtlas = () => {
+    const built = rasteriseGlyphs();
+    advances = built.advances; atlasW = built.width; atlasH = built.height;
+    gl.bindTexture(gl.TEXTURE_2D, atlas);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, atlasW, atlasH, 0, gl.RED, gl.UNSIGNED_BYTE, built.sdf);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  };
+  buildAtlas();
+  let disposed = false;
+  document.fonts?.load(FONT).then(() => { if (!disposed) buildAtlas(); }, () => {});
+
+  /** Lays `text` out centred on x with its baseline at y, `size` world units tall. */
+  const label = (text: string, x: number, y: number, size: number, alpha: number) => {
+    const scale = size / GLYPH_PX;
+    let width = 0;
+    for (let i = 0; i < text.length; i++) width += advances[glyphIndex(text.charCodeAt(i))] * scale;
+    let pen = x - width / 2;
+    for (let i = 0; i < text.length; i++) {
+      const g = glyphIndex(text.charCodeAt(i));
+      const cx = (g % ATLAS_COLS) * GLYPH_CELL, cy = Math.floor(g / ATLAS_COLS) * GLYPH_CELL;
+      const o = alloc(glyphs);
+      glyphs.data[o] = pen - GLYPH_PAD * scale; glyphs.data[o + 1] = y - GLYPH_BASELINE * scale;
+      glyphs.data[o + 2] = GLYPH_CELL * scale; glyphs.data[o + 3] = GLYPH_CELL * scale;
+      glyphs.data[o + 4] = cx / atlasW; glyphs.data[o + 5] = cy / atlasH;
+      glyphs.data[o + 6] = (cx + GLYPH_CELL) / atlasW; glyphs.data[o + 7] = (cy + GLYPH_CELL) / atlasH;
+      glyphs.data[o + 8] = 1; glyphs.data[o + 9] = 1; glyphs.data[o + 10] = 1; glyphs.data[o + 11] = alpha;
+      pen += advances[g] * scale;
+    }
+  };
+
+  const uniforms = new Map<WebGLProgram, Record<string, WebGLUniformLocation | null>>();
+  const uniform = (prog: WebGLProgram, name: string) => {
+    let u = uniforms.get(prog);
+    if (!u) { u = {}; uniforms.set(prog, u); }
+    if (!(name in u)) u[name] = gl.getUniformLocation(prog, name);
+    return u[name];
+  };
+
+  const flush = (b: Batch, prog: WebGLProgram, frame: RenderFrame) => {
+    if (b.count === 0) return;
+    gl.useProgram(prog);
+    gl.uniform3f(uniform(prog, 'u_cam'), frame.cam.x, frame.cam.y, frame.cam.zoom);
+    gl.uniform2f(uniform(prog, 'u_screen'), frame.width, frame.height);
+    gl.bindVertexArray(b.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, b.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, b.data.subarray(0, b.count * b.stride), gl.DYNAMIC_DRAW);
+    if (b.instanced) gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, b.count);
+    else gl.drawArrays(gl.TRIANGLES, 0, b.count);
+    b.count = 0;
+  };
+
+  const holes = new Float32Array(MAX_PLAYER_CELLS * 3);
+
+  const draw = (frame: RenderFrame) => {
+    const { width, height, cam, entities, worldEvents, biomes, mapSize, stars, time, playerCells, options } = frame;
+    const pulse = options.pulse ? 1 : 0, glow = options.glow ? 1 : 0;
+    const z = cam.zoom;
+    const vW = width / z;
+    const vH = height / z;
+    const vX = cam.x - vW / 2;
+    const vY = cam.y - vH / 2;
+
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(2 / 255, 6 / 255, 23 / 255, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    stars.forEach(s => {
+      if (s.x > vX && s.x < vX + vW && s.y > vY && s.y < vY + vH) rect(s.x, s.y, s.s, s.s, '#ffffff', 0.2);
+    });
+    biomes.forEach(b => {
+      const bb = shapeBounds(b.shape);
+      if (bb.x + bb.w > vX && bb.x < vX + vW && bb.y + bb.h > vY && bb.y < vY + vH) fillShape(b.shape, b.color, 0x12 / 255);
+    });
+    // World border, 15 units wide and centred on the edge like a stroked rect
+    rect(-7.5, -7.5, mapSize + 15, 15, '#1e293b', 1);
+    rect(-7.5, mapSize - 7.5, mapSize + 15, 15, '#1e293b', 1);
+    rect(-7.5, 7.5, 15, mapSize - 15, '#1e293b', 1);
+    rect(mapSize - 7.5, 7.5, 15, mapSize - 15, '#1e293b', 1);
+
+    worldEvents.forEach(ev => {
+      disc(ev.x, ev.y, ev.radius, ev.color, 0x0d / 255, ev.color, 0x88 / 255, 10, { dashes: (Math.PI * 2 * ev.radius) / 100, phase: (time * 30) / 100 });
+    });
+
+    for (let i = 0; i < entities.length; i++) {
+      const e = entities[i];
+      if (isPellet(e) && e.isVisible !== false && e.x > vX && e.x < vX + vW && e.y > vY && e.y < vY + vH) {
+        disc(e.x, e.y, e.radius, '#475569', 1);
+      }
+    }
+
+    for (let i = 0; i < entities.length; i++) {
+      const e = entities[i];
+      if (isPellet(e)) continue;
+      if (e.isVisible === false || e.x + e.radius < vX || e.x - e.radius > vX + vW || e.y + e.radius < vY || e.y - e.radius > vY + vH) continue;
+
+      if (e.type === 'food') {
+        if (e.food === 'stardust') disc(e.x, e.y, e.radius * (1 + Math.sin(time * 4 + i) * 0.25 * pulse), e.color, 1, null, 0, 0, { glow: 15 * glow });
+        else if (e.food === 'toxic') disc(e.x, e.y, e.radius, e.color, 1, null, 0, 0, { spikes: 8 });
+        else {
+          if (e.food === 'cluster') disc(e.x, e.y, e.radius * 1.6, e.color, 0.35);
+          disc(e.x, e.y, e.radius, e.color, 1);
+        }
+        continue;
+      }
+      if (e.type === 'hazard') {
+        const speed = Math.hypot(e.vx || 0, e.vy || 0) || 1;
+        line(e.x, e.y, e.x - (e.vx || 0) / speed * e.radius * 6, e.y - (e.vy || 0) / speed * e.radius * 6, e.radius * 1.4, e.color, 0xaa / 255, 0);
+        disc(e.x, e.y, e.radius, '#431407', 1, e.color, 1, 5);
+        continue;
+      }
+      if (e.type === 'virus') {
+        disc(e.x, e.y, e.radius, e.color, 1, '#166534', 1, 4, { spikes: 20 });
+        continue;
+      }
+
+      const look = cellLook(frame, e, i);
+      const { r } = look;
+      if (e.latchedTo) {
+        const host = entities.find(h => h.id === e.latchedTo);
+        if (host) line(e.x, e.y, host.x, host.y, 4, '#d946ef', 1, 1, 20, time);
+      }
+      if (look.prey) disc(e.x, e.y, r + 14, null, 0, '#ff3e3e', 0.6 + Math.sin(time * 3) * 0.3 * pulse, 5);
+      if (look.infected) disc(e.x, e.y, r + 6, null, 0, '#a3e635', 1, 4, { dashes: (Math.PI * 2 * (r + 6)) / 16, phase: (-time * 15) / 16 });
+      if (look.fortified) disc(e.x, e.y, r + 8, null, 0, '#60a5fa', 1, 6, { glow: 20 * glow });
+      if (look.advice) disc(e.x, e.y, r + 22, null, 0, ADVICE_COLORS[look.advice], frame.advice!.alpha, 4, { dashes: (Math.PI * 2 * (r + 22)) / 30, phase: (-time * 20) / 30 });
+      const membrane = e.faction !== undefined ? FACTION_DATA[e.faction].color : null;
+      disc(e.x, e.y, r, e.color, look.alpha, membrane, look.alpha, membrane ? Math.max(3, r * 0.06) : 0);
+      if (r * z > 14 && look.label) label(look.label, e.x, e.y + r * 0.1, Math.max(12, r * 0.35), look.alpha);
+      if (r * z > 14 && look.mass) label(look.mass, e.x, e.y + r * (look.label ? 0.45 : 0.1), Math.max(10, r * 0.22), look.alpha * 0.7);
+      if (look.health !== null) {
+        const bar = healthBar(e, r, z);
+        rect(bar.x, bar.y, bar.w, bar.h, '#0f172a', look.alpha, bars);
+        rect(bar.x, bar.y, bar.w * look.health, bar.h, healthColor(look.health), look.alpha, bars);
+      }
+    }
+
+    const arrow = adviceArrow(frame);
+    if (arrow) {
+      const a = frame.advice!.alpha * 0.8, color = ADVICE_COLORS.waypoint;
+      line(arrow.x0, arrow.y0, arrow.x1, arrow.y1, 6, color, a, a, 40, time * 30 / 40);
+      arrow.barbs.forEach(b => line(arrow.x1, arrow.y1, b.x, b.y, 6, color, a, a));
+      disc(arrow.x1, arrow.y1, 50, null, 0, color, a, 6);
+    }
+
+    flush(tris, programs.tri, frame);
+    flush(rects, programs.rect, frame);
+    flush(lines, programs.line, frame);
+    flush(discs, programs.disc, frame);
+    flush(bars, programs.rect, frame);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, atlas);
+    gl.useProgram(programs.text);
+    gl.uniform1i(uniform(programs.text, 'u_atlas'), 0);
+    flush(glyphs, programs.text, frame);
+
+    const cells = frame.fog ? playerCells.slice(0, MAX_PLAYER_CELLS) : [];
+    cells.forEach((c: GameEntity, k) => {
+      holes[k * 3] = (c.x - cam.x) * z + width / 2;
+      holes[k * 3 + 1] = height - ((c.y - cam.y) * z + height / 2);
+      holes[k * 3 + 2] = visionRadius(c, inDarkZone(biomes, c)) * z;
+    });
+    const prog = programs.overlay;
+    gl.useProgram(prog);
+    gl.uniform2f(uniform(prog, 'u_screen'), width, height);
+    gl.uniform1f(uniform(prog, 'u_fog'), frame.fog ? 1 : 0);
+    gl.uniform1f(uniform(prog, 'u_vignette'), options.vignette ? 1 : 0);
+    gl.uniform1i(uniform(prog, 'u_holeCount'), cells.length);
+    gl.uniform3fv(uniform(prog, 'u_holes'), holes);
+    gl.bindVertexArray(overlayVao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+  };
+
+  const dispose = () => {
+    disposed = true;
+    Object.values(programs).forEach(p => gl.deleteProgram(p));
+    [discs, rects, bars, lines, glyphs, tris].forEach(b => { gl.deleteBuffer(b.buffer); gl.deleteVertexArray(b.vao); });
+    gl.deleteVertexArray(overlayVao);
+    gl.deleteBuffer(quad);
+    // The context itself stays alive: React may mount the same canvas again straight away
+    gl.deleteTexture(atlas);
+  };
+
+  return { draw, dispose };
+}
+
+/** Flat triangle list (x, y pairs) covering a biome shape; polygons are ear-clipped. */
+function triangulate(s: Shape): Float32Array {
+  if (s.kind === 'rect') {
+    const { x, y, w, h } = s;
+    return new Float32Array([x, y, x + w, y, x, y + h, x + w, y, x + w, y + h, x, y + h]);
+  }
+  if (s.kind === 'circle') {
+    const out: number[] = [], segments = 64;
+    for (let i = 0; i < segments; i++) {
+      const a0 = (i / segments) * Math.PI * 2, a1 = ((i + 1) / segments) * Math.PI * 2;
+      out.push(s.x, s.y, s.x + Math.cos(a0) * s.r, s.y + Math.sin(a0) * s.r, s.x + Math.cos(a1) * s.r, s.y + Math.sin(a1) * s.r);
+    }
+    return new Float32Array(out);
+  }
+  const pts = s.points;
+  let area = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) area += pts[j][0] * pts[i][1] - pts[i][0] * pts[j][1];
+  const ring = pts.map((_, i) => i);
+  if (area < 0) ring.reverse();
+  const cross = (a: number[], b: number[], c: number[]) => (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+  const out: number[] = [];
+  while (ring.length > 3) {
+    let ear = -1;
+    for (let i = 0; i < ring.length && ear < 0; i++) {
+      const a = pts[ring[(i + ring.length - 1) % ring.length]], b = pts[ring[i]], c = pts[ring[(i + 1) % ring.length]];
+      if (cross(a, b, c) <= 0) continue;
+      const blocked = ring.some(k => {
+        const p = pts[k];
+        return p !== a && p !== b && p !== c && cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+      });
+      if (!blocked) ear = i;
+    }
+    if (ear < 0) break; // self-intersecting outline: fill what was clipped so far
+    const prev = ring[(ear + ring.length - 1) % ring.length], next = ring[(ear + 1) % ring.length];
+    out.push(...pts[prev], ...pts[ring[ear]], ...pts[next]);
+    ring.splice(ear, 1);
+  }
+  if (ring.length === 3) ring.forEach(k => out.push(...pts[k]));
+  return new Float32Array(out);
+}
+
+const glyphIndex = (code: number) => (code >= FIRST_CHAR && code <= LAST_CHAR ? code : 63 /* ? */) - FIRST_CHAR;
+
+function rasteriseGlyphs() {
+  const count = LAST_CHAR - FIRST_CHAR + 1;
+  const width = ATLAS_COLS * GLYPH_CELL, height = Math.ceil(count / ATLAS_COLS) * GLYPH_CELL;
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.font = FONT;
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'alphabetic';
+  const advances = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const ch = String.fromCharCode(FIRST_CHAR + i);
+    ctx.fillText(ch, (i % ATLAS_COLS) * GLYPH_CELL + GLYPH_PAD, Math.floor(i / ATLAS_COLS) * GLYPH_CELL + GLYPH_BASELINE);
+    advances[i] = ctx.measureText(ch).width;
+  }
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const outside = new Float64Array(width * height), inside = new Float64Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    const ink = pixels[p * 4 + 3] > 127;
+    outside[p] = ink ? 0 : 1e20;
+    inside[p] = ink ? 1e20 : 0;
+  }
+  distanceTransform(outside, width, height);
+  distanceTransform(inside, width, height);
+  const sdf = new Uint8Array(width * height);
+  for (let p = 0; p < width * height; p++) {
+    const dist = Math.sqrt(outside[p]) - Math.sqrt(inside[p]);
+    sdf[p] = Math.max(0, Math.min(255, Math.round((0.5 - dist / (2 * SDF_SPREAD)) * 255)));
+  }
+  return { sdf, width, height, advances };
+}
+
+/** Squared Euclidean distance transform (Felzenszwalb & Huttenlocher), in place. */
+function distanceTransform(grid: Float64Array, width: number, height: number) {
+  const n = Math.max(width, height);
+  const f = new Float64Array(n), d = new Float64Array(n), v = new Int32Array(n), z = new Float64Array(n + 1);
+  const pass = (len: number) => {
+    let k = 0;
+    v[0] = 0; z[0] = -Infinity; z[1] = Infinity;
+    for (let q = 1; q < len; q++) {
+      let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      while (s <= z[k]) { k--; s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]); }
+      k++; v[k] = q; z[k] = s; z[k + 1] = Infinity;
+    }
+    k = 0;
+    for (let q = 0; q < len; q++) {
+      while (z[k + 1] < q) k++;
+      d[q] = (q - v[k]) ** 2 + f[v[k]];
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    pass(height);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    pass(width);
+    for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+  }
+}
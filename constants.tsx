@@ -1,36 +1,206 @@
 
-import { CellClass, Stats } from './types';
+import { CellClass, Stats, SkillNode, Faction, BiomeEffect, FoodKind, GameAction, KeyBindings } from './types';
 
-export const MAP_SIZE = 8000;
 export const CHUNK_SIZE = 1000;
 export const INITIAL_MASS = 25;
-export const FOOD_COUNT = 1500;
-export const AI_COUNT = 45;
 
-export const CLASS_DATA: Record<CellClass, { description: string; baseStats: Stats; color: string }> = {
+export const PHYSICS_TPS = 60;
+export const MS_PER_TICK = 1000 / PHYSICS_TPS;
+export const SERVER_PORT = 8787;
+export const SNAPSHOT_INTERVAL = 3; // ticks between server snapshots (20 Hz)
+export const INTERPOLATION_DELAY = 100; // ms the client renders behind the newest snapshot
+export const GRID_CELL_SIZE = 500;
+export const MIN_SPLIT_MASS = 35;
+export const VIRUS_MAX = 50;
+export const VIRUS_MASS = 100;
+export const VIRUS_RADIUS = 65;
+export const VIRUS_SPLIT_MASS = 200; // ~7 ejected feeds
+export const VIRUS_POP_RATIO = 1.33; // Cells heavier than this multiple of a virus burst on contact
+export const VIRUS_POP_PIECES = 8;
+export const MAX_PLAYER_CELLS = 16;
+export const EJECTED_TTL = PHYSICS_TPS * 12; // ticks
+
+export const SKILL_POINTS_PER_LEVEL = 2;
+export const STAT_POINT_VALUE = 0.1;
+export const STAT_POINT_CAP = 10;
+export const MAX_LEVEL = 30; // highest level a client may bring into a server
+export const SPLIT_IMPULSE = 45;
+export const DASH_IMPULSE = 55;
+
+export const PARASITE_LATCH_RANGE = 350; // edge-to-edge gap a Parasite can jump
+export const PARASITE_TETHER_SLACK = 220; // the tether snaps past this gap
+export const PARASITE_DRAIN_RATE = 0.001; // share of host mass per tick, scaled by burst
+export const HUNT_SENSE_DURATION = PHYSICS_TPS * 4; // scaled by burst
+export const HUNT_SENSE_ZOOM = 0.65;
+
+export const WORLD_EVENT_FIRST = PHYSICS_TPS * 45; // ticks before the first world event
+export const WORLD_EVENT_INTERVAL = PHYSICS_TPS * 75; // quiet ticks between one event ending and the next
+export const INFECTION_DEBUFF = PHYSICS_TPS * 8;
+export const INFECTION_DRAIN = 0.0006; // fraction of mass lost per tick while infected
+export const METEOR_INTERVAL = 15; // ticks between rocks
+export const METEOR_TTL = PHYSICS_TPS * 3;
+export const STAR_DUST_XP = 25;
+export const STAR_DUST_BOOST = PHYSICS_TPS * 10; // ticks of boosted XP per Star Dust eaten
+export const STAR_DUST_XP_MULT = 1.5;
+export const TOXIN_DURATION = PHYSICS_TPS * 3; // divided by defense
+export const TOXIN_SLOW = 0.6;
+export const FOOD_REGROW_TICKS: [number, number] = [PHYSICS_TPS * 4, PHYSICS_TPS * 12]; // eaten pellets grow back somewhere after this long
+export const WAR_BOUNTY = 3;
+
+export const ESCORT_MAX_MASS = 400; // AIs below this seek out bigger allies
+export const VISION_BASE = 900;
+export const VISION_PER_MASS = 25; // per sqrt(mass)
+export const DARK_VISION_FACTOR = 0.5;
+export const STEALTH_REVEAL_RANGE = 250; // how close a cloaked Assassin must be before the player spots it
+export const AI_DECISION_INTERVAL = 10; // ticks
+export const GRUDGE_PER_KILL = 1;
+export const GRUDGE_WITNESS_RADIUS = 1200;
+export const GRUDGE_DECAY = 0.995; // per decision
+export const AMBUSH_STRIKE_RANGE = 550;
+
+export const CELL_HEALTH = 100;
+export const CONTACT_DAMAGE = CELL_HEALTH / (PHYSICS_TPS * 2); // per tick between equal cells with neutral stats
+export const CONTACT_RATIO_CAP = 25; // damage grows with the square of the mass ratio, up to this
+export const MASS_KEPT = 0.6; // share of a victim's mass the killer keeps, times absorption (at most all of it)
+export const HEALTH_REGEN = CELL_HEALTH / (PHYSICS_TPS * 10); // per tick out of combat, times regen
+export const COMBAT_CALM = PHYSICS_TPS * 3; // ticks without a hit before health regrows
+export const FORTIFY_SPEED = 0.4;
+export const FORTIFY_DEFENSE = 3;
+
+export const MIN_CELL_MASS = 10; // player cells drained below this dissolve
+export const VIRUS_BLAME_TICKS = PHYSICS_TPS * 5; // a death this soon after bursting on a virus is the virus's doing
+export const MASS_SAMPLE_TICKS = PHYSICS_TPS; // starting interval of the death report's mass chart
+export const MASS_HISTORY_MAX = 240; // samples kept before the chart halves its resolution
+export const SESSION_HISTORY_SIZE = 50;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = { split: 'Space', eject: 'KeyW', ability: 'KeyQ', advisor: 'KeyR' };
+// Standard-mapping button indices: A/RT split, X/RB eject, B/LB ability, Y advisor
+export const GAMEPAD_BUTTONS: Record<GameAction, number[]> = { split: [0, 7], eject: [2, 5], ability: [1, 4], advisor: [3] };
+export const GAMEPAD_DEADZONE = 0.2;
+export const STICK_REACH = 300; // px of pointer offset a fully tilted stick stands in for
+export const TOUCH_STICK_RADIUS = 60; // px
+export const EJECT_REPEAT_MS = 90; // held eject fires this often
+
+export const LEADERBOARD_SIZE = 10;
+export const LEADERBOARD_INTERVAL = 30; // ticks between leaderboard updates sent by workers and servers
+export const KILL_FEED_SIZE = 5;
+export const KILL_FEED_TTL = 6000; // ms
+export const ADVISOR_CACHE_MS = 10000; // pressing the advisor key again within this shows the last advice
+export const ADVISOR_SHOW_MS = 8000; // how long advice stays on the HUD and the map
+export const CHAT_TRANSCRIPTS_KEPT = 10; // most recent game sessions whose chat is stored
+export const CHAT_MESSAGES_KEPT = 100; // per transcript
+
+// AI names are a first part plus a last part, e.g. "Vorazoid"
+export const AI_NAME_PARTS = {
+  first: ['Glut', 'Vora', 'Mito', 'Cyto', 'Flux', 'Nox', 'Proto', 'Zyg', 'Endo', 'Spore', 'Lyso', 'Hex', 'Myco', 'Vex', 'Krill', 'Ooze'],
+  last: ['maw', 'phage', 'zoid', 'cyte', 'gen', 'plex', 'morph', 'spawn', 'lith', 'vore', 'blob', 'sac']
+};
+
+export const PERSONALITIES = {
+  TIMID: { aggro: 0.2, chaseBudget: 120, fleeMargin: 1.4, riskAversion: 1.5 },
+  BALANCED: { aggro: 0.5, chaseBudget: 300, fleeMargin: 1.15, riskAversion: 1.0 },
+  AGGRESSIVE: { aggro: 0.9, chaseBudget: 600, fleeMargin: 1.05, riskAversion: 0.5 },
+  CUNNING: { aggro: 0.6, chaseBudget: 400, fleeMargin: 1.2, riskAversion: 0.8 }
+};
+
+export const BIOME_EFFECTS: Record<BiomeEffect, { label: string; color: string; names: string[] }> = {
+  toxic: { label: 'Toxic', color: '#10b981', names: ['Toxic Mire', 'Acid Fen', 'Blight Pool'] },
+  lava: { label: 'Lava', color: '#ef4444', names: ['Magma Core', 'Caldera', 'Cinder Flats'] },
+  nutrient: { label: 'Nutrient', color: '#0ea5e9', names: ['Energy Nexus', 'Nutrient Reef', 'Bloom Field'] },
+  dark: { label: 'Dark', color: '#6366f1', names: ['Void Zone', 'The Rift', 'Umbral Shelf'] },
+  normal: { label: 'Normal', color: '#64748b', names: ['Quiet Shoal', 'Drift Plain', 'Still Water'] }
+};
+
+export const FOOD_KINDS: Record<FoodKind, { name: string; description: string; mass: number; radius: number; color: string }> = {
+  pellet: { name: 'Pellet', description: 'Plain biomass.', mass: 1, radius: 3, color: '#475569' },
+  cluster: { name: 'Nutrient Cluster', description: 'A dense knot of biomass worth six pellets.', mass: 6, radius: 7, color: '#38bdf8' },
+  stardust: { name: 'Star Dust', description: `Multiplies XP from eating by ${STAR_DUST_XP_MULT} for ${STAR_DUST_BOOST / PHYSICS_TPS}s.`, mass: 2, radius: 5, color: '#fde047' },
+  toxic: { name: 'Toxic Pellet', description: `Slows you to ${TOXIN_SLOW * 100}% speed for up to ${TOXIN_DURATION / PHYSICS_TPS}s; defense shortens it.`, mass: 1, radius: 4, color: '#a3e635' }
+};
+
+/** Default food density and the odds of each kind by biome effect; open water counts as normal. */
+export const BIOME_FOOD: Record<BiomeEffect, { density: number; mix: Record<FoodKind, number> }> = {
+  toxic: { density: 2.5, mix: { pellet: 60, cluster: 4, stardust: 1, toxic: 35 } },
+  lava: { density: 0.5, mix: { pellet: 40, cluster: 45, stardust: 15, toxic: 0 } },
+  nutrient: { density: 2, mix: { pellet: 65, cluster: 30, stardust: 3, toxic: 2 } },
+  dark: { density: 1, mix: { pellet: 80, cluster: 6, stardust: 12, toxic: 2 } },
+  normal: { density: 1, mix: { pellet: 90, cluster: 6, stardust: 2, toxic: 2 } }
+};
+
+export const FACTION_DATA: Record<Faction, { name: string; description: string; color: string; unlockLevel: number }> = {
+  [Faction.BIOLOGICAL]: { name: 'Biological', description: 'The native swarm. Strength in numbers.', color: '#84cc16', unlockLevel: 1 },
+  [Faction.SYNTHETIC]: { name: 'Synthetic', description: 'Engineered colonies running on cold logic.', color: '#38bdf8', unlockLevel: 3 },
+  [Faction.VOID]: { name: 'Void', description: 'Something from the dark between biomes.', color: '#a855f7', unlockLevel: 5 }
+};
+
+export const FACTIONS = Object.keys(FACTION_DATA).map(Number) as Faction[];
+
+export const CLASS_DATA: Record<CellClass, { description: string; baseStats: Stats; color: string; vision: number }> = {
   [CellClass.PREDATOR]: {
     description: "Apex Hunter: +50% Digestie & Viziune. Creștere rapidă din pradă.",
     baseStats: { speed: 1.3, absorption: 1.6, defense: 0.8, regen: 1.0, burst: 1.2 },
-    color: '#ff3e3e'
+    color: '#ff3e3e',
+    vision: 1.5
   },
   [CellClass.TANK]: {
     description: "Behemoth: +100% Defensă. Pierde masă greu și regenerează rapid.",
     baseStats: { speed: 0.8, absorption: 0.9, defense: 2.2, regen: 1.8, burst: 0.5 },
-    color: '#3b82f6'
+    color: '#3b82f6',
+    vision: 0.9
   },
   [CellClass.PARASITE]: {
     description: "Leech: Furt de Masă la contact. Agil și greu de fixat.",
     baseStats: { speed: 1.5, absorption: 0.5, defense: 0.6, regen: 1.2, burst: 1.5 },
-    color: '#d946ef'
+    color: '#d946ef',
+    vision: 1.0
   },
   [CellClass.ASSASSIN]: {
     description: "Ghost: Viteză Explozivă. Aproape invizibil în zonele întunecate.",
     baseStats: { speed: 1.7, absorption: 1.1, defense: 0.5, regen: 0.7, burst: 2.2 },
-    color: '#10b981'
+    color: '#10b981',
+    vision: 1.1
   },
   [CellClass.SUPPORT]: {
     description: "Nexus: Regenerează hrana în jur și oferă buff-uri de viteză.",
     baseStats: { speed: 1.2, absorption: 0.8, defense: 1.3, regen: 2.8, burst: 0.8 },
-    color: '#fbbf24'
+    color: '#fbbf24',
+    vision: 1.2
   }
 };
+
+// What each class skill does, for players and the assistant
+export const CLASS_ABILITIES: Record<CellClass, { name: string; description: string }> = {
+  [CellClass.PREDATOR]: { name: 'Hunt Sense', description: 'Widens your view and boosts XP from kills for a few seconds.' },
+  [CellClass.TANK]: { name: 'Fortify', description: 'Slows you to 40% speed for five seconds and triples your defense against contact damage and drains.' },
+  [CellClass.PARASITE]: { name: 'Latch', description: 'Hooks your biggest cell onto a larger hostile nearby and drains its mass until the tether snaps.' },
+  [CellClass.ASSASSIN]: { name: 'Dash', description: 'Throws all your cells forward at the cost of 5% mass.' },
+  [CellClass.SUPPORT]: { name: 'Spore', description: 'Scatters ten food pellets around you.' }
+};
+
+export const SKILL_TREE: Record<CellClass, SkillNode[]> = {
+  [CellClass.PREDATOR]: [
+    { id: 'pred_keen_senses', name: 'Keen Senses', description: 'Sharper chemoreceptors squeeze more from every meal.', cost: 1, minLevel: 2, modifiers: { absorption: 0.2 } },
+    { id: 'pred_pursuit', name: 'Pursuit Instinct', description: 'Quicker and harder-hitting, to run down fleeing prey.', cost: 2, minLevel: 3, requires: 'pred_keen_senses', modifiers: { speed: 0.15, burst: 0.1 } },
+    { id: 'pred_apex', name: 'Apex Metabolism', description: 'Keeps far more of every kill and heals faster between fights.', cost: 3, minLevel: 5, requires: 'pred_pursuit', modifiers: { absorption: 0.4, regen: 0.2 } }
+  ],
+  [CellClass.TANK]: [
+    { id: 'tank_plating', name: 'Calcified Plating', description: 'A mineral shell that shrugs off biome damage and blows alike.', cost: 1, minLevel: 2, modifiers: { defense: 0.3 } },
+    { id: 'tank_mitosis', name: 'Rapid Mitosis', description: 'Rebuilds lost membrane at an alarming rate.', cost: 2, minLevel: 3, requires: 'tank_plating', modifiers: { regen: 0.4 } },
+    { id: 'tank_juggernaut', name: 'Juggernaut', description: 'Faster and harder-hitting. The speed tank build.', cost: 3, minLevel: 5, requires: 'tank_mitosis', modifiers: { speed: 0.3, burst: 0.3 } }
+  ],
+  [CellClass.PARASITE]: [
+    { id: 'para_enzymes', name: 'Leech Enzymes', description: 'Dissolves stolen tissue more efficiently.', cost: 1, minLevel: 2, modifiers: { absorption: 0.2 } },
+    { id: 'para_membrane', name: 'Slick Membrane', description: 'A tougher membrane that blunts every blow.', cost: 2, minLevel: 3, requires: 'para_enzymes', modifiers: { defense: 0.3 } },
+    { id: 'para_symbiosis', name: 'Symbiosis', description: 'Drains hosts more richly and heals faster between feeds.', cost: 3, minLevel: 5, requires: 'para_membrane', modifiers: { absorption: 0.3, regen: 0.3 } }
+  ],
+  [CellClass.ASSASSIN]: [
+    { id: 'asn_shadow', name: 'Shadow Glide', description: 'A faster glide, in the dark and out of it.', cost: 1, minLevel: 2, modifiers: { speed: 0.2 } },
+    { id: 'asn_lunge', name: 'Killing Lunge', description: 'Splits and dashes launch further and strike harder.', cost: 2, minLevel: 3, requires: 'asn_shadow', modifiers: { burst: 0.4 } },
+    { id: 'asn_carapace', name: 'Chitin Cloak', description: 'A hardened cloak for the tank assassin.', cost: 3, minLevel: 5, requires: 'asn_lunge', modifiers: { defense: 0.5 } }
+  ],
+  [CellClass.SUPPORT]: [
+    { id: 'sup_bloom', name: 'Nutrient Bloom', description: 'Grows faster in nutrient fields and heals quicker after a fight.', cost: 1, minLevel: 2, modifiers: { regen: 0.4 } },
+    { id: 'sup_tendrils', name: 'Tendril Drive', description: 'Flagella grown for getting around.', cost: 2, minLevel: 3, requires: 'sup_bloom', modifiers: { speed: 0.2 } },
+    { id: 'sup_bulwark', name: 'Living Bulwark', description: 'Tougher and harder-hitting, to hold the line while the swarm regroups.', cost: 3, minLevel: 5, requires: 'sup_tendrils', modifiers: { defense: 0.4, burst: 0.2 } }
+  ]
+};
@@ -0,0 +1,242 @@
+
+import { GameEntity, Biome, CellClass } from '../types';
+import {
+  CLASS_DATA, PERSONALITIES, VIRUS_POP_RATIO, ESCORT_MAX_MASS, AI_DECISION_INTERVAL,
+  GRUDGE_DECAY, AMBUSH_STRIKE_RANGE
+} from '../constants';
+import { SeededRng } from './rng';
+import { OptimizedGrid } from './grid';
+import { sameOwner, isCell, allied, identityOf, isZombie } from './entity';
+import { visionRadius, canSee } from './visibility';
+import { shapeCenter } from './maps';
+import { outweighs, presumedStats } from './combat';
+
+/** What an AI (and every fragment split from it) carries between decisions. */
+export interface AIMemory {
+  grudges: Record<string, number>; // attacker identity -> intensity
+  ignore: Record<string, number>; // abandoned target id -> tick until which it is ignored
+  chaseTarget?: string;
+  chaseTicks: number;
+  flank: number; // team-hunt approach angle around the target
+  strikeUntil: number; // tick until which an ambush lunge gets its burst bonus
+}
+
+export interface AIContext {
+  entities: GameEntity[];
+  grid: OptimizedGrid;
+  byId: (id: string) => GameEntity | undefined;
+  rng: SeededRng;
+  biomes: Biome[];
+  tick: number;
+  centers: Map<string, { x: number; y: number; mass: number }>;
+}
+
+export const createMemory = (): AIMemory => ({ grudges: {}, ignore: {}, chaseTicks: 0, flank: 0, strikeUntil: 0 });
+
+const isAmbusher = (e: GameEntity) => e.class === CellClass.ASSASSIN || e.personality === PERSONALITIES.CUNNING;
+
+function decayGrudges(mem: AIMemory, tick: number) {
+  for (const id in mem.grudges) if ((mem.grudges[id] *= GRUDGE_DECAY) < 0.05) delete mem.grudges[id];
+  for (const id in mem.ignore) if (mem.ignore[id] <= tick) delete mem.ignore[id];
+}
+
+/** Runs one AI cell: re-plans every AI_DECISION_INTERVAL ticks, then moves along the current plan. */
+export function updateAI(ctx: AIContext, e: GameEntity, i: number, mem: AIMemory, baseSpeed: number, inDark: boolean) {
+  // Staggered by slot so a crowded world doesn't re-plan every AI on the same tick
+  if ((ctx.tick + i) % AI_DECISION_INTERVAL === 0 || !e.behavior) decide(ctx, e, i, mem, baseSpeed, inDark);
+  move(ctx, e, mem, baseSpeed);
+}
+
+function decide(ctx: AIContext, e: GameEntity, i: number, mem: AIMemory, baseSpeed: number, inDark: boolean) {
+  const { entities, grid, rng, tick } = ctx;
+  const personality = e.personality || PERSONALITIES.BALANCED;
+  const ambusher = isAmbusher(e);
+  const mine = presumedStats(e);
+  // Timid cells notice threats from further away
+  const threatRange = 400 + 800 * personality.riskAversion;
+  decayGrudges(mem, tick);
+  const vision = visionRadius(e, inDark);
+  // Culled against where things stood at the last grid rebuild; canSee below judges cells where they stand now
+  const count = grid.getTouchingInto(e.x, e.y, vision);
+  if (isZombie(e, tick)) { shamble(ctx, e, i, count, vision); return; }
+
+  let bestTarget: GameEntity | null = null;
+  let maxHuntScore = -Infinity;
+  let dangerX = 0, dangerY = 0, dangerCount = 0;
+  let foodX = 0, foodY = 0, foodCount = 0;
+  let sibling: GameEntity | null = null;
+  let escort: GameEntity | null = null;
+  let ambushPrey: GameEntity | null = null;
+  const allyHunters: GameEntity[] = [];
+
+  for (let k = 0; k < count; k++) {
+    const idx = grid.results[k];
+    const other = entities[idx];
+    if (!other || idx === i) continue;
+    // Food never moves and is never owned or cloaked, so the grid's cull already did canSee's work
+    if (other.type === 'food') {
+      if (other.food !== 'toxic') { foodX += other.x; foodY += other.y; foodCount++; }
+      continue;
+    }
+
+    if (sameOwner(e, other)) {
+      if (other.type === e.type && (!sibling || other.mass > sibling.mass)) sibling = other;
+      continue;
+    }
+    if (!canSee(ctx.biomes, e, vision, other, true)) continue;
+
+    if (allied(e, other)) {
+      if (e.mass < ESCORT_MAX_MASS && other.mass > e.mass * 1.5 && (!escort || other.mass > escort.mass)) escort = other;
+      if (other.type === 'ai' && (other.behavior === 'hunt' || other.behavior === 'team')) allyHunters.push(other);
+      continue;
+    }
+
+    const dist = Math.hypot(other.x - e.x, other.y - e.y) || 1;
+    if (other.latchedTo === e.id) {
+      // A drained host bolts away from the leech and, with enough defense, tears it loose
+      dangerX += ((e.x - other.x) / dist) * 2; dangerY += ((e.y - other.y) / dist) * 2;
+      dangerCount++;
+      mem.grudges[identityOf(other)] = (mem.grudges[identityOf(other)] || 0) + 0.1;
+      if (rng.next() < 0.02 * mine.defense) other.latchedTo = undefined;
+      continue;
+    }
+    // Big cells steer clear of viruses; small ones are free to hide under them
+    if (other.type === 'virus' && e.mass > other.mass * VIRUS_POP_RATIO && dist < e.radius + other.radius + 120) {
+      dangerX += (e.x - other.x) / dist; dangerY += (e.y - other.y) / dist;
+      dangerCount++;
+    }
+    if (isCell(other) && (outweighs(other.mass / personality.fleeMargin, presumedStats(other), e) || isZombie(other, tick)) && dist < threatRange + other.radius) {
+      dangerX += (e.x - other.x) / dist; dangerY += (e.y - other.y) / dist;
+      dangerCount++;
+    }
+    if (isCell(other) && !(mem.ignore[other.id] > tick)) {
+      const grudge = mem.grudges[identityOf(other)] || 0;
+      // A grudge lowers the bar for what counts as prey; margins are on top of what an even fight takes
+      if (outweighs(e.mass / (grudge > 0 ? 1.1 : 1.3), mine, other)) {
+        const huntScore = (other.mass / dist) * personality.aggro * (1 + grudge * 2);
+        if (huntScore > maxHuntScore) { maxHuntScore = huntScore; bestTarget = other; }
+        if (ambusher && dist < AMBUSH_STRIKE_RANGE && outweighs(e.mass * 0.5, mine, other) && (!ambushPrey || other.mass > ambushPrey.mass)) ambushPrey = other;
+      }
+    }
+  }
+
+  // Chasing the same target for longer than the personality allows means giving up on it for a while
+  if (bestTarget) {
+    mem.chaseTicks = mem.chaseTarget === bestTarget.id ? mem.chaseTicks + AI_DECISION_INTERVAL : 0;
+    mem.chaseTarget = bestTarget.id;
+    const budget = personality.chaseBudget * (1 + (mem.grudges[identityOf(bestTarget)] || 0));
+    if (mem.chaseTicks > budget) {
+      mem.ignore[bestTarget.id] = tick + personality.chaseBudget * 2;
+      mem.chaseTarget = undefined;
+      bestTarget = null;
+    }
+  } else {
+    mem.chaseTarget = undefined;
+  }
+  const grudgeTarget = bestTarget && (mem.grudges[identityOf(bestTarget)] || 0) > 0;
+
+  if (dangerCount > 0) {
+    e.behavior = 'flee'; e.targetId = undefined;
+    e.vx = (dangerX / dangerCount) * baseSpeed; e.vy = (dangerY / dangerCount) * baseSpeed;
+  } else if (sibling && (e.mergeTimer || 0) <= 0) {
+    // Popped fragments drift back together to re-merge
+    e.behavior = 'idle';
+    const d = Math.hypot(sibling.x - e.x, sibling.y - e.y) || 1;
+    e.vx = ((sibling.x - e.x) / d) * baseSpeed; e.vy = ((sibling.y - e.y) / d) * baseSpeed;
+  } else if (ambusher && inDark && ambushPrey) {
+    e.behavior = 'hunt'; e.targetId = ambushPrey.id;
+    mem.strikeUntil = tick + AI_DECISION_INTERVAL * 9;
+  } else if (ambusher && inDark && !grudgeTarget) {
+    // Lie still in the dark and wait for something small to wander past
+    e.behavior = 'ambush'; e.targetId = undefined;
+    e.vx = 0; e.vy = 0;
+  } else if (bestTarget && maxHuntScore > 0.1 * personality.riskAversion) {
+    const pack = allyHunters.filter(a => a.targetId === bestTarget!.id);
+    e.targetId = bestTarget.id;
+    if (pack.length > 0) {
+      // Spread the pack evenly around the target, ordered by id so every member agrees
+      const rank = pack.filter(a => a.id < e.id).length;
+      e.behavior = 'team';
+      mem.flank = (rank / (pack.length + 1)) * Math.PI * 2;
+    } else {
+      e.behavior = 'hunt';
+    }
+  } else if (escort) {
+    // Shadow a bigger ally, hanging just off its flank
+    e.behavior = 'idle';
+    const dx = escort.x - e.x, dy = escort.y - e.y;
+    const d = Math.hypot(dx, dy) || 1;
+    const pull = d > escort.radius + e.radius + 60 ? baseSpeed : 0;
+    e.vx = (dx / d) * pull; e.vy = (dy / d) * pull;
+  } else if (ambusher && !inDark && ctx.biomes.some(b => b.effect === 'dark')) {
+    // Head for the nearest dark zone to set up an ambush
+    e.behavior = 'idle';
+    let bx = e.x, by = e.y, bestD = Infinity;
+    for (const b of ctx.biomes) {
+      if (b.effect !== 'dark') continue;
+      const { x: cx, y: cy } = shapeCenter(b.shape);
+      const d = Math.hypot(cx - e.x, cy - e.y);
+      if (d < bestD) { bestD = d; bx = cx; by = cy; }
+    }
+    const dx = bx - e.x, dy = by - e.y;
+    e.vx = (dx / (bestD || 1)) * baseSpeed; e.vy = (dy / (bestD || 1)) * baseSpeed;
+  } else if (foodCount > 5) {
+    e.behavior = 'idle';
+    e.vx = (foodX / foodCount - e.x) * 0.05; e.vy = (foodY / foodCount - e.y) * 0.05;
+  } else {
+    e.behavior = 'idle';
+    if (rng.next() < 0.05) { e.vx = (rng.next()-0.5)*15; e.vy = (rng.next()-0.5)*15; }
+  }
+}
+
+/** Infected AIs forget size, faction and fear: they run down the nearest healthy cell to pass the plague on. */
+function shamble(ctx: AIContext, e: GameEntity, i: number, count: number, vision: number) {
+  const { entities, grid, tick, rng } = ctx;
+  let victim: GameEntity | null = null, bestD = Infinity;
+  for (let k = 0; k < count; k++) {
+    const idx = grid.results[k];
+    const other = entities[idx];
+    if (!other || idx === i || !isCell(other) || sameOwner(e, other) || isZombie(other, tick)) continue;
+    if (!canSee(ctx.biomes, e, vision, other, true)) continue;
+    const d = Math.hypot(other.x - e.x, other.y - e.y);
+    if (d < bestD) { bestD = d; victim = other; }
+  }
+  if (victim) {
+    e.behavior = 'hunt'; e.targetId = victim.id;
+  } else {
+    e.behavior = 'idle'; e.targetId = undefined;
+    if (rng.next() < 0.1) { e.vx = (rng.next()-0.5)*15; e.vy = (rng.next()-0.5)*15; }
+  }
+}
+
+function move(ctx: AIContext, e: GameEntity, mem: AIMemory, baseSpeed: number) {
+  const { centers, tick } = ctx;
+  if (e.behavior === 'flee' || e.behavior === 'idle') {
+    e.x += e.vx || 0; e.y += e.vy || 0;
+    return;
+  }
+  if ((e.behavior !== 'hunt' && e.behavior !== 'team') || !e.targetId) return;
+
+  let tx = e.x, ty = e.y, tr = 0;
+  const center = centers.get(e.targetId);
+  if (center) { tx = center.x; ty = center.y; tr = Math.sqrt(center.mass) * 4; }
+  else {
+    const tEnt = ctx.byId(e.targetId);
+    if (!tEnt) { e.behavior = 'idle'; return; }
+    tx = tEnt.x; ty = tEnt.y; tr = tEnt.radius;
+  }
+
+  let speed = baseSpeed;
+  if (e.behavior === 'team') {
+    // Close on a flanking point first, then collapse onto the target
+    const ring = tr + e.radius + 120;
+    const fx = tx + Math.cos(mem.flank) * ring, fy = ty + Math.sin(mem.flank) * ring;
+    if (Math.hypot(fx - e.x, fy - e.y) > 100) { tx = fx; ty = fy; }
+    else e.behavior = 'hunt';
+  } else if (tick < mem.strikeUntil && e.class) {
+    speed *= 1 + CLASS_DATA[e.class].baseStats.burst * 0.5;
+  }
+  const dx = tx - e.x, dy = ty - e.y;
+  const d = Math.hypot(dx, dy) || 1;
+  e.x += (dx / d) * speed; e.y += (dy / d) * speed;
+}
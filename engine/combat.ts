@@ -0,0 +1,25 @@
+import { GameEntity, Stats } from '../types';
+import { CLASS_DATA, CELL_HEALTH, CONTACT_DAMAGE, CONTACT_RATIO_CAP, MASS_KEPT, FORTIFY_SPEED, FORTIFY_DEFENSE } from '../constants';
+
+export const healthOf = (e: GameEntity) => e.health ?? CELL_HEALTH;
+
+/** Health per tick `attacker` strips from `defender` while they overlap: heavier and harder-hitting cells win faster. */
+export function contactDamage(attacker: GameEntity, atk: Stats, defender: GameEntity, def: Stats): number {
+  return CONTACT_DAMAGE * Math.min(CONTACT_RATIO_CAP, (attacker.mass / defender.mass) ** 2) * atk.burst / def.defense;
+}
+
+/** Share of the victim's mass a killer with this absorption keeps. */
+export const massKept = (absorption: number) => Math.min(1, MASS_KEPT * absorption);
+
+/** The mass at which a cell with `mine` stats trades blows evenly with a full-health `mass` cell with `theirs`. */
+export const evenMass = (mass: number, mine: Pick<Stats, 'burst' | 'defense'>, theirs: Pick<Stats, 'burst' | 'defense'>) =>
+  mass * Math.sqrt((theirs.burst * theirs.defense) / (mine.burst * mine.defense));
+
+/** The stats a cell is assumed to fight with: other players' builds stay hidden, so class defaults, or neutral stats when classless. */
+export const presumedStats = (e?: GameEntity): Pick<Stats, 'burst' | 'defense'> => e?.class ? CLASS_DATA[e.class].baseStats : { burst: 1, defense: 1 };
+
+/** Whether a `mass` cell with `mine` stats outlasts `other` in a fight. */
+export const outweighs = (mass: number, mine: Pick<Stats, 'burst' | 'defense'>, other: GameEntity) => mass > evenMass(other.mass, mine, presumedStats(other));
+
+/** A Tank's Fortify: slow and hard to hurt. */
+export const fortified = (s: Stats): Stats => ({ ...s, speed: s.speed * FORTIFY_SPEED, defense: s.defense * FORTIFY_DEFENSE });
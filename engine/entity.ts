@@ -0,0 +1,16 @@
+
+import { GameEntity, Biome } from '../types';
+import { inShape } from './maps';
+
+export const sameOwner = (a: GameEntity, b: GameEntity) => !!a.ownerId && a.ownerId === b.ownerId;
+export const isCell = (e: GameEntity) => e.type === 'player' || e.type === 'ai';
+export const allied = (a: GameEntity, b: GameEntity) => a.faction !== undefined && a.faction === b.faction && isCell(a) && isCell(b);
+
+export const isZombie = (e: GameEntity, tick: number) => (e.infectedUntil || 0) > tick;
+
+/** Who is behind a cell: the controlling player, or the AI a fragment split from. */
+export const identityOf = (e: GameEntity) => e.ownerId || e.id;
+
+export const nameOf = (e: GameEntity) => e.name || e.class || 'AI';
+
+export const inBiome = (e: { x: number; y: number }, b: Biome) => inShape(e, b.shape);
@@ -0,0 +1,175 @@
+
+import { GameEntity, Biome, CellClass, Faction, WorldEventState } from '../types';
+import {
+  PHYSICS_TPS, INFECTION_DEBUFF, METEOR_INTERVAL, METEOR_TTL, STAR_DUST_XP, WAR_BOUNTY, AI_DECISION_INTERVAL
+} from '../constants';
+import { SeededRng } from './rng';
+import { AIMemory } from './ai';
+import { isCell, identityOf, isZombie } from './entity';
+import { shapeCenter } from './maps';
+import type { PlayerSlot } from './simulation';
+
+/** What an event definition may touch. Spawns and removals are applied once every event has run. */
+export interface WorldEventContext {
+  entities: GameEntity[];
+  players: Map<string, PlayerSlot>;
+  rng: SeededRng;
+  biomes: Biome[];
+  mapSize: number;
+  tick: number;
+  nearby(x: number, y: number, radius: number): GameEntity[];
+  spawn(prefix: string, e: Omit<GameEntity, 'id'>): GameEntity;
+  remove(e: GameEntity): void;
+  fragment(cell: GameEntity): void;
+  memoryOf(e: GameEntity): AIMemory;
+}
+
+export interface WorldEventDef {
+  kind: string;
+  name: string;
+  description: string;
+  color: string;
+  duration: number; // ticks
+  radius: number;
+  weight: number; // relative chance of being rolled
+  /** Sets the event up; may move the event away from its random default position. */
+  start(ctx: WorldEventContext, ev: WorldEventState): void;
+  update?(ctx: WorldEventContext, ev: WorldEventState): void;
+  end?(ctx: WorldEventContext, ev: WorldEventState): void;
+}
+
+const inZone = (e: { x: number; y: number }, ev: WorldEventState) => Math.hypot(e.x - ev.x, e.y - ev.y) < ev.radius;
+const touching = (a: GameEntity, b: GameEntity) => Math.hypot(a.x - b.x, a.y - b.y) < a.radius + b.radius;
+
+const infection: WorldEventDef = {
+  kind: 'infection',
+  name: 'Infection',
+  description: 'A carrier has entered the arena. Infected cells hunt without fear and spread a draining plague.',
+  color: '#a3e635',
+  duration: PHYSICS_TPS * 45,
+  radius: 1500,
+  weight: 1,
+  start(ctx, ev) {
+    // Patient zero is the biggest AI in the zone; an empty zone gets a fresh carrier instead
+    const host = ctx.entities.reduce<GameEntity | null>((best, e) => e.type === 'ai' && inZone(e, ev) && (!best || e.mass > best.mass) ? e : best, null);
+    if (host) host.infectedUntil = ev.endTick;
+    else ctx.spawn('zombie', {
+      type: 'ai', name: 'Patient Zero', x: ev.x, y: ev.y, radius: Math.sqrt(400) * 4, color: '#65a30d', mass: 400,
+      class: CellClass.PREDATOR, infectedUntil: ev.endTick, spawnTime: ctx.tick
+    });
+  },
+  update(ctx, ev) {
+    for (const z of ctx.entities) {
+      if (z.type !== 'ai' || !isZombie(z, ctx.tick)) continue;
+      for (const o of ctx.nearby(z.x, z.y, z.radius * 2)) {
+        if (!isCell(o) || o === z || !touching(z, o)) continue;
+        if (o.type === 'ai') o.infectedUntil = ev.endTick;
+        else if (o.ownerId) {
+          const slot = ctx.players.get(o.ownerId);
+          if (slot) slot.effects.INFECTED = INFECTION_DEBUFF;
+        }
+      }
+    }
+  }
+};
+
+const meteorShower: WorldEventDef = {
+  kind: 'meteor',
+  name: 'Meteor Shower',
+  description: 'Rocks are raining down. They shatter any cell they strike and leave Star Dust behind.',
+  color: '#f97316',
+  duration: PHYSICS_TPS * 30,
+  radius: 1800,
+  weight: 1,
+  start() {},
+  update(ctx, ev) {
+    const { rng, tick } = ctx;
+    if ((tick - ev.startTick) % METEOR_INTERVAL === 0) {
+      const angle = rng.next() * Math.PI * 2, dist = Math.sqrt(rng.next()) * ev.radius;
+      const heading = rng.next() * Math.PI * 2;
+      ctx.spawn('meteor', {
+        type: 'hazard', ownerId: ev.id, x: ev.x + Math.cos(angle) * dist, y: ev.y + Math.sin(angle) * dist,
+        vx: Math.cos(heading) * 9, vy: Math.sin(heading) * 9, radius: 28, color: '#f97316', mass: 0, spawnTime: tick
+      });
+    }
+    for (const rock of ctx.entities) {
+      if (rock.type !== 'hazard' || rock.ownerId !== ev.id) continue;
+      rock.x += rock.vx || 0; rock.y += rock.vy || 0;
+      if (tick - (rock.spawnTime || 0) > METEOR_TTL || rock.x < 0 || rock.y < 0 || rock.x > ctx.mapSize || rock.y > ctx.mapSize) {
+        ctx.remove(rock);
+        continue;
+      }
+      const hit = ctx.nearby(rock.x, rock.y, rock.radius * 4).find(o => isCell(o) && touching(rock, o));
+      if (!hit) continue;
+      // The impact knocks a tenth of the cell loose as Star Dust, then shatters what is left
+      const dust = Math.min(6, Math.max(2, Math.floor(hit.mass / 40)));
+      const shed = hit.mass * 0.1;
+      hit.mass -= shed;
+      for (let k = 0; k < dust; k++) {
+        const a = rng.next() * Math.PI * 2, d = hit.radius + 20 + rng.next() * 120;
+        ctx.spawn('dust', {
+          type: 'food', x: hit.x + Math.cos(a) * d, y: hit.y + Math.sin(a) * d, radius: 6, color: '#fde047',
+          mass: shed / dust, food: 'stardust', bonusXp: STAR_DUST_XP
+        });
+      }
+      ctx.fragment(hit);
+      ctx.remove(rock);
+    }
+  },
+  end(ctx, ev) {
+    ctx.entities.forEach(e => { if (e.type === 'hazard' && e.ownerId === ev.id) ctx.remove(e); });
+  }
+};
+
+const factionWar: WorldEventDef = {
+  kind: 'factionWar',
+  name: 'Faction War',
+  description: 'Two factions are fighting for territory. Cells caught in the war zone are worth triple XP.',
+  color: '#ef4444',
+  duration: PHYSICS_TPS * 60,
+  radius: 1600,
+  weight: 1,
+  start(ctx, ev) {
+    // Territory wars break out over the nutrient fields when there are any
+    const fields = ctx.biomes.filter(b => b.effect === 'nutrient');
+    if (fields.length > 0) {
+      const b = ctx.rng.pick(fields);
+      const c = shapeCenter(b.shape);
+      ev.x = c.x; ev.y = c.y;
+    }
+    const first = ctx.rng.int(3) as Faction;
+    ev.factions = [first, ((first + 1 + ctx.rng.int(2)) % 3) as Faction];
+  },
+  update(ctx, ev) {
+    if ((ctx.tick - ev.startTick) % AI_DECISION_INTERVAL !== 0 || !ev.factions) return;
+    const [fa, fb] = ev.factions;
+    const soldiers = ctx.entities.filter(e => e.type === 'ai' && (e.faction === fa || e.faction === fb) && inZone(e, ev));
+    const enlisted = new Set(soldiers);
+    ctx.entities.forEach(e => { if (e.bounty && !enlisted.has(e)) e.bounty = undefined; });
+    for (const s of soldiers) {
+      s.bounty = WAR_BOUNTY;
+      // Every enemy soldier on the field is a standing grudge, which the AI already knows how to act on
+      const mem = ctx.memoryOf(s);
+      for (const enemy of soldiers) {
+        if (enemy.faction === s.faction) continue;
+        const id = identityOf(enemy);
+        mem.grudges[id] = Math.max(mem.grudges[id] || 0, 0.5);
+      }
+    }
+  },
+  end(ctx) {
+    ctx.entities.forEach(e => { e.bounty = undefined; });
+  }
+};
+
+/** Every event the director can roll. Add a definition here to add an event. */
+export const WORLD_EVENTS: WorldEventDef[] = [infection, meteorShower, factionWar];
+
+export const findWorldEvent = (kind: string) => WORLD_EVENTS.find(d => d.kind === kind);
+
+export function rollWorldEvent(rng: SeededRng): WorldEventDef {
+  const total = WORLD_EVENTS.reduce((sum, d) => sum + d.weight, 0);
+  let roll = rng.next() * total;
+  for (const def of WORLD_EVENTS) if ((roll -= def.weight) < 0) return def;
+  return WORLD_EVENTS[WORLD_EVENTS.length - 1];
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { GRID_CELL_SIZE } from '../constants';
+import { SeededRng } from './rng';
+import { OptimizedGrid } from './grid';
+
+const SIZE = GRID_CELL_SIZE * 8;
+
+interface Circle { x: number; y: number; r: number }
+
+const ids = (grid: OptimizedGrid, n: number) => [...grid.results.subarray(0, n)].sort((a, b) => a - b);
+
+/** Files every circle under its index, the way the simulation rebuilds the grid each tick. */
+function fill(grid: OptimizedGrid, circles: Circle[]) {
+  grid.clear();
+  circles.forEach((c, id) => grid.insert(c.x, c.y, c.r, id));
+}
+
+const touching = (circles: Circle[], x: number, y: number, r: number) =>
+  circles.flatMap((c, id) => c.r > GRID_CELL_SIZE / 2 || Math.hypot(c.x - x, c.y - y) < r + c.r ? [id] : []);
+
+function scatter(seed: number, n: number): Circle[] {
+  const rng = new SeededRng(seed);
+  // Mostly small, some up to the half-cell limit and a few wide enough for the short list
+  return Array.from({ length: n }, () => ({
+    x: rng.range(0, SIZE), y: rng.range(0, SIZE),
+    r: rng.next() < 0.05 ? rng.range(GRID_CELL_SIZE / 2 + 1, GRID_CELL_SIZE * 2) : rng.range(2, rng.next() < 0.2 ? GRID_CELL_SIZE / 2 : 40)
+  }));
+}
+
+describe('OptimizedGrid', () => {
+  it('agrees with a brute-force overlap test on random worlds', () => {
+    const rng = new SeededRng(99);
+    for (let seed = 1; seed <= 5; seed++) {
+      const circles = scatter(seed, 400);
+      const grid = new OptimizedGrid(SIZE);
+      fill(grid, circles);
+      for (let q = 0; q < 50; q++) {
+        const x = rng.range(-100, SIZE + 100), y = rng.range(-100, SIZE + 100), r = rng.range(1, GRID_CELL_SIZE);
+        const expected = touching(circles, x, y, r);
+        expect(ids(grid, grid.getNearbyInto(x, y, r))).toEqual(expect.arrayContaining(expected));
+        expect(ids(grid, grid.getTouchingInto(x, y, r))).toEqual(expected);
+      }
+    }
+  });
+
+  it('grows its cells, short list, shapes and result buffer instead of dropping entities', () => {
+    // Far past the 64 per cell, 64 wide, 1024 shapes and 1024 results it starts with
+    const circles: Circle[] = [
+      ...Array.from({ length: 1500 }, (_, i) => ({ x: 100 + (i % 50), y: 100 + Math.floor(i / 50), r: 5 })),
+      ...Array.from({ length: 100 }, () => ({ x: SIZE / 2, y: SIZE / 2, r: GRID_CELL_SIZE }))
+    ];
+    const grid = new OptimizedGrid(SIZE);
+    fill(grid, circles);
+    const n = grid.getTouchingInto(120, 115, 60);
+    expect(n).toBe(1600);
+    expect(ids(grid, n)).toEqual(circles.map((_, id) => id));
+  });
+
+  it('answers from the latest filing once an entity moves or leaves', () => {
+    const circles = scatter(7, 200);
+    const grid = new OptimizedGrid(SIZE);
+    fill(grid, circles);
+    const mover = circles.findIndex(c => c.r < GRID_CELL_SIZE / 2);
+    const gone = circles.findIndex((c, id) => id !== mover && c.r < GRID_CELL_SIZE / 2);
+    const { x, y } = circles[gone];
+    circles[mover] = { x: SIZE - 10, y: SIZE - 10, r: 10 };
+    const kept = circles.filter((_, id) => id !== gone);
+    fill(grid, kept);
+    expect(ids(grid, grid.getTouchingInto(SIZE - 10, SIZE - 10, 1))).toContain(kept.indexOf(circles[mover]));
+    expect(ids(grid, grid.getTouchingInto(x, y, 1))).toEqual(touching(kept, x, y, 1));
+  });
+});
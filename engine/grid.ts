@@ -0,0 +1,102 @@
+
+import { GameEntity } from '../types';
+import { GRID_CELL_SIZE } from '../constants';
+
+export class EntityPool {
+  private pool: GameEntity[] = [];
+  get(type: 'food' | 'ejected'): GameEntity {
+    if (this.pool.length > 0) {
+      const e = this.pool.pop()!;
+      e.type = type;
+      return e;
+    }
+    return { id: '', type, x: 0, y: 0, radius: 0, color: '', mass: 0 };
+  }
+  release(e: GameEntity) {
+    if (this.pool.length < 3000) {
+      e.ownerId = undefined; e.vx = undefined; e.vy = undefined; e.spawnTime = undefined; e.mergeTimer = undefined;
+      this.pool.push(e);
+    }
+  }
+}
+
+/**
+ * Loose uniform grid. An entity is filed under the cell holding its centre,
+ * and queries widen by the largest radius filed so they still reach anything
+ * whose edge pokes in from a neighbour. Entities wider than half a cell go on
+ * a short list every query scans instead. Cells and the result buffer grow as
+ * needed, so nothing is ever dropped. getNearbyInto returns candidates and
+ * callers do their own distance test; getTouchingInto culls them first
+ * against the position and radius each entity was filed with.
+ */
+export class OptimizedGrid {
+  cells: Int32Array[];
+  counts: Int32Array;
+  cols: number;
+  /** Filled by getNearbyInto; may be reallocated, so read it after each query. */
+  results = new Int32Array(1024);
+  private large = new Int32Array(64);
+  private shapes = new Float64Array(3 * 1024); // x, y, radius per id as inserted
+  private largeCount = 0;
+  private reach = 0;
+
+  constructor(size: number) {
+    this.cols = Math.ceil(size / GRID_CELL_SIZE);
+    const totalCells = this.cols * this.cols;
+    this.cells = Array.from({ length: totalCells }, () => new Int32Array(64));
+    this.counts = new Int32Array(totalCells);
+  }
+  clear() { this.counts.fill(0); this.largeCount = 0; this.reach = 0; }
+  insert(x: number, y: number, radius: number, id: number) {
+    if (radius > GRID_CELL_SIZE / 2) {
+      if (this.largeCount === this.large.length) this.large = grow(this.large);
+      this.large[this.largeCount++] = id;
+      return;
+    }
+    while (id * 3 + 3 > this.shapes.length) this.shapes = grow(this.shapes);
+    this.shapes[id * 3] = x; this.shapes[id * 3 + 1] = y; this.shapes[id * 3 + 2] = radius;
+    if (radius > this.reach) this.reach = radius;
+    const idx = this.cellAt(y) * this.cols + this.cellAt(x);
+    if (this.counts[idx] === this.cells[idx].length) this.cells[idx] = grow(this.cells[idx]);
+    this.cells[idx][this.counts[idx]++] = id;
+  }
+  getNearbyInto(x: number, y: number, radius: number): number {
+    const reach = radius + this.reach;
+    const x0 = this.cellAt(x - reach), x1 = this.cellAt(x + reach);
+    const y0 = this.cellAt(y - reach), y1 = this.cellAt(y + reach);
+    let n = 0;
+    for (let gy = y0; gy <= y1; gy++) {
+      for (let gx = x0; gx <= x1; gx++) {
+        const idx = gy * this.cols + gx;
+        n = this.append(n, this.cells[idx], this.counts[idx]);
+      }
+    }
+    return this.append(n, this.large, this.largeCount);
+  }
+  /** Ids of small entities overlapping the circle; the wide ones from the short list are all kept. */
+  getTouchingInto(x: number, y: number, radius: number): number {
+    const count = this.getNearbyInto(x, y, radius) - this.largeCount;
+    const { results, shapes } = this;
+    let n = 0;
+    for (let k = 0; k < count; k++) {
+      const id = results[k], dx = shapes[id * 3] - x, dy = shapes[id * 3 + 1] - y, reach = radius + shapes[id * 3 + 2];
+      if (dx * dx + dy * dy < reach * reach) results[n++] = id;
+    }
+    results.copyWithin(n, count, count + this.largeCount);
+    return n + this.largeCount;
+  }
+  private cellAt(v: number) {
+    return Math.max(0, Math.min(this.cols - 1, (v / GRID_CELL_SIZE) | 0));
+  }
+  private append(n: number, ids: Int32Array, count: number) {
+    while (n + count > this.results.length) this.results = grow(this.results);
+    this.results.set(ids.subarray(0, count), n);
+    return n + count;
+  }
+}
+
+function grow<T extends Int32Array | Float64Array>(arr: T): T {
+  const next = new (arr.constructor as new (length: number) => T)(arr.length * 2);
+  next.set(arr);
+  return next;
+}
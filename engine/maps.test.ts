@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { Biome, GameMap } from '../types';
+import { BUILTIN_MAPS, MAP_LIMITS, generateMap, parseMap } from './maps';
+
+const base = { id: 'test', name: 'Test', size: 4000, food: 100, ai: 5, viruses: [], biomes: [] };
+const biome = (shape: unknown, extra: object = {}) => ({ name: 'Zone', effect: 'toxic', shape, ...extra });
+const roundTrip = (map: GameMap) => parseMap(JSON.parse(JSON.stringify(map)));
+
+/** Every coordinate a map holds, to check they all lie on it. */
+function coordinates(map: GameMap): number[] {
+  const shape = (b: Biome) => {
+    const s = b.shape;
+    if (s.kind === 'rect') return [s.x, s.y, s.x + s.w, s.y + s.h];
+    if (s.kind === 'circle') return [s.x, s.y, s.r];
+    return s.points.flat();
+  };
+  return [...map.viruses.flatMap(v => [v.x, v.y]), ...(map.playerSpawns || []).flatMap(z => [z.x, z.y, z.r]), ...map.biomes.flatMap(shape)];
+}
+
+describe('parseMap', () => {
+  it('reads the built-in maps back unchanged', () => {
+    BUILTIN_MAPS.forEach(map => expect(roundTrip(map)).toEqual(map));
+  });
+
+  it('refuses files that are not maps', () => {
+    expect(() => parseMap(null)).toThrow(/Not an Osmos map/);
+    expect(() => parseMap([base])).toThrow(/Not an Osmos map/);
+    expect(() => parseMap({ ...base, viruses: undefined })).toThrow(/incomplete/);
+    expect(() => parseMap({ ...base, size: '4000' })).toThrow(/size must be a finite number/);
+    expect(() => parseMap({ ...base, food: Infinity })).toThrow(/food must be a finite number/);
+    expect(() => parseMap({ ...base, biomes: Array(65).fill(biome({ kind: 'circle', x: 1, y: 1, r: 1 })) })).toThrow(/at most/);
+  });
+
+  it('refuses biomes it cannot place', () => {
+    expect(() => parseMap({ ...base, biomes: [{ effect: 'toxic', shape: { kind: 'circle', x: 1, y: 1, r: 1 } }] })).toThrow(/no name/);
+    expect(() => parseMap({ ...base, biomes: [biome({ kind: 'circle', x: 1, y: 1, r: 1 }, { effect: 'acid' })] })).toThrow(/unknown effect "acid"/);
+    expect(() => parseMap({ ...base, biomes: [biome({ kind: 'star', x: 1, y: 1 })] })).toThrow(/Unknown biome shape "star"/);
+    expect(() => parseMap({ ...base, biomes: [biome({ kind: 'circle', x: 1, y: 1 })] })).toThrow(/Unknown biome shape/);
+    expect(() => parseMap({ ...base, biomes: [biome({ kind: 'polygon', points: [[0, 0], [1, 'a'], [2, 2]] })] })).toThrow(/Unknown biome shape/);
+    expect(() => parseMap({ ...base, biomes: [biome(null)] })).toThrow(/Unknown biome shape/);
+  });
+
+  it('clamps counts into range and drops unusable viruses and spawn zones', () => {
+    const map = parseMap({
+      ...base, size: 1e9, food: -5, ai: 7.6,
+      viruses: [{ x: 10, y: 20 }, { x: 'a', y: 1 }, null, [1, 2]],
+      playerSpawns: [{ x: 5, y: 5, r: 100 }, { x: 5, y: 5 }, 'here']
+    });
+    expect(map.size).toBe(MAP_LIMITS.size[1]);
+    expect(map.food).toBe(0);
+    expect(map.ai).toBe(8);
+    expect(map.viruses).toEqual([{ x: 10, y: 20 }]);
+    expect(map.playerSpawns).toEqual([{ x: 5, y: 5, r: 100 }]);
+    expect(parseMap({ ...base, playerSpawns: [{ x: 1 }] }).playerSpawns).toBeUndefined();
+  });
+
+  it('pulls every coordinate and shape point onto the map', () => {
+    const map = parseMap({
+      ...base,
+      viruses: [{ x: -50, y: 9000 }],
+      playerSpawns: [{ x: 5000, y: -1, r: 1e6 }],
+      biomes: [
+        biome({ kind: 'rect', x: -100, y: 3900, w: 500, h: 500 }),
+        biome({ kind: 'rect', x: 100, y: 100, w: -50, h: 20 }),
+        biome({ kind: 'circle', x: 4500, y: -10, r: 9000 }),
+        biome({ kind: 'polygon', points: [[-1, 0], [5000, 2000], [2000, 4001]] })
+      ]
+    });
+    expect(map.viruses).toEqual([{ x: 0, y: 4000 }]);
+    expect(map.playerSpawns).toEqual([{ x: 4000, y: 0, r: 4000 }]);
+    expect(map.biomes.map(b => b.shape)).toEqual([
+      { kind: 'rect', x: 0, y: 3900, w: 400, h: 100 },
+      { kind: 'rect', x: 100, y: 100, w: 0, h: 20 },
+      { kind: 'circle', x: 4000, y: 0, r: 4000 },
+      { kind: 'polygon', points: [[0, 0], [4000, 2000], [2000, 4000]] }
+    ]);
+  });
+});
+
+describe('generateMap', () => {
+  it('builds the same valid map from the same seed', () => {
+    const map = generateMap(1234);
+    expect(generateMap(1234)).toEqual(map);
+    expect(generateMap(1235)).not.toEqual(map);
+    expect(roundTrip(map)).toEqual(map);
+  });
+
+  it('keeps every biome, virus and spawn zone on the map', () => {
+    for (let seed = 0; seed < 300; seed++) {
+      const map = generateMap(seed);
+      expect(coordinates(map).every(v => v >= 0 && v <= map.size), `seed ${seed}`).toBe(true);
+    }
+  });
+
+  it('treats seeds as unsigned 32-bit integers', () => {
+    expect(generateMap(-1)).toEqual(generateMap(2 ** 32 - 1));
+    expect(generateMap(7.9)).toEqual(generateMap(7));
+    const map = generateMap(NaN);
+    expect(map).toEqual(generateMap(0));
+    expect(roundTrip(map)).toEqual(map);
+  });
+});
@@ -0,0 +1,207 @@
+
+import { Biome, BiomeEffect, GameMap, Shape, SpawnTable } from '../types';
+import { BIOME_EFFECTS, BIOME_FOOD } from '../constants';
+import { SeededRng } from './rng';
+import { isNum, isOneOf, isRecord } from './parse';
+import classic from '../maps/classic.json';
+import archipelago from '../maps/archipelago.json';
+
+type Point = { x: number; y: number };
+
+const SPAWN_ATTEMPTS = 8;
+const SPAWN_CLEARING = 900; // generated biomes and viruses keep away from the first player's spawn
+const MAX_VIRUSES = 500;
+const MAX_BIOMES = 64;
+
+/** What a map file may ask for; anything larger freezes the grid allocation and spawn loops. */
+export const MAP_LIMITS: Record<'size' | 'food' | 'ai', [number, number]> = { size: [2000, 20000], food: [0, 20000], ai: [0, 500] };
+
+export function inShape(p: Point, s: Shape): boolean {
+  switch (s.kind) {
+    case 'rect': return p.x > s.x && p.x < s.x + s.w && p.y > s.y && p.y < s.y + s.h;
+    case 'circle': return (p.x - s.x) ** 2 + (p.y - s.y) ** 2 < s.r * s.r;
+    case 'polygon': {
+      // Even-odd rule: count edge crossings of a ray cast to the right
+      let inside = false;
+      const pts = s.points;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const [xi, yi] = pts[i], [xj, yj] = pts[j];
+        if ((yi > p.y) !== (yj > p.y) && p.x < ((xj - xi) * (p.y - yi)) / (yj - yi) + xi) inside = !inside;
+      }
+      return inside;
+    }
+  }
+}
+
+export function shapeBounds(s: Shape): { x: number; y: number; w: number; h: number } {
+  if (s.kind === 'rect') return { x: s.x, y: s.y, w: s.w, h: s.h };
+  if (s.kind === 'circle') return { x: s.x - s.r, y: s.y - s.r, w: s.r * 2, h: s.r * 2 };
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of s.points) {
+    minX = Math.min(minX, x); minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+  }
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+export const shapeCenter = (s: Shape): Point => {
+  const b = shapeBounds(s);
+  return { x: b.x + b.w / 2, y: b.y + b.h / 2 };
+};
+
+/** The biome drawn on top at `p`, if any. */
+export function biomeAt(biomes: Biome[], p: Point): Biome | undefined {
+  for (let i = biomes.length - 1; i >= 0; i--) if (inShape(p, biomes[i].shape)) return biomes[i];
+  return undefined;
+}
+
+/** A biome's spawn density: its own table first, else the food default for its effect. */
+export const spawnDensity = (b: Biome, kind: keyof SpawnTable) => b.spawns?.[kind] ?? (kind === 'food' ? BIOME_FOOD[b.effect].density : 1);
+
+/**
+ * A random point on the map, thinned by the spawn density of the biome it
+ * lands in. Dense biomes always accept; sparser ground only some of the time.
+ */
+export function spawnPoint(map: GameMap, rng: SeededRng, kind: keyof SpawnTable): Point {
+  let peak = 1;
+  for (const b of map.biomes) peak = Math.max(peak, spawnDensity(b, kind));
+  let p = { x: 0, y: 0 };
+  for (let i = 0; i < SPAWN_ATTEMPTS; i++) {
+    p = { x: rng.next() * map.size, y: rng.next() * map.size };
+    const b = biomeAt(map.biomes, p);
+    const density = b ? spawnDensity(b, kind) : 1;
+    if (density >= peak || rng.next() * peak < density) break;
+  }
+  return p;
+}
+
+const EFFECTS = Object.keys(BIOME_EFFECTS) as BiomeEffect[];
+const isPoint = (v: unknown): v is Point => isRecord(v) && isNum(v.x) && isNum(v.y);
+
+/** Keeps a coordinate or length on a `size` map. */
+const within = (size: number) => (v: number) => Math.max(0, Math.min(size, v));
+
+function parseShape(s: unknown, size: number): Shape {
+  const at = within(size);
+  const { kind, x, y, w, h, r, points } = isRecord(s) ? s : {} as Record<string, unknown>;
+  if (kind === 'rect' && isNum(x) && isNum(y) && isNum(w) && isNum(h)) {
+    const left = at(x), top = at(y);
+    return { kind: 'rect', x: left, y: top, w: at(x + Math.max(0, w)) - left, h: at(y + Math.max(0, h)) - top };
+  }
+  if (kind === 'circle' && isNum(x) && isNum(y) && isNum(r)) return { kind: 'circle', x: at(x), y: at(y), r: at(r) };
+  if (kind === 'polygon' && Array.isArray(points) && points.length >= 3 && points.every((p): p is [number, number] => Array.isArray(p) && isNum(p[0]) && isNum(p[1]))) {
+    return { kind: 'polygon', points: points.map(p => [at(p[0]), at(p[1])]) };
+  }
+  throw new Error(`Unknown biome shape ${JSON.stringify(kind)}`);
+}
+
+function parseBiome(b: unknown, i: number, size: number): Biome {
+  if (!isRecord(b) || typeof b.name !== 'string') throw new Error(`Biome ${i + 1} has no name`);
+  if (!isOneOf(EFFECTS, b.effect)) throw new Error(`Biome ${b.name} has unknown effect ${JSON.stringify(b.effect)}`);
+  const spawns: SpawnTable = {};
+  if (isRecord(b.spawns) && isNum(b.spawns.food)) spawns.food = Math.max(0, b.spawns.food);
+  if (isRecord(b.spawns) && isNum(b.spawns.ai)) spawns.ai = Math.max(0, b.spawns.ai);
+  return {
+    id: String(b.id ?? i + 1), name: b.name, effect: b.effect,
+    color: typeof b.color === 'string' ? b.color : BIOME_EFFECTS[b.effect].color,
+    shape: parseShape(b.shape, size),
+    ...(Object.keys(spawns).length > 0 && { spawns })
+  };
+}
+
+/** Validates a map file (or anything claiming to be one) and returns a clean copy with everything on the map. */
+export function parseMap(data: unknown): GameMap {
+  if (!isRecord(data)) throw new Error('Not an Osmos map file');
+  const { viruses, biomes, playerSpawns } = data;
+  if (!Array.isArray(viruses) || !Array.isArray(biomes)) throw new Error('Map file is incomplete');
+  const limit = (key: keyof typeof MAP_LIMITS) => {
+    const v = data[key];
+    if (!isNum(v)) throw new Error(`Map ${key} must be a finite number`);
+    const [min, max] = MAP_LIMITS[key];
+    return Math.max(min, Math.min(max, Math.round(v)));
+  };
+  if (biomes.length > MAX_BIOMES) throw new Error(`Maps hold at most ${MAX_BIOMES} biomes`);
+  const size = limit('size');
+  const at = within(size);
+  const zones = Array.isArray(playerSpawns) ? playerSpawns.filter((z): z is Point & { r: number } => isRecord(z) && isNum(z.r) && isPoint(z)) : [];
+  return {
+    id: String(data.id ?? 'custom'),
+    name: String(data.name ?? 'Custom map'),
+    size,
+    food: limit('food'),
+    ai: limit('ai'),
+    viruses: viruses.filter(isPoint).slice(0, MAX_VIRUSES).map(v => ({ x: at(v.x), y: at(v.y) })),
+    biomes: biomes.map((b, i) => parseBiome(b, i, size)),
+    ...(zones.length > 0 && { playerSpawns: zones.map(z => ({ x: at(z.x), y: at(z.y), r: at(z.r) })) })
+  };
+}
+
+export const BUILTIN_MAPS: GameMap[] = [classic, archipelago].map(parseMap);
+export const DEFAULT_MAP = BUILTIN_MAPS[0];
+
+function blob(rng: SeededRng, cx: number, cy: number, r: number, size: number): Shape {
+  const roll = rng.next();
+  if (roll < 0.35) return { kind: 'circle', x: Math.round(cx), y: Math.round(cy), r: Math.round(r) };
+  if (roll < 0.5) return { kind: 'rect', x: Math.round(cx - r), y: Math.round(cy - r * 0.8), w: Math.round(r * 2), h: Math.round(r * 1.6) };
+  const sides = 5 + rng.int(4), at = within(size);
+  const points: [number, number][] = [];
+  for (let i = 0; i < sides; i++) {
+    const a = ((i + rng.range(-0.3, 0.3)) / sides) * Math.PI * 2;
+    const d = r * rng.range(0.65, 1.1);
+    points.push([Math.round(at(cx + Math.cos(a) * d)), Math.round(at(cy + Math.sin(a) * d))]);
+  }
+  return { kind: 'polygon', points };
+}
+
+/**
+ * A fresh layout from a seed: size, a handful of non-overlapping biomes of
+ * mixed shapes, and scattered viruses, all clear of the central spawn. The same
+ * seed always gives the same map. Seeds are taken as unsigned 32-bit, like SeededRng does.
+ */
+export function generateMap(anySeed: number): GameMap {
+  const seed = anySeed >>> 0;
+  const rng = new SeededRng(seed);
+  const size = 6000 + rng.int(5) * 1000;
+  const scale = (size / DEFAULT_MAP.size) ** 2;
+  const mid = size / 2;
+  const clear = (x: number, y: number, r: number, taken: { x: number; y: number; r: number }[]) =>
+    Math.hypot(x - mid, y - mid) > r + SPAWN_CLEARING && taken.every(t => Math.hypot(x - t.x, y - t.y) > r + t.r);
+
+  const effects: BiomeEffect[] = ['toxic', 'lava', 'nutrient', 'dark'];
+  const extra = rng.int(3);
+  for (let i = 0; i < extra; i++) effects.push(rng.pick(EFFECTS));
+  const taken: { x: number; y: number; r: number }[] = [];
+  const biomes: Biome[] = [];
+  effects.forEach((effect, i) => {
+    for (let attempt = 0; attempt < 40; attempt++) {
+      const r = rng.range(0.08, 0.15) * size;
+      const x = rng.range(r, size - r), y = rng.range(r, size - r);
+      if (!clear(x, y, r, taken)) continue;
+      taken.push({ x, y, r });
+      const spawns: SpawnTable | undefined =
+        effect === 'nutrient' ? { food: 2 + rng.int(2) } :
+        effect === 'lava' ? { ai: 0.5 } :
+        effect === 'dark' ? { ai: 1.5 } : undefined;
+      biomes.push({ id: String(i + 1), name: rng.pick(BIOME_EFFECTS[effect].names), color: BIOME_EFFECTS[effect].color, effect, shape: blob(rng, x, y, r, size), ...(spawns && { spawns }) });
+      break;
+    }
+  });
+
+  const viruses: Point[] = [];
+  const spacing = size * 0.06;
+  const virusCount = Math.round(DEFAULT_MAP.viruses.length * scale);
+  for (let attempt = 0; viruses.length < virusCount && attempt < virusCount * 20; attempt++) {
+    const x = rng.range(300, size - 300), y = rng.range(300, size - 300);
+    if (Math.hypot(x - mid, y - mid) > SPAWN_CLEARING && viruses.every(v => Math.hypot(x - v.x, y - v.y) > spacing)) viruses.push({ x: Math.round(x), y: Math.round(y) });
+  }
+
+  return {
+    id: `procedural-${seed}`,
+    name: `Procedural #${seed.toString(36).toUpperCase()}`,
+    size,
+    food: Math.round(DEFAULT_MAP.food * scale),
+    ai: Math.round(DEFAULT_MAP.ai * scale),
+    viruses,
+    biomes
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { GameEntity } from '../types';
+import { EntityPacker, EntityUnpacker } from './packing';
+
+const cell = (id: string, x: number, y: number, extra: Partial<GameEntity> = {}): GameEntity =>
+  ({ id, type: 'ai', name: id, color: '#fff', x, y, radius: 20, mass: 25, ...extra });
+
+describe('entity packing', () => {
+  it('round-trips every packed field', () => {
+    const entities = [
+      cell('a', 10, 20, { vx: 1.5, vy: -2, health: 40, infectedUntil: 300 }),
+      cell('b', 30, 40, { latchedTo: 'a', isVisible: false, ownerId: 'p1', type: 'player' }),
+      cell('c', 50, 60, { type: 'food', food: 'stardust' })
+    ];
+    const out = new EntityUnpacker();
+    out.apply(new EntityPacker().pack(entities, 1));
+    const [a, b, c] = out.entities;
+    expect(a).toMatchObject({ id: 'a', type: 'ai', name: 'a', x: 10, y: 20, radius: 20, mass: 25, vx: 1.5, vy: -2, health: 40, infectedUntil: 300, isVisible: true });
+    expect(b).toMatchObject({ id: 'b', type: 'player', ownerId: 'p1', latchedTo: 'a', isVisible: false, health: undefined });
+    expect(c).toMatchObject({ type: 'food', food: 'stardust' });
+  });
+
+  it('drops removed entities and gives a reused handle the new entity', () => {
+    const packer = new EntityPacker(), out = new EntityUnpacker();
+    out.apply(packer.pack([cell('a', 0, 0), cell('b', 0, 0)], 1));
+    out.apply(packer.pack([cell('b', 0, 0)], 2));
+    expect(out.entities.map(e => e.id)).toEqual(['b']);
+    out.apply(packer.pack([cell('b', 0, 0), cell('c', 5, 5)], 3));
+    expect(out.entities.map(e => e.id)).toEqual(['b', 'c']);
+    expect(out.entities[1]).toMatchObject({ x: 5, y: 5 });
+  });
+
+  it('blends positions between the last two frames', () => {
+    const packer = new EntityPacker(), out = new EntityUnpacker();
+    out.apply(packer.pack([cell('a', 0, 0)], 1));
+    out.apply(packer.pack([cell('a', 10, 20, { radius: 30 })], 2));
+    out.interpolate(0.5);
+    expect(out.entities[0]).toMatchObject({ x: 5, y: 10, radius: 25 });
+  });
+});
@@ -0,0 +1,132 @@
+
+import { GameEntity } from '../types';
+
+/**
+ * Per-tick entity state as flat Float32 records, so a worker can hand a whole
+ * frame to the main thread as one transferable buffer. Fields that never
+ * change for an entity travel once, as EntityMeta, when its handle is issued.
+ */
+export const STRIDE = 10; // handle (negated when hidden), x, y, radius, mass, vx, vy, latched host handle (-1 for none), infectedUntil, health (-1 for full)
+
+export type EntityMeta = Pick<GameEntity, 'id' | 'type' | 'name' | 'color' | 'class' | 'faction' | 'ownerId' | 'food' | 'bonusXp'> & { handle: number };
+
+export interface PackedFrame {
+  tick: number;
+  count: number;
+  buffer: ArrayBuffer;
+  added: EntityMeta[];
+  removed: number[];
+}
+
+export class EntityPacker {
+  private handles = new Map<string, { handle: number; seen: number }>();
+  private free: number[] = [];
+  private nextHandle = 0;
+  private frame = 0;
+
+  pack(entities: GameEntity[], tick: number, spare?: ArrayBuffer): PackedFrame {
+    const frame = ++this.frame;
+    const added: EntityMeta[] = [];
+    const removed: number[] = [];
+    const bytes = entities.length * STRIDE * 4;
+    const data = new Float32Array(spare && spare.byteLength >= bytes ? spare : new ArrayBuffer(Math.max(bytes, 4096 * STRIDE * 4)), 0, entities.length * STRIDE);
+
+    for (const e of entities) {
+      let slot = this.handles.get(e.id);
+      if (!slot) {
+        slot = { handle: this.free.pop() ?? this.nextHandle++, seen: frame };
+        this.handles.set(e.id, slot);
+        added.push({ handle: slot.handle, id: e.id, type: e.type, name: e.name, color: e.color, class: e.class, faction: e.faction, ownerId: e.ownerId, food: e.food, bonusXp: e.bonusXp });
+      }
+      slot.seen = frame;
+    }
+    this.handles.forEach((slot, id) => {
+      if (slot.seen === frame) return;
+      this.handles.delete(id);
+      this.free.push(slot.handle);
+      removed.push(slot.handle);
+    });
+
+    for (let i = 0, o = 0; i < entities.length; i++, o += STRIDE) {
+      const e = entities[i];
+      const handle = this.handles.get(e.id)!.handle;
+      data[o] = e.isVisible === false ? -1 - handle : handle;
+      data[o + 1] = e.x; data[o + 2] = e.y; data[o + 3] = e.radius; data[o + 4] = e.mass;
+      data[o + 5] = e.vx || 0; data[o + 6] = e.vy || 0;
+      data[o + 7] = e.latchedTo ? this.handles.get(e.latchedTo)?.handle ?? -1 : -1;
+      data[o + 8] = e.infectedUntil || 0;
+      data[o + 9] = e.health ?? -1;
+    }
+    return { tick, count: entities.length, buffer: data.buffer as ArrayBuffer, added, removed };
+  }
+}
+
+/**
+ * The receiving side: keeps one GameEntity per handle and blends each one
+ * between the last two frames it appeared in.
+ */
+export class EntityUnpacker {
+  readonly entities: GameEntity[] = [];
+  private meta: (EntityMeta | undefined)[] = [];
+  private objects: GameEntity[] = [];
+  private prev = new Float32Array(0);
+  private curr = new Float32Array(0);
+  private seen = new Int32Array(0);
+  private order = new Int32Array(0);
+  private count = 0;
+  private frame = 1; // `seen` starts at 0, so nothing counts as present in the frame before the first
+
+  /** Takes in a frame; the buffer is no longer read afterwards, so it can be sent back for reuse. */
+  apply({ count, buffer, added, removed }: PackedFrame) {
+    const frame = ++this.frame;
+    removed.forEach(h => { this.meta[h] = undefined; });
+    added.forEach(m => {
+      this.meta[m.handle] = m;
+      this.objects[m.handle] = { id: m.id, type: m.type, name: m.name, color: m.color, class: m.class, faction: m.faction, ownerId: m.ownerId, food: m.food, bonusXp: m.bonusXp, x: 0, y: 0, radius: 0, mass: 0 };
+    });
+    const data = new Float32Array(buffer, 0, count * STRIDE);
+    if (this.order.length < count) this.order = new Int32Array(count * 2);
+    this.entities.length = count;
+    for (let i = 0, o = 0; i < count; i++, o += STRIDE) {
+      const handle = data[o] < 0 ? -1 - data[o] : data[o];
+      this.reserve(handle);
+      const e = this.objects[handle];
+      const h3 = handle * 3;
+      const fresh = this.seen[handle] !== frame - 1 || e.type === 'food';
+      this.prev[h3] = fresh ? data[o + 1] : this.curr[h3];
+      this.prev[h3 + 1] = fresh ? data[o + 2] : this.curr[h3 + 1];
+      this.prev[h3 + 2] = fresh ? data[o + 3] : this.curr[h3 + 2];
+      this.curr[h3] = data[o + 1]; this.curr[h3 + 1] = data[o + 2]; this.curr[h3 + 2] = data[o + 3];
+      this.seen[handle] = frame;
+      e.isVisible = data[o] >= 0;
+      e.mass = data[o + 4]; e.vx = data[o + 5]; e.vy = data[o + 6];
+      e.latchedTo = data[o + 7] >= 0 ? this.meta[data[o + 7]]?.id : undefined;
+      e.infectedUntil = data[o + 8] || undefined;
+      e.health = data[o + 9] >= 0 ? data[o + 9] : undefined;
+      this.order[i] = handle;
+      this.entities[i] = e;
+    }
+    this.count = count;
+    this.interpolate(0);
+  }
+
+  /** Places every entity `alpha` (0..1) of the way from the previous frame to the latest one. */
+  interpolate(alpha: number) {
+    const { prev, curr } = this;
+    for (let i = 0; i < this.count; i++) {
+      const handle = this.order[i], h3 = handle * 3;
+      const e = this.objects[handle];
+      e.x = prev[h3] + (curr[h3] - prev[h3]) * alpha;
+      e.y = prev[h3 + 1] + (curr[h3 + 1] - prev[h3 + 1]) * alpha;
+      e.radius = prev[h3 + 2] + (curr[h3 + 2] - prev[h3 + 2]) * alpha;
+    }
+  }
+
+  private reserve(handle: number) {
+    if (handle < this.seen.length) return;
+    const size = Math.max(4096, (handle + 1) * 2);
+    const prev = new Float32Array(size * 3), curr = new Float32Array(size * 3), seen = new Int32Array(size);
+    prev.set(this.prev); curr.set(this.curr); seen.set(this.seen);
+    this.prev = prev; this.curr = curr; this.seen = seen;
+  }
+}
@@ -0,0 +1,9 @@
+/** Narrowing for data from files, storage and the wire, which arrives as `unknown`. */
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const isStr = (v: unknown): v is string => typeof v === 'string';
+
+/** Whether `v` is one of `options`, narrowing it to their type. */
+export const isOneOf = <T>(options: readonly T[], v: unknown): v is T => options.includes(v as T);
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CellClass, PlayerState } from '../types';
+import { CLASS_DATA, MAX_LEVEL, STAT_POINT_CAP, STAT_POINT_VALUE } from '../constants';
+import { computeStats, emptyAllocation, allocateStat, unlockSkill, sanitizeProgress, expForLevel } from './progression';
+
+const player = (level: number, skillPoints: number): PlayerState => {
+  const allocated = emptyAllocation();
+  return { id: 'p', name: 'TEST', level, exp: 0, maxExp: 100, class: CellClass.TANK, mass: 25, stats: computeStats(CellClass.TANK, allocated, []), allocated, skillPoints, skills: [] };
+};
+
+describe('progression', () => {
+  it('spends a point per stat allocation, up to the cap', () => {
+    const p = player(20, STAT_POINT_CAP + 1);
+    for (let i = 0; i < STAT_POINT_CAP; i++) expect(allocateStat(p, 'defense')).toBe(true);
+    expect(allocateStat(p, 'defense')).toBe(false);
+    expect(p.skillPoints).toBe(1);
+    expect(p.stats.defense).toBeCloseTo(CLASS_DATA[CellClass.TANK].baseStats.defense + STAT_POINT_CAP * STAT_POINT_VALUE);
+  });
+
+  it('unlocks skills in tree order once level and points allow, applying their modifiers', () => {
+    const p = player(1, 10);
+    expect(unlockSkill(p, 'tank_plating')).toBe(false); // level 2 node
+    p.level = 5;
+    expect(unlockSkill(p, 'tank_mitosis')).toBe(false); // needs plating first
+    expect(unlockSkill(p, 'tank_plating')).toBe(true);
+    expect(unlockSkill(p, 'tank_plating')).toBe(false);
+    expect(p.skillPoints).toBe(9);
+    expect(p.stats.defense).toBeCloseTo(CLASS_DATA[CellClass.TANK].baseStats.defense + 0.3);
+  });
+
+  it('refuses allocations without points', () => {
+    const p = player(1, 0);
+    expect(allocateStat(p, 'speed')).toBe(false);
+    expect(p.allocated.speed).toBe(0);
+  });
+});
+
+describe('sanitizeProgress', () => {
+  it('ignores claims that are not objects', () => {
+    [undefined, null, 'level 30', 30, []].forEach(claim => expect(sanitizeProgress(CellClass.TANK, claim)).toBeUndefined());
+  });
+
+  it('keeps only what the claimed level could have earned', () => {
+    const p = sanitizeProgress(CellClass.TANK, { level: 4, exp: 1e9, skillPoints: 99, allocated: { speed: 2, defense: 'lots' }, skills: ['tank_mitosis', 'tank_plating', 7, 'tank_mitosis'] });
+    expect(p).toEqual({
+      level: 4, exp: expForLevel(4) - 1, maxExp: expForLevel(4), skillPoints: 1,
+      allocated: { ...emptyAllocation(), speed: 2 }, skills: ['tank_plating', 'tank_mitosis']
+    });
+  });
+
+  it('clamps the level and never spends more points than it has', () => {
+    expect(sanitizeProgress(CellClass.TANK, { level: 'max' })!.level).toBe(1);
+    const p = sanitizeProgress(CellClass.TANK, { level: 1e6, allocated: { speed: 50, defense: -3 } })!;
+    expect(p.level).toBe(MAX_LEVEL);
+    expect(p.allocated).toEqual({ ...emptyAllocation(), speed: STAT_POINT_CAP });
+    expect(sanitizeProgress(CellClass.TANK, { level: 2, allocated: { speed: 5, burst: 5 } })!.allocated).toEqual({ ...emptyAllocation(), speed: 2 });
+  });
+});
@@ -0,0 +1,79 @@
+
+import { CellClass, ClassProgress, PlayerState, Stats, SkillNode } from '../types';
+import { CLASS_DATA, SKILL_TREE, STAT_POINT_VALUE, STAT_POINT_CAP, SKILL_POINTS_PER_LEVEL, MAX_LEVEL } from '../constants';
+import { isRecord, isStr } from './parse';
+
+export const STAT_KEYS: (keyof Stats)[] = ['speed', 'absorption', 'defense', 'regen', 'burst'];
+
+export const emptyAllocation = (): Stats => ({ speed: 0, absorption: 0, defense: 0, regen: 0, burst: 0 });
+
+export const findSkill = (cls: CellClass, skillId: string): SkillNode | undefined =>
+  SKILL_TREE[cls].find(n => n.id === skillId);
+
+/** Effective stats for a build: class base, plus allocated points, plus every unlocked node. */
+export function computeStats(cls: CellClass, allocated: Stats, skills: string[]): Stats {
+  const stats = { ...CLASS_DATA[cls].baseStats };
+  STAT_KEYS.forEach(k => { stats[k] += allocated[k] * STAT_POINT_VALUE; });
+  skills.forEach(id => {
+    const node = findSkill(cls, id);
+    if (node) STAT_KEYS.forEach(k => { stats[k] += node.modifiers[k] || 0; });
+  });
+  return stats;
+}
+
+export function canUnlock(p: Pick<PlayerState, 'class' | 'level' | 'skills' | 'skillPoints'>, skillId: string): boolean {
+  const node = findSkill(p.class, skillId);
+  if (!node || p.skills.includes(skillId)) return false;
+  if (node.requires && !p.skills.includes(node.requires)) return false;
+  return p.level >= node.minLevel && p.skillPoints >= node.cost;
+}
+
+export function allocateStat(p: PlayerState, stat: keyof Stats): boolean {
+  if (p.skillPoints < 1 || p.allocated[stat] >= STAT_POINT_CAP) return false;
+  p.skillPoints--;
+  p.allocated[stat]++;
+  p.stats = computeStats(p.class, p.allocated, p.skills);
+  return true;
+}
+
+export function unlockSkill(p: PlayerState, skillId: string): boolean {
+  if (!canUnlock(p, skillId)) return false;
+  p.skillPoints -= findSkill(p.class, skillId)!.cost;
+  p.skills.push(skillId);
+  p.stats = computeStats(p.class, p.allocated, p.skills);
+  return true;
+}
+
+/** XP needed to clear `level`, as the simulation scales it on every level-up. */
+export function expForLevel(level: number): number {
+  let maxExp = 100;
+  for (let l = 1; l < level; l++) maxExp = Math.floor(maxExp * 2.1);
+  return maxExp;
+}
+
+const clampInt = (v: unknown, min: number, max: number) => Math.max(min, Math.min(max, Math.floor(Number(v)) || 0));
+
+/**
+ * Rebuilds a build someone else claims under the game's rules: level and XP in
+ * range, no more points spent than the level earned, and skills replayed in
+ * order through canUnlock. Anything unusable is dropped.
+ */
+export function sanitizeProgress(cls: CellClass, data: unknown): ClassProgress | undefined {
+  if (!isRecord(data)) return undefined;
+  const level = clampInt(data.level, 1, MAX_LEVEL);
+  const maxExp = expForLevel(level);
+  let skillPoints = (level - 1) * SKILL_POINTS_PER_LEVEL;
+  const claimed = isRecord(data.allocated) ? data.allocated : {};
+  const allocated = emptyAllocation();
+  STAT_KEYS.forEach(k => {
+    allocated[k] = Math.min(clampInt(claimed[k], 0, STAT_POINT_CAP), skillPoints);
+    skillPoints -= allocated[k];
+  });
+  const build = { class: cls, level, skills: [] as string[], skillPoints };
+  (Array.isArray(data.skills) ? data.skills : []).filter(isStr).forEach(id => {
+    if (!canUnlock(build, id)) return;
+    build.skillPoints -= findSkill(cls, id)!.cost;
+    build.skills.push(id);
+  });
+  return { level, exp: clampInt(data.exp, 0, maxExp - 1), maxExp, skillPoints: build.skillPoints, allocated, skills: build.skills };
+}
@@ -0,0 +1,38 @@
+
+import { GameEntity, GameMap, CellClass, Faction, ClassProgress, Leaderboard, PlayerInput, SimEvent, WorldEventState } from '../types';
+import type { PlayerSlot } from './simulation';
+
+/** Everything a client needs to draw its own player: the slot minus the server-side input buffer. */
+export type PlayerView = Omit<PlayerSlot, 'input' | 'log'>;
+
+export type ClientMessage =
+  | { type: 'join'; name: string; cls: CellClass; faction: Faction | null; progress?: ClassProgress }
+  | { type: 'input'; input: PlayerInput };
+
+export interface Snapshot {
+  tick: number;
+  entities: GameEntity[]; // only what the receiving player can see
+  worldEvents: WorldEventState[];
+  you: PlayerView | null;
+  events: SimEvent[]; // everything that happened since the previous snapshot
+  leaderboard?: Leaderboard; // every LEADERBOARD_INTERVAL ticks
+}
+
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string; map: GameMap; tick: number }
+  | ({ type: 'snapshot' } & Snapshot)
+  | { type: 'error'; message: string };
+
+export const toView = ({ input, log, ...view }: PlayerSlot): PlayerView => view;
+
+/** World events and kills are public; everything else only goes to the player it names. */
+export const isEventFor = (ev: SimEvent, playerId: string) => ev.type === 'worldEvent' || ev.type === 'kill' || ev.playerId === playerId;
+
+export function parseMessage<T extends { type: string }>(raw: unknown): T | null {
+  try {
+    const msg = JSON.parse(String(raw));
+    return msg && typeof msg.type === 'string' ? msg : null;
+  } catch {
+    return null;
+  }
+}
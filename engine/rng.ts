@@ -0,0 +1,19 @@
+
+/**
+ * Mulberry32 PRNG. Small, fast and fully reproducible from a 32-bit seed,
+ * so two simulations fed the same seed and inputs stay in lockstep.
+ */
+export class SeededRng {
+  state: number;
+  constructor(seed: number) { this.state = seed >>> 0; }
+
+  next(): number {
+    let t = (this.state = (this.state + 0x6D2B79F5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  range(min: number, max: number) { return min + this.next() * (max - min); }
+  int(n: number) { return Math.floor(this.next() * n); }
+  pick<T>(arr: readonly T[]): T { return arr[this.int(arr.length)]; }
+}
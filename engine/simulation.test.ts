@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { CellClass, Faction, FoodKind, GameEntity, WorldEventState } from '../types';
+import { CLASS_DATA, CELL_HEALTH, COMBAT_CALM, HEALTH_REGEN, FOOD_KINDS, STAR_DUST_BOOST, STAR_DUST_XP, STAR_DUST_XP_MULT, TOXIN_DURATION, WAR_BOUNTY, FOOD_REGROW_TICKS, PHYSICS_TPS, SKILL_POINTS_PER_LEVEL, VIRUS_MASS, VIRUS_RADIUS } from '../constants';
+import { Simulation } from './simulation';
+import { contactDamage, fortified, massKept } from './combat';
+import { findWorldEvent } from './events';
+
+/** A world holding just one player cell of the given mass, so each test places exactly what it needs. */
+function solo(mass = 25, cls = CellClass.PREDATOR, faction: Faction | null = null) {
+  const sim = new Simulation({ seed: 1 });
+  sim.entities.length = 0;
+  const slot = sim.addPlayer('p', 'TEST', cls, { faction });
+  const cell = sim.cellsOf('p')[0];
+  cell.mass = mass;
+  cell.radius = Math.sqrt(mass) * 4;
+  return { sim, slot, cell };
+}
+
+const aiCell = (id: string, at: GameEntity, mass: number, faction: Faction): GameEntity =>
+  ({ id, type: 'ai', x: at.x, y: at.y, mass, radius: Math.sqrt(mass) * 4, color: '#fff', class: CellClass.SUPPORT, faction });
+
+/** A second player's cell right on top of `at`, so the two start out fighting. */
+function rival(sim: Simulation, at: GameEntity, mass: number, cls: CellClass) {
+  sim.addPlayer('q', 'RIVAL', cls);
+  const cell = sim.cellsOf('q')[0];
+  Object.assign(cell, { x: at.x, y: at.y, mass, radius: Math.sqrt(mass) * 4 });
+  return cell;
+}
+
+const food = (kind: FoodKind, at: GameEntity, mass = FOOD_KINDS[kind].mass): GameEntity =>
+  ({ id: `f-${kind}`, type: 'food', food: kind, x: at.x, y: at.y, mass, radius: FOOD_KINDS[kind].radius, color: FOOD_KINDS[kind].color });
+
+describe('Simulation', () => {
+  it('replays the same world from the same seed and inputs', () => {
+    const run = () => {
+      const sim = new Simulation({ seed: 42 });
+      sim.addPlayer('p', 'TEST', CellClass.SUPPORT);
+      for (let t = 0; t < 120; t++) sim.step({ p: { mx: Math.cos(t / 20) * 100, my: Math.sin(t / 15) * 100, split: t % 40 === 0, eject: t % 17 === 0 } });
+      return sim.entities.map(e => [e.id, e.x, e.y, e.mass]);
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it('swallows a pellet under a cell and grows it back within the regrowth window', () => {
+    const { sim, slot, cell } = solo();
+    const grown = () => sim.entities.some(e => e.id === 'f-pellet');
+    sim.entities.push(food('pellet', cell));
+    sim.step();
+    expect(grown()).toBe(false);
+    expect(cell.mass).toBeCloseTo(25 + FOOD_KINDS.pellet.mass);
+    expect(slot.state.exp).toBeGreaterThan(0);
+    for (let t = 1; t < FOOD_REGROW_TICKS[0]; t++) sim.step();
+    expect(grown()).toBe(false);
+    for (let t = FOOD_REGROW_TICKS[0]; t <= FOOD_REGROW_TICKS[1] && !grown(); t++) sim.step();
+    expect(grown()).toBe(true);
+  });
+
+  it('splits a cell in two and merges the halves once their timers run out', () => {
+    const { sim } = solo(200);
+    sim.step({ p: { mx: 100, my: 0, split: true } });
+    expect(sim.cellsOf('p')).toHaveLength(2);
+    for (let t = 0; t < PHYSICS_TPS * 30 && sim.cellsOf('p').length > 1; t++) sim.step();
+    const cells = sim.cellsOf('p');
+    expect(cells).toHaveLength(1);
+    expect(cells[0].mass).toBeCloseTo(200);
+  });
+
+  it('bursts a heavy cell that touches a virus and keeps the mass', () => {
+    const { sim, cell } = solo(400);
+    sim.entities.push({ id: 'v-test', type: 'virus', x: cell.x, y: cell.y, radius: VIRUS_RADIUS, color: '#22c55e', mass: VIRUS_MASS });
+    sim.step();
+    const cells = sim.cellsOf('p');
+    expect(cells.length).toBeGreaterThan(1);
+    expect(sim.entities.some(e => e.id === 'v-test')).toBe(false);
+    expect(cells.reduce((sum, c) => sum + c.mass, 0)).toBeCloseTo(400 + VIRUS_MASS);
+  });
+
+  it('leaves allied cells alone and eats hostile ones', () => {
+    const { sim, cell } = solo(500, CellClass.PREDATOR, Faction.SYNTHETIC);
+    sim.entities.push(aiCell('ally', cell, 40, Faction.SYNTHETIC), aiCell('foe', cell, 40, Faction.VOID));
+    for (let t = 0; t < 30 && sim.entities.some(e => e.id === 'foe'); t++) sim.step();
+    expect(sim.entities.some(e => e.id === 'foe')).toBe(false);
+    expect(sim.entities.some(e => e.id === 'ally')).toBe(true);
+  });
+
+  it('reports what ate the player when its last cell goes', () => {
+    const { sim, cell } = solo(30);
+    sim.entities.push({ ...aiCell('big', cell, 500, Faction.VOID), name: 'BIG' });
+    let death;
+    for (let t = 0; t < 30 && !death; t++) death = sim.step().find(e => e.type === 'death');
+    expect(death).toMatchObject({ playerId: 'p', report: { class: CellClass.PREDATOR, cause: { kind: 'cell', name: 'BIG', isPlayer: false } } });
+  });
+
+  it('levels up and grants skill points when eating pushes XP past the bar', () => {
+    const { sim, slot, cell } = solo(500);
+    sim.entities.push(food('pellet', cell, 100));
+    const events = sim.step();
+    expect(events).toContainEqual({ type: 'levelUp', playerId: 'p', level: 2 });
+    expect(slot.state.level).toBe(2);
+    expect(slot.state.skillPoints).toBe(SKILL_POINTS_PER_LEVEL);
+    expect(slot.state.maxExp).toBe(210);
+  });
+});
+
+describe('food', () => {
+  // Effects count down at the end of the tick the food was eaten on
+  it('multiplies XP from eating for a while after Star Dust', () => {
+    const { sim, slot, cell } = solo(100);
+    sim.entities.push(food('stardust', cell));
+    sim.step();
+    expect(slot.effects.STAR_DUST).toBe(STAR_DUST_BOOST - 1);
+    const before = slot.state.exp;
+    sim.entities.push(food('pellet', cell, 10));
+    sim.step();
+    expect(slot.state.exp - before).toBe(Math.floor(10 * 1.5 * slot.state.stats.absorption * STAR_DUST_XP_MULT));
+    for (let t = 0; t < STAR_DUST_BOOST; t++) sim.step();
+    expect(slot.effects.STAR_DUST).toBeUndefined();
+  });
+
+  it('slows a cell that eats a toxic pellet, for less time the higher its defense', () => {
+    const steps = 20;
+    const run = (cls: CellClass, toxic: boolean) => {
+      const { sim, slot, cell } = solo(100, cls);
+      if (toxic) sim.entities.push(food('toxic', cell));
+      sim.step();
+      const x = cell.x;
+      for (let t = 0; t < steps; t++) sim.step({ p: { mx: 200, my: 0 } });
+      return { toxin: slot.effects.TOXIN, defense: slot.state.stats.defense, moved: cell.x - x };
+    };
+    const clean = run(CellClass.PREDATOR, false), sick = run(CellClass.PREDATOR, true), tank = run(CellClass.TANK, true);
+    expect(sick.toxin).toBe(Math.round(TOXIN_DURATION / sick.defense) - 1 - steps);
+    expect(tank.toxin).toBe(Math.round(TOXIN_DURATION / tank.defense) - 1 - steps);
+    expect(tank.toxin).toBeLessThan(sick.toxin);
+    expect(sick.moved).toBeGreaterThan(0);
+    expect(sick.moved).toBeLessThan(clean.moved * 0.8);
+  });
+});
+
+describe('contact combat', () => {
+  const fight = (sim: Simulation) => {
+    for (let t = 0; t < PHYSICS_TPS * 10 && sim.cellsOf('p').length && sim.cellsOf('q').length; t++) sim.step();
+  };
+
+  it('settles an even fight by class: a Tank outlasts a Predator of the same mass and keeps its share', () => {
+    const { sim, cell } = solo(100, CellClass.PREDATOR);
+    const tank = rival(sim, cell, 100, CellClass.TANK);
+    fight(sim);
+    expect(sim.cellsOf('p')).toHaveLength(0);
+    expect(sim.cellsOf('q')).toEqual([tank]);
+    expect(tank.mass).toBeCloseTo(100 + 100 * massKept(CLASS_DATA[CellClass.TANK].baseStats.absorption), 0);
+    expect(tank.health).toBeLessThan(CELL_HEALTH);
+  });
+
+  it('lets a heavy cell win in a few ticks while barely scratched', () => {
+    const { sim, cell } = solo(400, CellClass.PREDATOR);
+    rival(sim, cell, 100, CellClass.SUPPORT);
+    let ticks = 0;
+    for (; ticks < PHYSICS_TPS && sim.cellsOf('q').length; ticks++) sim.step();
+    expect(sim.cellsOf('q')).toHaveLength(0);
+    expect(ticks).toBeLessThan(PHYSICS_TPS / 4);
+    expect(cell.health).toBeGreaterThan(CELL_HEALTH * 0.95);
+    expect(cell.mass).toBeCloseTo(400 + 100 * massKept(CLASS_DATA[CellClass.PREDATOR].baseStats.absorption), 0);
+  });
+
+  it('cuts damage to a fortified Tank to a third', () => {
+    const { sim, cell } = solo(100, CellClass.TANK);
+    const foe = rival(sim, cell, 100, CellClass.ASSASSIN);
+    sim.step({ p: { mx: 0, my: 0, ability: true } });
+    const assassin = CLASS_DATA[CellClass.ASSASSIN].baseStats, tank = CLASS_DATA[CellClass.TANK].baseStats;
+    expect(CELL_HEALTH - cell.health!).toBeCloseTo(contactDamage(foe, assassin, cell, fortified(tank)));
+    expect(CELL_HEALTH - cell.health!).toBeCloseTo(contactDamage(foe, assassin, cell, tank) / 3);
+  });
+
+  it('regrows health with regen once the cell has been left alone', () => {
+    const { sim, slot, cell } = solo(100, CellClass.SUPPORT);
+    Object.assign(cell, { health: 50, hitAt: sim.tick });
+    for (let t = 0; t <= COMBAT_CALM; t++) sim.step(); // the hit's own tick, then the calm
+    expect(cell.health).toBe(50);
+    sim.step();
+    expect(cell.health).toBeCloseTo(50 + HEALTH_REGEN * slot.state.stats.regen);
+    for (let t = 0; t < PHYSICS_TPS * 10 && cell.health !== undefined; t++) sim.step();
+    expect(cell.health).toBeUndefined();
+  });
+});
+
+describe('world events', () => {
+  /** Puts an event of `kind` over `at`, already running; events read the grid, so place entities and step once first. */
+  function startEvent(sim: Simulation, kind: string, at: GameEntity, extra: Partial<WorldEventState> = {}) {
+    const def = findWorldEvent(kind)!;
+    const ev: WorldEventState = {
+      id: 'event-test', kind, name: def.name, description: def.description, color: def.color,
+      x: at.x, y: at.y, radius: def.radius, startTick: sim.tick, endTick: sim.tick + def.duration, ...extra
+    };
+    sim.worldEvents.push(ev);
+    return ev;
+  }
+
+  it('spreads infection from a carrier to the cells it touches, and only those', () => {
+    const { sim, slot, cell } = solo(100, CellClass.PREDATOR, Faction.SYNTHETIC);
+    const carrier = aiCell('carrier', cell, 100, Faction.SYNTHETIC);
+    const touched = aiCell('touched', carrier, 40, Faction.SYNTHETIC);
+    const clear = { ...aiCell('clear', cell, 40, Faction.SYNTHETIC), x: cell.x + 1000 };
+    sim.entities.push(carrier, touched, clear);
+    sim.step();
+    const ev = startEvent(sim, 'infection', cell);
+    carrier.infectedUntil = ev.endTick;
+    sim.step();
+    expect(touched.infectedUntil).toBe(ev.endTick);
+    expect(clear.infectedUntil).toBeUndefined();
+    expect(slot.effects.INFECTED).toBeGreaterThan(0);
+  });
+
+  it('shatters a cell a meteor strikes and scatters a tenth of its mass as Star Dust', () => {
+    const { sim, cell } = solo(200);
+    sim.step();
+    const ev = startEvent(sim, 'meteor', cell, { startTick: sim.tick - 1 }); // between rocks, so only ours falls
+    sim.entities.push({ id: 'rock', type: 'hazard', ownerId: ev.id, x: cell.x, y: cell.y, vx: 0, vy: 0, radius: 28, color: '#f97316', mass: 0, spawnTime: sim.tick });
+    const mass = cell.mass;
+    sim.step();
+    const dust = sim.entities.filter(e => e.food === 'stardust');
+    const cells = sim.cellsOf('p');
+    expect(sim.entities.some(e => e.id === 'rock')).toBe(false);
+    expect(dust).toHaveLength(5);
+    expect(dust.every(d => d.bonusXp === STAR_DUST_XP)).toBe(true);
+    expect(cells.length).toBeGreaterThan(1);
+    expect(dust.reduce((sum, d) => sum + d.mass, 0)).toBeCloseTo(mass * 0.1);
+    expect(cells.reduce((sum, c) => sum + c.mass, 0)).toBeCloseTo(mass * 0.9);
+  });
+
+  it('puts a bounty on the two warring factions inside the zone and pays it out as XP', () => {
+    const { sim, slot, cell } = solo(500);
+    const soldier = aiCell('soldier', cell, 10, Faction.VOID);
+    const enemy = { ...aiCell('enemy', cell, 20, Faction.SYNTHETIC), x: cell.x + 800 };
+    const neutral = { ...aiCell('neutral', cell, 20, Faction.BIOLOGICAL), x: cell.x - 800 };
+    const outside = { ...aiCell('outside', cell, 20, Faction.SYNTHETIC), x: cell.x + 800, y: cell.y + 2000 };
+    sim.entities.push(soldier, enemy, neutral, outside);
+    sim.step();
+    startEvent(sim, 'factionWar', cell, { factions: [Faction.VOID, Faction.SYNTHETIC] });
+    sim.step();
+    expect(sim.entities.filter(e => e.bounty === WAR_BOUNTY).map(e => e.id).sort()).toEqual(['enemy', 'soldier']);
+    for (let t = 0; t < 30 && sim.entities.includes(soldier); t++) sim.step();
+    expect(sim.entities.includes(soldier)).toBe(false);
+    expect(slot.state.exp).toBe(Math.floor(10 * 1.5 * slot.state.stats.absorption * WAR_BOUNTY));
+  });
+});
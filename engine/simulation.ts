@@ -0,0 +1,828 @@
+
+import { PlayerState, CellClass, GameEntity, Biome, GameMap, PlayerInput, SimEvent, Stats, ClassProgress, Faction, WorldEventState, Leaderboard, LeaderboardEntry, DeathCause, DeathReport, EatenKind, FoodKind, BiomeEffect } from '../types';
+import {
+  INITIAL_MASS, CLASS_DATA, PHYSICS_TPS, MIN_SPLIT_MASS,
+  MAX_PLAYER_CELLS, EJECTED_TTL, PERSONALITIES, VIRUS_MAX, VIRUS_MASS,
+  VIRUS_RADIUS, VIRUS_SPLIT_MASS, VIRUS_POP_RATIO, VIRUS_POP_PIECES, SKILL_POINTS_PER_LEVEL, SPLIT_IMPULSE,
+  DASH_IMPULSE, GRUDGE_PER_KILL, GRUDGE_WITNESS_RADIUS, PARASITE_LATCH_RANGE, PARASITE_TETHER_SLACK,
+  PARASITE_DRAIN_RATE, HUNT_SENSE_DURATION, WORLD_EVENT_FIRST, WORLD_EVENT_INTERVAL, INFECTION_DRAIN,
+  AI_NAME_PARTS, LEADERBOARD_SIZE, MIN_CELL_MASS, VIRUS_BLAME_TICKS, MASS_SAMPLE_TICKS, MASS_HISTORY_MAX,
+  FOOD_KINDS, BIOME_FOOD, FOOD_REGROW_TICKS, STAR_DUST_BOOST, STAR_DUST_XP_MULT, TOXIN_DURATION, TOXIN_SLOW,
+  CELL_HEALTH, HEALTH_REGEN, COMBAT_CALM
+} from '../constants';
+import { SeededRng } from './rng';
+import { EntityPool, OptimizedGrid } from './grid';
+import { computeStats, emptyAllocation, allocateStat, unlockSkill } from './progression';
+import { AIContext, AIMemory, createMemory, updateAI } from './ai';
+import { sameOwner, isCell, allied, identityOf, nameOf, inBiome } from './entity';
+import { visionRadius, inDarkZone, canSee } from './visibility';
+import { healthOf, contactDamage, massKept, fortified } from './combat';
+import { WorldEventContext, findWorldEvent, rollWorldEvent } from './events';
+import { DEFAULT_MAP, biomeAt, spawnPoint } from './maps';
+
+export interface PlayerSlot {
+  state: PlayerState;
+  input: PlayerInput;
+  cooldown: number;
+  effects: Record<string, number>; // effect name -> ticks remaining
+  alive: boolean;
+  xpEarned: number;
+  peakMass: number;
+  log: SessionLog;
+}
+
+/** Bookkeeping for the death report; stays on the simulation side of the wire. */
+export interface SessionLog {
+  joinedAt: number;
+  startLevel: number;
+  eaten: Partial<Record<EatenKind, number>>;
+  massHistory: number[];
+  sampleTicks: number;
+  poppedAt: number; // last tick one of the player's cells burst on a virus
+  cause?: DeathCause; // what took the most recent cell
+}
+
+export interface AddPlayerOptions {
+  progress?: ClassProgress; // Persisted level/skill build carried over from earlier lives
+  faction?: Faction | null;
+}
+
+export interface SimulationOptions {
+  seed: number;
+  population?: number; // multiplier on the map's food and AI counts
+  map?: GameMap;
+}
+
+const IDLE_INPUT: PlayerInput = { mx: 0, my: 0 };
+const NEUTRAL_STATS: Stats = { speed: 1, absorption: 1, defense: 1, regen: 1, burst: 1 };
+
+const virusRadius = (mass: number) => VIRUS_RADIUS * Math.sqrt(mass / VIRUS_MASS);
+
+/** A food kind drawn by the odds of the biome it grows in. */
+function rollFood(rng: SeededRng, effect: BiomeEffect): FoodKind {
+  const mix = BIOME_FOOD[effect].mix;
+  let roll = rng.next() * Object.values(mix).reduce((a, b) => a + b, 0);
+  for (const kind in mix) if ((roll -= mix[kind as FoodKind]) < 0) return kind as FoodKind;
+  return 'pellet';
+}
+
+/** Unique AI names, drawn from their own stream so naming never shifts the world's RNG. */
+function aiNames(seed: number, count: number): string[] {
+  const rng = new SeededRng(seed ^ 0x9e3779b9);
+  const seen = new Map<string, number>();
+  return Array.from({ length: count }, () => {
+    const base = rng.pick(AI_NAME_PARTS.first) + rng.pick(AI_NAME_PARTS.last);
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    return n > 1 ? `${base} ${n}` : base;
+  });
+}
+
+/**
+ * Headless world simulation. Owns every entity, the seeded RNG and the
+ * spatial grid; advances one fixed step per `step()` call. No DOM, no wall
+ * clock: identical seeds and input streams always produce identical worlds.
+ */
+export class Simulation {
+  readonly rng: SeededRng;
+  readonly map: GameMap;
+  entities: GameEntity[] = [];
+  players = new Map<string, PlayerSlot>();
+  tick = 0;
+  worldEvents: WorldEventState[] = [];
+  private nextWorldEvent = WORLD_EVENT_FIRST;
+  private grid: OptimizedGrid;
+  private index = new Map<string, number>(); // cell id -> position in `entities`, rebuilt with the grid
+  private pool = new EntityPool();
+  private nextId = 0;
+  private events: SimEvent[] = [];
+  private aiMemory = new Map<string, AIMemory>(); // keyed by AI identity, shared by its fragments
+  private regrowth: { at: number; food: GameEntity }[] = []; // eaten pellets waiting to grow back, in no order
+
+  constructor(opts: SimulationOptions) {
+    this.rng = new SeededRng(opts.seed);
+    this.map = opts.map || DEFAULT_MAP;
+    this.grid = new OptimizedGrid(this.map.size);
+    this.populate(opts.seed, opts.population || 1);
+  }
+
+  get biomes(): Biome[] { return this.map.biomes; }
+
+  private populate(seed: number, population: number) {
+    const { rng, map } = this;
+    for (let i = 0; i < map.food * population; i++) {
+      const f = this.pool.get('food');
+      f.id = `f-${i}`;
+      this.growFood(f);
+      this.entities.push(f);
+    }
+    const classes = Object.values(CellClass);
+    const factions = [Faction.BIOLOGICAL, Faction.SYNTHETIC, Faction.VOID];
+    const persKeys = Object.keys(PERSONALITIES) as (keyof typeof PERSONALITIES)[];
+    const names = aiNames(seed, Math.ceil(map.ai * population));
+    for (let i = 0; i < map.ai * population; i++) {
+      const cls = rng.pick(classes);
+      const personality = PERSONALITIES[rng.pick(persKeys)];
+      const faction = rng.pick(factions);
+      const p = spawnPoint(map, rng, 'ai');
+      this.entities.push({ id: `ai-${i}`, type: 'ai', name: names[i], x: p.x, y: p.y, radius: 20, color: CLASS_DATA[cls].color, mass: 80 + rng.next()*1200, class: cls, personality, faction });
+    }
+    map.viruses.forEach((v, i) => this.entities.push({ id: `v-${i}`, type: 'virus', x: v.x, y: v.y, radius: VIRUS_RADIUS, color: '#22c55e', mass: VIRUS_MASS }));
+    this.rebuildGrid();
+  }
+
+  /** Moves a catalogue pellet to a fresh spawn point and rerolls its kind for the biome there. */
+  private growFood(f: GameEntity) {
+    const p = spawnPoint(this.map, this.rng, 'food');
+    const kind = rollFood(this.rng, biomeAt(this.map.biomes, p)?.effect ?? 'normal');
+    const def = FOOD_KINDS[kind];
+    f.x = p.x; f.y = p.y; f.food = kind; f.mass = def.mass; f.radius = def.radius; f.color = def.color;
+  }
+
+  private regrow() {
+    if (!this.regrowth.some(r => r.at <= this.tick)) return;
+    this.regrowth = this.regrowth.filter(r => {
+      if (r.at > this.tick) return true;
+      this.growFood(r.food);
+      this.entities.push(r.food);
+      return false;
+    });
+  }
+
+  addPlayer(id: string, name: string, cls: CellClass, { progress, faction }: AddPlayerOptions = {}): PlayerSlot {
+    const { level = 1, exp = 0, maxExp = 100, skillPoints = 0 } = progress || {};
+    const allocated = progress ? { ...progress.allocated } : emptyAllocation();
+    const skills = progress ? [...progress.skills] : [];
+    const state: PlayerState = { id, name, level, exp, maxExp, class: cls, mass: INITIAL_MASS, stats: computeStats(cls, allocated, skills), allocated, skillPoints, skills };
+    const log: SessionLog = { joinedAt: this.tick, startLevel: level, eaten: {}, massHistory: [], sampleTicks: MASS_SAMPLE_TICKS, poppedAt: -Infinity };
+    const slot: PlayerSlot = { state, input: IDLE_INPUT, cooldown: 0, effects: {}, alive: true, xpEarned: 0, peakMass: INITIAL_MASS, log };
+    const { x, y } = this.dropPoint();
+    this.players.set(id, slot);
+    this.entities.push({ id, type: 'player', ownerId: id, name, x, y, radius: Math.sqrt(INITIAL_MASS) * 4, color: CLASS_DATA[cls].color, mass: INITIAL_MASS, class: cls, mergeTimer: 0, faction: faction ?? undefined });
+    return slot;
+  }
+
+  /** The first player starts at the center (or the first spawn zone's); later arrivals drop in somewhere else. */
+  private dropPoint(): { x: number; y: number } {
+    const crowded = [...this.players.values()].some(s => s.alive);
+    const { size, playerSpawns } = this.map;
+    if (playerSpawns?.length) {
+      const zone = crowded ? this.rng.pick(playerSpawns) : playerSpawns[0];
+      if (!crowded) return { x: zone.x, y: zone.y };
+      const a = this.rng.next() * Math.PI * 2, d = Math.sqrt(this.rng.next()) * zone.r;
+      return { x: zone.x + Math.cos(a) * d, y: zone.y + Math.sin(a) * d };
+    }
+    return crowded
+      ? { x: size * (0.2 + this.rng.next() * 0.6), y: size * (0.2 + this.rng.next() * 0.6) }
+      : { x: size / 2, y: size / 2 };
+  }
+
+  removePlayer(id: string) {
+    this.players.delete(id);
+    this.entities = this.entities.filter(e => e.ownerId !== id);
+    this.rebuildGrid();
+  }
+
+  cellsOf(playerId: string): GameEntity[] {
+    return this.entities.filter(e => e.type === 'player' && e.ownerId === playerId);
+  }
+
+  /** Advances the world by one fixed tick and returns the events it produced. */
+  step(inputs: Record<string, PlayerInput> = {}): SimEvent[] {
+    this.events = [];
+    this.players.forEach((slot, id) => {
+      slot.input = inputs[id] || { mx: slot.input.mx, my: slot.input.my };
+      if (slot.input.allocate) allocateStat(slot.state, slot.input.allocate);
+      if (slot.input.unlock) unlockSkill(slot.state, slot.input.unlock);
+      if (!slot.alive) return;
+      if (slot.input.split) this.split(id);
+      if (slot.input.eject) this.eject(id);
+      if (slot.input.ability) this.ability(id);
+    });
+    this.runWorldEvents();
+    this.regrow();
+    this.runPhysics();
+    this.tick++;
+    return this.events;
+  }
+
+  /** Player cells use their owner's build, reshaped by Fortify; AI cells use their class defaults. */
+  private statsOf(e: GameEntity): Stats {
+    const slot = e.type === 'player' && e.ownerId ? this.players.get(e.ownerId) : undefined;
+    if (slot) return slot.effects.FORTIFIED ? fortified(slot.state.stats) : slot.state.stats;
+    return e.class ? CLASS_DATA[e.class].baseStats : NEUTRAL_STATS;
+  }
+
+  memoryOf(e: GameEntity): AIMemory {
+    const key = identityOf(e);
+    let mem = this.aiMemory.get(key);
+    if (!mem) { mem = createMemory(); this.aiMemory.set(key, mem); }
+    return mem;
+  }
+
+  /** Flags every entity with whether the given player's cells can currently see it. */
+  markVisibility(playerId: string) {
+    const eyes = this.cellsOf(playerId).map(c => ({ cell: c, range: visionRadius(c, inDarkZone(this.biomes, c)) }));
+    for (const e of this.entities) {
+      e.isVisible = (e.type === 'player' && e.ownerId === playerId) || eyes.some(v => canSee(this.biomes, v.cell, v.range, e, false));
+    }
+  }
+
+  private noteEaten(eater: GameEntity, kind: EatenKind) {
+    const slot = eater.type === 'player' && eater.ownerId ? this.players.get(eater.ownerId) : undefined;
+    if (slot) slot.log.eaten[kind] = (slot.log.eaten[kind] || 0) + 1;
+  }
+
+  /** A player cell drained away: blame the harmful biome it sat in, else whatever was bleeding it. */
+  private drainCause(cell: GameEntity, slot: PlayerSlot): DeathCause {
+    const biome = biomeAt(this.biomes, cell);
+    if (biome && (biome.effect === 'toxic' || biome.effect === 'lava')) return { kind: 'drain', source: biome.name, effect: biome.effect };
+    return { kind: 'drain', source: slot.effects.INFECTED ? 'Infection' : 'Parasite' };
+  }
+
+  private deathReport(slot: PlayerSlot): DeathReport {
+    const { state, log } = slot;
+    let cause: DeathCause = log.cause || { kind: 'drain', source: 'Unknown' };
+    if (this.tick - log.poppedAt <= VIRUS_BLAME_TICKS) cause = { kind: 'virus', finisher: cause.kind === 'cell' ? cause.name : undefined };
+    return {
+      name: state.name, class: state.class, map: this.map.name, cause,
+      ticks: this.tick - log.joinedAt,
+      peakMass: Math.floor(slot.peakMass),
+      eaten: { ...log.eaten },
+      xpEarned: Math.floor(slot.xpEarned),
+      levelsGained: state.level - log.startLevel,
+      massHistory: [...log.massHistory, 0],
+      sampleTicks: log.sampleTicks
+    };
+  }
+
+  /** Samples mass for the report's chart, halving the resolution whenever the buffer fills. */
+  private sampleMass(slot: PlayerSlot) {
+    const { log } = slot;
+    if ((this.tick - log.joinedAt) % log.sampleTicks !== 0) return;
+    log.massHistory.push(Math.floor(slot.state.mass));
+    if (log.massHistory.length > MASS_HISTORY_MAX) {
+      log.massHistory = log.massHistory.filter((_, i) => i % 2 === 0);
+      log.sampleTicks *= 2;
+    }
+  }
+
+  /** Total mass per player or AI, biggest first, plus where `playerId` stands. */
+  leaderboard(playerId: string, size = LEADERBOARD_SIZE): Leaderboard {
+    const totals = new Map<string, LeaderboardEntry>();
+    for (const e of this.entities) {
+      if (!isCell(e)) continue;
+      const id = identityOf(e);
+      const entry = totals.get(id);
+      if (entry) entry.mass += e.mass;
+      else totals.set(id, { id, name: nameOf(e), mass: e.mass, isPlayer: e.type === 'player' });
+    }
+    const ranked = [...totals.values()].sort((a, b) => b.mass - a.mass);
+    ranked.forEach(r => { r.mass = Math.floor(r.mass); });
+    return { top: ranked.slice(0, size), rank: ranked.findIndex(r => r.id === playerId) + 1, total: ranked.length };
+  }
+
+  /** One feed event per killer and victim each tick, however many cells it took. */
+  private reportKills(kills: [GameEntity, GameEntity][]) {
+    const feed = new Map<string, Extract<SimEvent, { type: 'kill' }>>();
+    for (const [attacker, victim] of kills) {
+      const killerId = identityOf(attacker), victimId = identityOf(victim);
+      const key = `${killerId}>${victimId}`;
+      const ev = feed.get(key);
+      if (ev) ev.mass += victim.mass;
+      else feed.set(key, { type: 'kill', killerId, killer: nameOf(attacker), victimId, victim: nameOf(victim), mass: victim.mass });
+    }
+    feed.forEach(ev => { ev.mass = Math.floor(ev.mass); this.events.push(ev); });
+  }
+
+  /** The victim's owner and every allied AI that saw it happen hold a grudge against the attacker. */
+  private recordKill(attacker: GameEntity, victim: GameEntity) {
+    const culprit = identityOf(attacker);
+    if (victim.type === 'ai') {
+      const mem = this.memoryOf(victim);
+      mem.grudges[culprit] = (mem.grudges[culprit] || 0) + GRUDGE_PER_KILL;
+    }
+    const count = this.grid.getNearbyInto(victim.x, victim.y, GRUDGE_WITNESS_RADIUS);
+    for (let k = 0; k < count; k++) {
+      const w = this.entities[this.grid.results[k]];
+      if (!w || w.type !== 'ai' || !(allied(w, victim) || sameOwner(w, victim))) continue;
+      if (identityOf(w) === culprit || Math.hypot(w.x - victim.x, w.y - victim.y) > GRUDGE_WITNESS_RADIUS) continue;
+      const mem = this.memoryOf(w);
+      mem.grudges[culprit] = (mem.grudges[culprit] || 0) + GRUDGE_PER_KILL * 0.5;
+    }
+  }
+
+  private direction(playerId: string) {
+    const { mx, my } = this.players.get(playerId)!.input;
+    const d = Math.sqrt(mx*mx + my*my) || 0.001;
+    return { nx: mx / d, ny: my / d };
+  }
+
+  private split(playerId: string) {
+    this.shakeOffParasites(playerId);
+    const playerCells = this.cellsOf(playerId);
+    if (playerCells.length >= MAX_PLAYER_CELLS) return;
+    const { nx, ny } = this.direction(playerId);
+    const impulse = SPLIT_IMPULSE * Math.sqrt(this.players.get(playerId)!.state.stats.burst);
+
+    const newCells: GameEntity[] = [];
+    playerCells.forEach(cell => {
+      if (cell.mass >= MIN_SPLIT_MASS && playerCells.length + newCells.length < MAX_PLAYER_CELLS) {
+        const halfMass = cell.mass / 2;
+        cell.mass = halfMass;
+        cell.radius = Math.sqrt(halfMass) * 4;
+        cell.mergeTimer = PHYSICS_TPS * 15;
+
+        newCells.push({
+          id: `psplit-${this.nextId++}`,
+          type: 'player',
+          ownerId: playerId,
+          x: cell.x + nx * cell.radius * 2,
+          y: cell.y + ny * cell.radius * 2,
+          vx: nx * impulse,
+          vy: ny * impulse,
+          radius: cell.radius,
+          mass: halfMass,
+          color: cell.color,
+          name: cell.name,
+          class: cell.class,
+          faction: cell.faction,
+          health: cell.health,
+          hitAt: cell.hitAt,
+          mergeTimer: PHYSICS_TPS * 15,
+          spawnTime: this.tick
+        });
+      }
+    });
+    this.entities.push(...newCells);
+  }
+
+  private eject(playerId: string) {
+    const playerCells = this.cellsOf(playerId).filter(e => e.mass > 45);
+    const { nx, ny } = this.direction(playerId);
+    const ejectedArr: GameEntity[] = [];
+    playerCells.forEach(cell => {
+      cell.mass -= 18;
+      cell.radius = Math.sqrt(cell.mass) * 4;
+
+      const e = this.pool.get('ejected');
+      e.id = `ej-${this.nextId++}`;
+      e.ownerId = playerId;
+      e.x = cell.x + nx * (cell.radius + 15);
+      e.y = cell.y + ny * (cell.radius + 15);
+      e.vx = nx * 24;
+      e.vy = ny * 24;
+      e.radius = 12;
+      e.mass = 16;
+      e.color = cell.color;
+      e.spawnTime = this.tick;
+      e.mergeTimer = PHYSICS_TPS * 0.8; // Short 0.8s protection to prevent instant self-absorb upon birth, but allow it immediately after
+      ejectedArr.push(e);
+    });
+    this.entities.push(...ejectedArr);
+  }
+
+  private ability(playerId: string) {
+    const slot = this.players.get(playerId)!;
+    if (slot.cooldown > 0) return;
+    const cls = slot.state.class;
+
+    if (cls === CellClass.ASSASSIN) {
+      const { nx, ny } = this.direction(playerId);
+      const impulse = DASH_IMPULSE * Math.sqrt(slot.state.stats.burst);
+      this.cellsOf(playerId).forEach(e => {
+        e.vx = nx * impulse; e.vy = ny * impulse;
+        e.mass *= 0.95;
+      });
+      slot.cooldown = 180;
+    } else if (cls === CellClass.TANK) {
+      slot.effects.FORTIFIED = PHYSICS_TPS * 5;
+      slot.cooldown = 500;
+    } else if (cls === CellClass.SUPPORT) {
+      const p = this.cellsOf(playerId)[0];
+      if (p) {
+        for (let i = 0; i < 10; i++) {
+          const f = this.pool.get('food');
+          f.id = `spore-${this.nextId++}`; f.x = p.x + (this.rng.next()-0.5)*300; f.y = p.y + (this.rng.next()-0.5)*300;
+          f.radius = 4; f.color = '#fbbf24'; f.mass = 5; this.entities.push(f);
+        }
+      }
+      slot.cooldown = 300;
+    } else if (cls === CellClass.PARASITE) {
+      if (this.latch(playerId)) {
+        slot.effects.LATCHED = PHYSICS_TPS * 6;
+        slot.cooldown = 420;
+      }
+    } else if (cls === CellClass.PREDATOR) {
+      slot.effects.HUNT_SENSE = Math.round(HUNT_SENSE_DURATION * slot.state.stats.burst);
+      slot.cooldown = 600;
+    }
+  }
+
+  /** Hooks the player's biggest cell onto the nearest larger hostile cell in reach. */
+  private latch(playerId: string): boolean {
+    const cell = this.cellsOf(playerId).reduce<GameEntity | null>((best, c) => !best || c.mass > best.mass ? c : best, null);
+    if (!cell) return false;
+    let host: GameEntity | null = null, bestGap = PARASITE_LATCH_RANGE;
+    this.entities.forEach(h => {
+      if (!isCell(h) || sameOwner(cell, h) || allied(cell, h) || h.mass <= cell.mass * 1.1) return;
+      const gap = Math.hypot(h.x - cell.x, h.y - cell.y) - h.radius - cell.radius;
+      if (gap < bestGap) { bestGap = gap; host = h; }
+    });
+    if (!host) return false;
+    cell.latchedTo = (host as GameEntity).id;
+    return true;
+  }
+
+  /** Splitting shakes off every parasite attached to the splitting player. */
+  private shakeOffParasites(playerId: string) {
+    const own = new Set(this.cellsOf(playerId).map(c => c.id));
+    this.entities.forEach(e => { if (e.latchedTo && own.has(e.latchedTo)) e.latchedTo = undefined; });
+  }
+
+  /** A cell that runs over a virus swallows it and bursts. */
+  private popCell(cell: GameEntity, virus: GameEntity, spawned: GameEntity[]) {
+    cell.mass += virus.mass;
+    this.fragment(cell, spawned);
+  }
+
+  /** Bursts a cell into radial fragments sharing its owner. */
+  private fragment(cell: GameEntity, spawned: GameEntity[]) {
+    const ownerId = cell.ownerId || cell.id;
+    cell.ownerId = ownerId;
+    const isOwn = (e: GameEntity) => e.type === cell.type && e.ownerId === ownerId;
+    const existing = this.entities.filter(isOwn).length + spawned.filter(isOwn).length;
+    const pieces = Math.min(MAX_PLAYER_CELLS - existing, VIRUS_POP_PIECES, Math.floor(cell.mass / 2 / 12));
+    cell.mergeTimer = PHYSICS_TPS * 15;
+    if (pieces <= 0) return;
+
+    const pieceMass = cell.mass / 2 / pieces;
+    cell.mass /= 2;
+    cell.radius = Math.sqrt(cell.mass) * 4;
+    const offset = this.rng.next() * Math.PI * 2;
+    for (let k = 0; k < pieces; k++) {
+      const angle = offset + (k / pieces) * Math.PI * 2;
+      const nx = Math.cos(angle), ny = Math.sin(angle);
+      spawned.push({
+        id: cell.type === 'player' ? `psplit-${this.nextId++}` : `aisplit-${this.nextId++}`,
+        type: cell.type,
+        ownerId,
+        x: cell.x + nx * cell.radius,
+        y: cell.y + ny * cell.radius,
+        vx: nx * 30,
+        vy: ny * 30,
+        radius: Math.sqrt(pieceMass) * 4,
+        mass: pieceMass,
+        color: cell.color,
+        name: cell.name,
+        class: cell.class,
+        personality: cell.personality,
+        faction: cell.faction,
+        health: cell.health,
+        hitAt: cell.hitAt,
+        mergeTimer: PHYSICS_TPS * 15,
+        spawnTime: this.tick
+      });
+    }
+  }
+
+  /** Ejected mass grows a virus; once full it resets and fires a new virus along the feed direction. */
+  private feedVirus(virus: GameEntity, food: GameEntity, spawned: GameEntity[]) {
+    virus.mass += food.mass;
+    virus.radius = virusRadius(virus.mass);
+    if (virus.mass < VIRUS_SPLIT_MASS) return;
+
+    virus.mass = VIRUS_MASS;
+    virus.radius = VIRUS_RADIUS;
+    const virusCount = this.entities.reduce((n, e) => n + (e.type === 'virus' ? 1 : 0), 0) + spawned.length;
+    if (virusCount >= VIRUS_MAX) return;
+
+    let dx = food.vx || 0, dy = food.vy || 0;
+    if (Math.hypot(dx, dy) < 0.5) { dx = virus.x - food.x; dy = virus.y - food.y; }
+    const d = Math.hypot(dx, dy) || 1;
+    const nx = dx / d, ny = dy / d;
+    spawned.push({
+      id: `v-${this.nextId++}`,
+      type: 'virus',
+      x: virus.x + nx * VIRUS_RADIUS * 2,
+      y: virus.y + ny * VIRUS_RADIUS * 2,
+      vx: nx * 40,
+      vy: ny * 40,
+      radius: VIRUS_RADIUS,
+      color: virus.color,
+      mass: VIRUS_MASS
+    });
+  }
+
+  /** Starts a rolled event once the quiet period is over, runs the active ones and retires expired ones. */
+  private runWorldEvents() {
+    const spawned: GameEntity[] = [];
+    const removed = new Set<GameEntity>();
+    const ctx: WorldEventContext = {
+      entities: this.entities, players: this.players, rng: this.rng, biomes: this.biomes, mapSize: this.map.size, tick: this.tick,
+      nearby: (x, y, radius) => {
+        const count = this.grid.getNearbyInto(x, y, radius);
+        const out: GameEntity[] = [];
+        for (let k = 0; k < count; k++) {
+          const e = this.entities[this.grid.results[k]];
+          if (e && !removed.has(e)) out.push(e);
+        }
+        return out;
+      },
+      spawn: (prefix, e) => { const ent = { ...e, id: `${prefix}-${this.nextId++}` }; spawned.push(ent); return ent; },
+      remove: e => { removed.add(e); },
+      fragment: cell => this.fragment(cell, spawned),
+      memoryOf: e => this.memoryOf(e)
+    };
+
+    if (this.worldEvents.length === 0 && this.tick >= this.nextWorldEvent) {
+      const def = rollWorldEvent(this.rng);
+      const ev: WorldEventState = {
+        id: `event-${this.nextId++}`, kind: def.kind, name: def.name, description: def.description, color: def.color,
+        x: def.radius + this.rng.next() * (this.map.size - def.radius * 2), y: def.radius + this.rng.next() * (this.map.size - def.radius * 2),
+        radius: def.radius, startTick: this.tick, endTick: this.tick + def.duration
+      };
+      def.start(ctx, ev);
+      this.worldEvents.push(ev);
+      this.events.push({ type: 'worldEvent', phase: 'start', event: ev });
+    }
+
+    this.worldEvents = this.worldEvents.filter(ev => {
+      const def = findWorldEvent(ev.kind);
+      if (!def) return false;
+      if (this.tick < ev.endTick) { def.update?.(ctx, ev); return true; }
+      def.end?.(ctx, ev);
+      this.nextWorldEvent = this.tick + WORLD_EVENT_INTERVAL;
+      this.events.push({ type: 'worldEvent', phase: 'end', event: ev });
+      return false;
+    });
+
+    if (removed.size > 0 || spawned.length > 0) {
+      this.entities = this.entities.filter(e => !removed.has(e));
+      this.entities.push(...spawned);
+      this.rebuildGrid();
+    }
+  }
+
+  private rebuildGrid() {
+    this.grid.clear();
+    this.index.clear();
+    for (let i = 0; i < this.entities.length; i++) {
+      const e = this.entities[i];
+      this.grid.insert(e.x, e.y, e.radius, i);
+      if (isCell(e)) this.index.set(e.id, i); // only cells are ever looked up, and pellets are most of the world
+    }
+  }
+
+  /** Constant-time lookup of a cell through the index rebuilt alongside the grid. */
+  cellById(id: string): GameEntity | undefined {
+    const i = this.index.get(id);
+    const e = i === undefined ? undefined : this.entities[i];
+    return e && e.id === id ? e : undefined;
+  }
+
+  private runPhysics() {
+    const { entities, biomes, rng, grid } = this;
+    const { size } = this.map;
+    const tickCount = this.tick;
+    const playerIndices = new Map<string, number[]>();
+    const centers = new Map<string, { x: number; y: number; mass: number }>();
+
+    for (let i = 0; i < entities.length; i++) {
+      const ent = entities[i];
+      if (ent.type !== 'player' || !ent.ownerId) continue;
+      let c = centers.get(ent.ownerId);
+      if (!c) { c = { x: 0, y: 0, mass: 0 }; centers.set(ent.ownerId, c); playerIndices.set(ent.ownerId, []); }
+      playerIndices.get(ent.ownerId)!.push(i);
+      c.x += ent.x * ent.mass;
+      c.y += ent.y * ent.mass;
+      c.mass += ent.mass;
+    }
+    centers.forEach(c => { c.x /= c.mass; c.y /= c.mass; });
+    const aiCtx: AIContext = { entities, grid, byId: id => this.cellById(id), rng, biomes, tick: tickCount, centers };
+    const xpGain = new Map<string, number>();
+
+    for (let i = 0; i < entities.length; i++) {
+      const e = entities[i];
+      if (!e || e.type === 'food' || e.type === 'hazard') continue;
+      if (e.type === 'virus') {
+        if (e.vx || e.vy) {
+          e.x += e.vx || 0; e.y += e.vy || 0;
+          e.vx = Math.abs(e.vx || 0) > 0.1 ? (e.vx || 0) * 0.9 : 0;
+          e.vy = Math.abs(e.vy || 0) > 0.1 ? (e.vy || 0) * 0.9 : 0;
+          e.x = Math.max(0, Math.min(size, e.x)); e.y = Math.max(0, Math.min(size, e.y));
+        }
+        continue;
+      }
+      const slot = e.type === 'player' && e.ownerId ? this.players.get(e.ownerId) : undefined;
+
+      if (e.mergeTimer && e.mergeTimer > 0) e.mergeTimer--;
+
+      const stats = this.statsOf(e);
+      let speedMult = 1, inDark = false;
+      biomes.forEach(b => {
+        if (inBiome(e, b)) {
+          if (b.effect === 'dark') inDark = true;
+          if (b.effect === 'toxic') e.mass *= 1 - 0.0002 / stats.defense;
+          if (b.effect === 'lava') { e.mass *= 1 - 0.0005 / stats.defense; speedMult = 1.25; }
+          if (b.effect === 'nutrient') e.mass *= 1 + 0.0004 * stats.regen;
+        }
+      });
+
+      let baseSpeed = (stats.speed * 8.2 * speedMult) / (1 + Math.sqrt(e.mass) / 15);
+
+      if (e.health !== undefined && tickCount - (e.hitAt || 0) > COMBAT_CALM) {
+        e.health += HEALTH_REGEN * stats.regen;
+        if (e.health >= CELL_HEALTH) e.health = e.hitAt = undefined;
+      }
+      if (slot && slot.effects.INFECTED) e.mass *= 1 - INFECTION_DRAIN / stats.defense;
+      if (slot && slot.effects.TOXIN) baseSpeed *= TOXIN_SLOW;
+
+      if (e.type === 'ejected') {
+        e.x += e.vx || 0; e.y += e.vy || 0;
+        if (e.vx) e.vx *= 0.92; if (e.vy) e.vy *= 0.92;
+      } else if (slot) {
+        const center = centers.get(e.ownerId!)!;
+        const dxMouse = slot.input.mx, dyMouse = slot.input.my;
+        const dMouse = Math.sqrt(dxMouse*dxMouse + dyMouse*dyMouse) || 0.001;
+
+        const dxCenter = center.x - e.x, dyCenter = center.y - e.y;
+        const distCenter = Math.sqrt(dxCenter*dxCenter + dyCenter*dyCenter) || 0.001;
+        const cohesionStrength = distCenter > e.radius * 2 ? 0.08 : 0.02;
+
+        e.x += (e.vx || 0); e.y += (e.vy || 0);
+        if (e.vx) e.vx *= 0.88; if (e.vy) e.vy *= 0.88;
+
+        const host = e.latchedTo ? this.cellById(e.latchedTo) : undefined;
+        const gap = host ? Math.hypot(host.x - e.x, host.y - e.y) - host.radius - e.radius : Infinity;
+        if (e.latchedTo && (!host || !slot.effects.LATCHED || gap > PARASITE_TETHER_SLACK)) e.latchedTo = undefined;
+
+        if (host && e.latchedTo) {
+          // Reel in along the tether and ride the host's membrane, feeding while in contact
+          const dx = host.x - e.x, dy = host.y - e.y;
+          const d = Math.hypot(dx, dy) || 0.001;
+          const pull = Math.min(baseSpeed * 1.5, d - host.radius - e.radius * 0.5);
+          e.x += (dx / d) * pull; e.y += (dy / d) * pull;
+          if (gap < 20) {
+            const drain = Math.min(host.mass * PARASITE_DRAIN_RATE * stats.burst, 2 + e.mass * 0.01);
+            host.mass -= drain;
+            e.mass += drain * stats.absorption;
+            xpGain.set(e.ownerId!, (xpGain.get(e.ownerId!) || 0) + drain * stats.absorption * 1.5);
+          }
+        } else if (dMouse > 5) {
+          e.x += (dxMouse / dMouse) * baseSpeed;
+          e.y += (dyMouse / dMouse) * baseSpeed;
+        }
+
+        e.x += (dxCenter / distCenter) * baseSpeed * cohesionStrength;
+        e.y += (dyCenter / distCenter) * baseSpeed * cohesionStrength;
+      } else if (e.type === 'ai') {
+        updateAI(aiCtx, e, i, this.memoryOf(e), baseSpeed, inDark);
+      }
+      e.x = Math.max(0, Math.min(size, e.x)); e.y = Math.max(0, Math.min(size, e.y));
+      e.radius = Math.sqrt(e.mass) * 4;
+    }
+
+    playerIndices.forEach(indices => {
+      for (let a = 0; a < indices.length; a++) {
+        const ea = entities[indices[a]];
+        if (!ea) continue;
+        for (let b = a + 1; b < indices.length; b++) {
+          const eb = entities[indices[b]];
+          if (!eb) continue;
+          const dx = ea.x - eb.x, dy = ea.y - eb.y;
+          const distSq = dx*dx + dy*dy, min = ea.radius + eb.radius;
+          if (distSq < min * min) {
+            const dist = Math.sqrt(distSq) || 0.001;
+            const force = (min - dist) * ( (ea.mergeTimer === 0 && eb.mergeTimer === 0) ? 0.02 : 0.4 );
+            ea.x += (dx / dist) * force; ea.y += (dy / dist) * force;
+            eb.x -= (dx / dist) * force; eb.y -= (dy / dist) * force;
+          }
+        }
+      }
+    });
+
+    this.rebuildGrid();
+
+    const deadSet = new Set<number>();
+    const spawned: GameEntity[] = [];
+    const kills: [GameEntity, GameEntity][] = [];
+    for (let i = 0; i < entities.length; i++) {
+      const a = entities[i];
+      if (!a || deadSet.has(i)) continue;
+      if (a.type === 'ejected' && a.spawnTime !== undefined && tickCount - a.spawnTime > EJECTED_TTL) { deadSet.add(i); continue; }
+      if (a.type !== 'player' && a.type !== 'ai' && a.type !== 'virus' && a.type !== 'ejected') continue;
+      const owner = a.type === 'player' && a.ownerId ? this.players.get(a.ownerId) : undefined;
+      if (owner && a.mass < MIN_CELL_MASS) { owner.log.cause = this.drainCause(a, owner); deadSet.add(i); continue; }
+
+      // Every interaction below needs the two to overlap, so the grid culls the pellets that don't
+      const count = grid.getTouchingInto(a.x, a.y, a.radius);
+      for (let k = 0; k < count; k++) {
+        const j = grid.results[k]; if (i === j || deadSet.has(j)) continue;
+        const b = entities[j];
+        if (!b) continue;
+
+        const distSq = (a.x-b.x)**2 + (a.y-b.y)**2;
+        if (a.type === 'virus') {
+          // Viruses never eat cells, they only swallow ejected mass
+          if (b.type === 'ejected' && distSq < a.radius**2) { this.feedVirus(a, b, spawned); deadSet.add(j); }
+          continue;
+        }
+        if (b.type === 'hazard') continue;
+        if (b.type === 'virus') {
+          if ((a.type === 'player' || a.type === 'ai') && distSq < (a.radius * 0.95)**2 && a.mass > b.mass * VIRUS_POP_RATIO) {
+            this.popCell(a, b, spawned); deadSet.add(j);
+            if (owner) { owner.log.poppedAt = tickCount; this.noteEaten(a, 'virus'); }
+          }
+          continue;
+        }
+        if ((a.type === 'player' || a.type === 'ai') && b.type === a.type && sameOwner(a, b)) {
+          // Sibling cells merge once both timers expire, whatever their relative size
+          if (distSq < (a.radius * 0.95)**2 && a.mass >= b.mass && (a.mergeTimer || 0) <= 0 && (b.mergeTimer || 0) <= 0) {
+            a.mass += b.mass; deadSet.add(j);
+          }
+          continue;
+        }
+        // A host and the parasite on its membrane never fight
+        if (allied(a, b) || b.latchedTo === a.id || a.latchedTo === b.id) continue;
+        const isPlayerA = a.type === 'player';
+        if (isCell(b)) {
+          // Hostile cells wear each other down on contact; the one landing the last hit absorbs the loser
+          if (!isCell(a) || distSq >= (a.radius + b.radius)**2) continue;
+          const stats = this.statsOf(a);
+          const damage = contactDamage(a, stats, b, this.statsOf(b));
+          b.health = healthOf(b) - damage;
+          b.hitAt = tickCount;
+          if (b.type === 'ai') {
+            // Wearing an AI down builds the grudge a kill would, a share at a time
+            const mem = this.memoryOf(b), culprit = identityOf(a);
+            mem.grudges[culprit] = (mem.grudges[culprit] || 0) + GRUDGE_PER_KILL * damage / CELL_HEALTH;
+          }
+          if (b.health > 0) continue;
+          a.mass += b.mass * massKept(stats.absorption); deadSet.add(j);
+          kills.push([a, b]);
+          const prey = b.type === 'player' && b.ownerId ? this.players.get(b.ownerId) : undefined;
+          if (prey) prey.log.cause = { kind: 'cell', name: nameOf(a), class: a.class, isPlayer: isPlayerA };
+        } else if (distSq < (a.radius * 0.95)**2 && a.mass > b.mass * 1.1) {
+          // Food and ejected mass are swallowed whole; players wait out the short mergeTimer on ejected blobs, their own included
+          if (isPlayerA && b.type === 'ejected' && (b.mergeTimer || 0) > 0) continue;
+          a.mass += b.mass; deadSet.add(j);
+        } else continue;
+
+        if (!isPlayerA) continue;
+        this.noteEaten(a, b.type as EatenKind);
+        if (b.type === 'ejected') continue;
+        const { absorption, defense } = this.statsOf(a);
+        const { effects } = this.players.get(a.ownerId!)!;
+        // Hunt sense sharpens digestion on top of the usual absorption
+        const sense = effects.HUNT_SENSE ? 1 + absorption * 0.5 : 1;
+        const dust = effects.STAR_DUST ? STAR_DUST_XP_MULT : 1;
+        const xp = (b.mass * 1.5 + (b.bonusXp || 0)) * absorption * sense * dust * (b.bounty || 1);
+        xpGain.set(a.ownerId!, (xpGain.get(a.ownerId!) || 0) + Math.floor(xp));
+        if (b.food === 'stardust') effects.STAR_DUST = STAR_DUST_BOOST;
+        if (b.food === 'toxic') effects.TOXIN = Math.max(effects.TOXIN || 0, Math.round(TOXIN_DURATION / defense));
+      }
+    }
+
+    if (deadSet.size > 0 || spawned.length > 0) {
+      // Compact in place rather than allocating a fresh array every tick
+      let kept = 0;
+      for (let idx = 0; idx < entities.length; idx++) {
+        const e = entities[idx];
+        if (deadSet.has(idx)) {
+          if (e.type === 'food' && e.food && !e.bonusXp) this.regrowth.push({ at: tickCount + FOOD_REGROW_TICKS[0] + rng.int(FOOD_REGROW_TICKS[1] - FOOD_REGROW_TICKS[0]), food: e });
+          else if (e.type === 'ejected') this.pool.release(e);
+          continue;
+        }
+        entities[kept++] = e;
+      }
+      entities.length = kept;
+      entities.push(...spawned);
+      this.rebuildGrid();
+    }
+    kills.forEach(([attacker, victim]) => this.recordKill(attacker, victim));
+    this.reportKills(kills);
+
+    this.players.forEach((slot, id) => {
+      if (slot.cooldown > 0) slot.cooldown--;
+      for (const fx in slot.effects) if (--slot.effects[fx] <= 0) delete slot.effects[fx];
+      if (!slot.alive) return;
+      if (!this.entities.some(e => e.type === 'player' && e.ownerId === id)) {
+        slot.alive = false;
+        this.events.push({ type: 'death', playerId: id, report: this.deathReport(slot) });
+      }
+
+      const p = slot.state;
+      const xp = xpGain.get(id) || 0;
+      p.mass = centers.get(id)?.mass || 0; p.exp += xp;
+      slot.xpEarned += xp;
+      slot.peakMass = Math.max(slot.peakMass, p.mass);
+      this.sampleMass(slot);
+      while (p.exp >= p.maxExp) {
+        p.exp -= p.maxExp; p.level++; p.maxExp = Math.floor(p.maxExp * 2.1);
+        p.skillPoints += SKILL_POINTS_PER_LEVEL;
+        this.events.push({ type: 'levelUp', playerId: id, level: p.level });
+      }
+    });
+  }
+}
@@ -0,0 +1,27 @@
+
+import { GameEntity, Biome, CellClass } from '../types';
+import { CLASS_DATA, VISION_BASE, VISION_PER_MASS, DARK_VISION_FACTOR, STEALTH_REVEAL_RANGE } from '../constants';
+import { inBiome } from './entity';
+
+export const inDarkZone = (biomes: Biome[], e: { x: number; y: number }) =>
+  biomes.some(b => b.effect === 'dark' && inBiome(e, b));
+
+/** How far a cell sees: grows with mass, scaled by class, halved inside a dark zone. */
+export function visionRadius(e: GameEntity, inDark: boolean): number {
+  const classFactor = e.class ? CLASS_DATA[e.class].vision : 1;
+  return (VISION_BASE + Math.sqrt(e.mass) * VISION_PER_MASS) * classFactor * (inDark ? DARK_VISION_FACTOR : 1);
+}
+
+export const isCloaked = (biomes: Biome[], e: GameEntity) =>
+  e.class === CellClass.ASSASSIN && (e.type === 'player' || e.type === 'ai') && inDarkZone(biomes, e);
+
+/**
+ * Whether a viewer at (x, y) with the given range can make out `target`.
+ * AIs never see a cloaked Assassin; players only catch one at point-blank range.
+ */
+export function canSee(biomes: Biome[], viewer: GameEntity, range: number, target: GameEntity, byAI: boolean): boolean {
+  const gap = Math.hypot(target.x - viewer.x, target.y - viewer.y) - target.radius;
+  if (gap > range) return false;
+  if (isCloaked(biomes, target)) return !byAI && gap - viewer.radius < STEALTH_REVEAL_RANGE;
+  return true;
+}
@@ -0,0 +1,39 @@
+
+import { CellClass } from '../types';
+import { Simulation } from '../engine/simulation';
+import { DEFAULT_MAP } from '../engine/maps';
+
+// Usage: npm run bench -- [population...]   (each population multiplies the default map's food and AI counts)
+const populations = process.argv.slice(2).map(Number).filter(n => n > 0);
+const WARMUP_TICKS = 60;
+const MEASURED_TICKS = 300;
+
+function run(population: number) {
+  const sim = new Simulation({ seed: 1, population });
+  sim.addPlayer('bench', 'BENCH', CellClass.TANK);
+  const times: number[] = [];
+  let entities = 0;
+  for (let t = 0; t < WARMUP_TICKS + MEASURED_TICKS; t++) {
+    // Sweep the cursor in a slow circle so the player keeps crossing new ground
+    const input = { mx: Math.cos(t / 90) * 300, my: Math.sin(t / 90) * 300 };
+    const start = performance.now();
+    sim.step({ bench: input });
+    sim.markVisibility('bench');
+    if (t < WARMUP_TICKS) continue;
+    times.push(performance.now() - start);
+    entities += sim.entities.length;
+  }
+  times.sort((a, b) => a - b);
+  const mean = times.reduce((s, v) => s + v, 0) / times.length;
+  return {
+    population,
+    entities: Math.round(entities / times.length),
+    'mean ms': +mean.toFixed(2),
+    'p95 ms': +times[Math.floor(times.length * 0.95)].toFixed(2),
+    'max ms': +times[times.length - 1].toFixed(2),
+    'µs/entity': +((mean * 1000) / (entities / times.length)).toFixed(2)
+  };
+}
+
+console.log(`Simulation cost per tick (${DEFAULT_MAP.food} food, ${DEFAULT_MAP.ai} AI at population 1; ${MEASURED_TICKS} ticks after ${WARMUP_TICKS} warm-up)`);
+console.table((populations.length ? populations : [1, 2, 5, 10]).map(run));
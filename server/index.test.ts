@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { CellClass } from '../types';
+import { SKILL_POINTS_PER_LEVEL, SNAPSHOT_INTERVAL, STAT_POINT_CAP } from '../constants';
+import { parseMap } from '../engine/maps';
+import { ClientMessage, ServerMessage } from '../engine/protocol';
+import { GameServer, startServer } from './index';
+
+const ARENA = parseMap({ id: 'arena', name: 'Arena', size: 6000, food: 0, ai: 0, viruses: [], biomes: [] });
+
+type Message<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+/** A ws client that queues what the server sends, so tests can wait for the message they care about. */
+async function connect(port: number) {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  const inbox: ServerMessage[] = [];
+  socket.on('message', raw => inbox.push(JSON.parse(String(raw))));
+  await new Promise((resolve, reject) => { socket.once('open', resolve); socket.once('error', reject); });
+  return {
+    socket,
+    send: (msg: ClientMessage | object) => socket.send(JSON.stringify(msg)),
+    async next<T extends ServerMessage['type']>(type: T, match: (m: Message<T>) => boolean = () => true): Promise<Message<T>> {
+      for (;;) {
+        const i = inbox.findIndex(m => m.type === type && match(m as Message<T>));
+        if (i >= 0) return inbox.splice(i, 1)[0] as Message<T>;
+        await new Promise(r => setTimeout(r, 10));
+      }
+    }
+  };
+}
+
+describe('game server', () => {
+  let server: GameServer;
+  let client: Awaited<ReturnType<typeof connect>>;
+  let playerId: string;
+
+  beforeEach(async () => {
+    server = await startServer({ port: 0, seed: 5, map: ARENA });
+    client = await connect(server.port);
+    const welcome = await client.next('welcome');
+    expect(welcome.map.id).toBe('arena');
+    playerId = welcome.playerId;
+  });
+
+  afterEach(async () => {
+    client.socket.close();
+    await server.close();
+  });
+
+  const join = async (progress?: object) => {
+    client.send({ type: 'join', name: 'A VERY LONG TESTER', cls: CellClass.PREDATOR, faction: null, progress });
+    return (await client.next('snapshot', m => m.you !== null)).you!;
+  };
+
+  /** A snapshot from a couple of broadcasts on, so it reflects everything sent before now. */
+  const fresh = () => {
+    const after = server.sim.tick + SNAPSHOT_INTERVAL * 2;
+    return client.next('snapshot', m => m.tick >= after);
+  };
+
+  it('rebuilds the build a joining player claims under the rules', async () => {
+    const { state } = await join({ level: 3, exp: 1e9, skillPoints: 99, allocated: { speed: 50, defense: 3 }, skills: ['not_a_skill'] });
+    expect(state.name).toBe('A VERY LONG ');
+    expect(state.level).toBe(3);
+    expect(state.exp).toBeLessThan(state.maxExp);
+    expect(state.allocated.speed).toBeLessThanOrEqual(STAT_POINT_CAP);
+    expect(state.skillPoints + Object.values(state.allocated).reduce((a, b) => a + b, 0)).toBe(2 * SKILL_POINTS_PER_LEVEL);
+    expect(state.skills).toEqual([]);
+  });
+
+  it('rejects malformed messages and unknown classes', async () => {
+    client.socket.send('not json');
+    expect((await client.next('error')).message).toBe('Malformed message');
+    client.send({ type: 'join', name: 'X', cls: 'Wizard', faction: null });
+    expect((await client.next('error')).message).toMatch(/Unknown class/);
+    expect(server.sim.players.has(playerId)).toBe(false);
+  });
+
+  it('ignores stat and skill requests the rules do not allow', async () => {
+    await join({ level: 2 });
+    client.send({ type: 'input', input: { mx: 0, my: 0, allocate: 'hacks', unlock: 'not_a_skill' } });
+    const { state } = (await fresh()).you!;
+    expect(state.skillPoints).toBe(SKILL_POINTS_PER_LEVEL);
+    expect(state.allocated).toEqual({ speed: 0, absorption: 0, defense: 0, regen: 0, burst: 0 });
+    expect(state.skills).toEqual([]);
+    client.send({ type: 'input', input: { mx: 0, my: 0, allocate: 'defense' } });
+    expect((await fresh()).you!.state.allocated.defense).toBe(1);
+  });
+
+  it('sends each player only the cells it can see', async () => {
+    await join();
+    const me = server.sim.cellsOf(playerId)[0];
+    const ai = (id: string, x: number, y: number) => ({ id, type: 'ai' as const, name: id, x, y, mass: 30, radius: 22, color: '#fff', class: CellClass.SUPPORT });
+    server.sim.entities.push(ai('near', me.x + 300, me.y), ai('far', 100, 100));
+    const { entities, you } = await fresh();
+    const ids = entities.map(e => e.id);
+    expect(you!.state.id).toBe(playerId);
+    expect(ids).toContain(me.id);
+    expect(ids).toContain('near');
+    expect(ids).not.toContain('far');
+  });
+});
@@ -0,0 +1,154 @@
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { pathToFileURL } from 'url';
+import { readFileSync } from 'fs';
+import { CellClass, GameMap, PlayerInput, SimEvent } from '../types';
+import { MS_PER_TICK, SERVER_PORT, SNAPSHOT_INTERVAL, FACTION_DATA, LEADERBOARD_INTERVAL } from '../constants';
+import { Simulation } from '../engine/simulation';
+import { BUILTIN_MAPS, generateMap, parseMap } from '../engine/maps';
+import { ClientMessage, ServerMessage, isEventFor, parseMessage, toView } from '../engine/protocol';
+import { STAT_KEYS, findSkill, sanitizeProgress } from '../engine/progression';
+
+export interface ServerOptions {
+  port?: number;
+  host?: string;
+  seed?: number;
+  map?: GameMap;
+}
+
+export interface GameServer {
+  sim: Simulation;
+  port: number;
+  close(): Promise<void>;
+}
+
+interface Client {
+  id: string;
+  socket: WebSocket;
+  input: PlayerInput;
+  events: SimEvent[];
+}
+
+const send = (socket: WebSocket, msg: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+};
+
+/**
+ * Runs one authoritative world for every connected browser. Clients only send
+ * inputs; the server steps the simulation at PHYSICS_TPS and answers with
+ * per-player snapshots trimmed to what that player can see.
+ */
+export function startServer({ port = SERVER_PORT, host = '127.0.0.1', seed = Date.now() >>> 0, map }: ServerOptions = {}): Promise<GameServer> {
+  const sim = new Simulation({ seed, map });
+  const clients = new Map<WebSocket, Client>();
+  const wss = new WebSocketServer({ port, host });
+  let nextClient = 0;
+
+  wss.on('connection', socket => {
+    const client: Client = { id: `p${nextClient++}`, socket, input: { mx: 0, my: 0 }, events: [] };
+    clients.set(socket, client);
+    send(socket, { type: 'welcome', playerId: client.id, map: sim.map, tick: sim.tick });
+
+    socket.on('message', raw => {
+      const msg = parseMessage<ClientMessage>(raw);
+      if (!msg) return send(socket, { type: 'error', message: 'Malformed message' });
+      if (msg.type === 'join') {
+        if (sim.players.get(client.id)?.alive) return;
+        if (!Object.values(CellClass).includes(msg.cls)) return send(socket, { type: 'error', message: `Unknown class ${msg.cls}` });
+        sim.removePlayer(client.id);
+        const faction = msg.faction !== null && msg.faction in FACTION_DATA ? msg.faction : null;
+        // The client's saved build is only a claim; the server rebuilds it under the rules
+        sim.addPlayer(client.id, String(msg.name || 'NOMAD').slice(0, 12), msg.cls, { progress: sanitizeProgress(msg.cls, msg.progress), faction });
+      } else if (msg.type === 'input') {
+        const input = msg.input || {} as PlayerInput;
+        const cls = sim.players.get(client.id)?.state.class;
+        // One-shot actions stick until the next tick consumes them, so none are lost between ticks
+        client.input = {
+          ...client.input,
+          mx: Number(input.mx) || 0,
+          my: Number(input.my) || 0,
+          ...(input.split && { split: true }),
+          ...(input.eject && { eject: true }),
+          ...(input.ability && { ability: true }),
+          ...(STAT_KEYS.includes(input.allocate!) && { allocate: input.allocate }),
+          ...(cls && typeof input.unlock === 'string' && findSkill(cls, input.unlock) && { unlock: input.unlock })
+        };
+      }
+    });
+    socket.on('close', () => {
+      clients.delete(socket);
+      sim.removePlayer(client.id);
+    });
+  });
+
+  let last = performance.now(), accumulator = 0;
+  const loop = setInterval(() => {
+    const now = performance.now();
+    accumulator += Math.min(250, now - last);
+    last = now;
+    while (accumulator >= MS_PER_TICK) {
+      const inputs: Record<string, PlayerInput> = {};
+      clients.forEach(c => {
+        inputs[c.id] = c.input;
+        c.input = { mx: c.input.mx, my: c.input.my };
+      });
+      const events = sim.step(inputs);
+      clients.forEach(c => c.events.push(...events.filter(ev => isEventFor(ev, c.id))));
+      accumulator -= MS_PER_TICK;
+      if (sim.tick % SNAPSHOT_INTERVAL === 0) broadcast();
+    }
+  }, MS_PER_TICK / 2);
+
+  function broadcast() {
+    const ranked = sim.tick % LEADERBOARD_INTERVAL === 0;
+    clients.forEach(c => {
+      sim.markVisibility(c.id);
+      const slot = sim.players.get(c.id);
+      send(c.socket, {
+        type: 'snapshot',
+        tick: sim.tick,
+        entities: sim.entities.filter(e => e.isVisible),
+        worldEvents: sim.worldEvents,
+        you: slot ? toView(slot) : null,
+        events: c.events,
+        ...(ranked && { leaderboard: sim.leaderboard(c.id) })
+      });
+      c.events = [];
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      resolve({
+        sim,
+        port: typeof address === 'object' && address ? address.port : port,
+        close: () => new Promise(done => {
+          clearInterval(loop);
+          clients.forEach(c => c.socket.terminate());
+          wss.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+/** OSMOS_MAP names a built-in map, `procedural` or `procedural:<seed>`, or a path to a map JSON file. */
+function loadMap(spec: string | undefined): GameMap | undefined {
+  if (!spec) return undefined;
+  const builtin = BUILTIN_MAPS.find(m => m.id === spec);
+  if (builtin) return builtin;
+  if (spec.startsWith('procedural')) return generateMap(Number(spec.split(':')[1]) || Date.now() >>> 0);
+  return parseMap(JSON.parse(readFileSync(spec, 'utf8')));
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const port = Number(process.env.OSMOS_PORT) || SERVER_PORT;
+  const host = process.env.OSMOS_HOST || '127.0.0.1';
+  const map = loadMap(process.env.OSMOS_MAP);
+  startServer({ port, host, map }).then(
+    server => console.log(`Osmos server listening on ws://${host}:${server.port} (${server.sim.map.name})`),
+    err => { console.error('Server failed to start', err); process.exit(1); }
+  );
+}
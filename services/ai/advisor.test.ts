@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { CellClass } from '../../types';
+import { AIProvider, GameBrief } from './provider';
+import { TacticalAdvisor, parseAdvice } from './advisor';
+
+const BRIEF: GameBrief = {
+  x: 0, y: 0, class: CellClass.PREDATOR, level: 1, mass: 100,
+  threats: [{ id: 't1', name: 'BIG', mass: 400, dx: 300, dy: 0 }],
+  prey: [{ id: 'p1', name: 'SMALL', mass: 20, dx: -200, dy: 50 }],
+  viruses: [],
+  events: []
+};
+
+describe('parseAdvice', () => {
+  it('reads fenced JSON and keeps only ids from the brief', () => {
+    const reply = '```json\n{"directive":" Run west. ","waypoint":{"dx":-500,"dy":0},"avoid":["t1","ghost",7],"chase":["p1"]}\n```';
+    expect(parseAdvice(reply, BRIEF)).toEqual({ directive: 'Run west.', waypoint: { dx: -500, dy: 0 }, avoid: ['t1'], chase: ['p1'] });
+  });
+
+  it('drops a waypoint or lists of the wrong type', () => {
+    expect(parseAdvice('{"directive":"Hold.","waypoint":{"dx":"far","dy":0},"avoid":"t1"}', BRIEF))
+      .toEqual({ directive: 'Hold.', waypoint: null, avoid: [], chase: [] });
+  });
+
+  it('rejects replies without a directive', () => {
+    for (const text of ['not json', '[]', 'null', '{"directive":"  "}', '{"directive":3}']) expect(parseAdvice(text, BRIEF)).toBeNull();
+  });
+});
+
+describe('TacticalAdvisor', () => {
+  it('asks afresh after a cancel and never serves the dropped answer', async () => {
+    const signals: AbortSignal[] = [];
+    const answer: ((directive: string) => void)[] = [];
+    const provider: AIProvider = {
+      kind: 'local',
+      label: 'test',
+      generate: req => {
+        signals.push(req.signal!);
+        return new Promise(resolve => answer.push(directive => resolve({ text: JSON.stringify({ directive, avoid: [], chase: [] }), provider: 'local' })));
+      }
+    };
+    const advisor = new TacticalAdvisor(() => provider);
+    const first = advisor.advise(BRIEF);
+    expect(advisor.advise(BRIEF)).toBe(first);
+    advisor.cancel();
+    expect(signals[0].aborted).toBe(true);
+    const second = advisor.advise(BRIEF);
+    expect(second).not.toBe(first);
+    answer[0]('Stale.');
+    expect((await first).advice.directive).toBe('Stale.');
+    expect(advisor.advise(BRIEF)).toBe(second);
+    answer[1]('Fresh.');
+    expect((await second).advice.directive).toBe('Fresh.');
+    expect((await advisor.advise(BRIEF)).advice.directive).toBe('Fresh.');
+    expect(signals).toHaveLength(2);
+  });
+});
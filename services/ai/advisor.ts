@@ -0,0 +1,95 @@
+
+import { AIProviderKind } from '../../types';
+import { ADVISOR_CACHE_MS } from '../../constants';
+import { isNum, isRecord, isStr } from '../../engine/parse';
+import { AIProvider, GameBrief, TacticalAdvice } from './provider';
+import { describeBrief } from './brief';
+import { adviseOffline } from './offline';
+
+const ADVISOR_PROMPT = 'You are the tactical advisor in Osmos Prime, an arena where touching hostile cells wear each other down until one absorbs the other, the heavier and harder-hitting cell winning, and viruses burst big cells. Threats are cells that would win a fight with the player, prey are cells the player would win against. Given what the player sees, reply with a one-sentence cryptic survival directive, a waypoint to head for as an offset from the player, the ids of threats to steer clear of and the ids of prey worth chasing. Only use ids from the situation.';
+
+export const ADVICE_SCHEMA = {
+  type: 'object',
+  properties: {
+    directive: { type: 'string', description: 'One short sentence for the player' },
+    waypoint: {
+      type: 'object',
+      description: 'Where to head, as an offset from the player in world units; +y is south',
+      properties: { dx: { type: 'number' }, dy: { type: 'number' } },
+      required: ['dx', 'dy']
+    },
+    avoid: { type: 'array', items: { type: 'string' }, description: 'Ids of threats to steer clear of' },
+    chase: { type: 'array', items: { type: 'string' }, description: 'Ids of prey worth chasing' }
+  },
+  required: ['directive', 'avoid', 'chase']
+};
+
+/** Reads a reply into advice, keeping only cell ids the brief listed; null when it is not usable. */
+export function parseAdvice(text: string, brief: GameBrief): TacticalAdvice | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.trim().replace(/^```(?:json)?|```$/g, ''));
+  } catch {
+    return null;
+  }
+  if (!isRecord(data) || !isStr(data.directive) || !data.directive.trim()) return null;
+  const known = new Set([...brief.threats, ...brief.prey].map(c => c.id));
+  const ids = (list: unknown) => Array.isArray(list) ? list.filter((id): id is string => isStr(id) && known.has(id)) : [];
+  const w = data.waypoint;
+  return {
+    directive: data.directive.trim(),
+    waypoint: isRecord(w) && isNum(w.dx) && isNum(w.dy) ? { dx: w.dx, dy: w.dy } : null,
+    avoid: ids(data.avoid),
+    chase: ids(data.chase)
+  };
+}
+
+export interface AdviceResult {
+  advice: TacticalAdvice;
+  origin: { x: number; y: number }; // where the player was when asked; the waypoint is relative to it
+  at: number; // performance.now()
+  provider: AIProviderKind;
+  fallbackReason?: string;
+}
+
+/**
+ * Asks for advice at most once per ADVISOR_CACHE_MS. Asking again while a
+ * request is out joins it; asking soon after gets the last answer back.
+ */
+export class TacticalAdvisor {
+  private last: AdviceResult | null = null;
+  private pending: Promise<AdviceResult> | null = null;
+  private ctrl: AbortController | null = null;
+
+  constructor(private provider: () => AIProvider) {}
+
+  advise(brief: GameBrief): Promise<AdviceResult> {
+    if (this.pending) return this.pending;
+    if (this.last && performance.now() - this.last.at < ADVISOR_CACHE_MS) return Promise.resolve(this.last);
+    const ctrl = this.ctrl = new AbortController();
+    const origin = { x: brief.x, y: brief.y };
+    const pending = this.pending = this.provider().generate({
+      task: 'advisor',
+      system: ADVISOR_PROMPT,
+      messages: [{ role: 'user', text: describeBrief(brief) }],
+      brief,
+      schema: ADVICE_SCHEMA,
+      signal: ctrl.signal
+    }).then(reply => {
+      const advice = parseAdvice(reply.text, brief);
+      const result: AdviceResult = advice
+        ? { advice, origin, at: performance.now(), provider: reply.provider, fallbackReason: reply.fallbackReason }
+        : { advice: adviseOffline(brief), origin, at: performance.now(), provider: 'offline', fallbackReason: 'unreadable advice' };
+      // A cancelled request that still answered must not be served to the next game
+      if (!ctrl.signal.aborted) this.last = result;
+      return result;
+    }).finally(() => { if (this.pending === pending) this.pending = null; });
+    return pending;
+  }
+
+  /** Drops the request in flight and the cached answer, e.g. when the game ends; the next advise() asks afresh. */
+  cancel() {
+    this.ctrl?.abort();
+    this.ctrl = this.pending = this.last = null;
+  }
+}
@@ -0,0 +1,58 @@
+
+import { GameEntity } from '../../types';
+import { isCell, sameOwner, allied, nameOf } from '../../engine/entity';
+import { biomeAt } from '../../engine/maps';
+import { evenMass, presumedStats, outweighs } from '../../engine/combat';
+import { visionRadius, inDarkZone, canSee } from '../../engine/visibility';
+import { GameSession } from '../session';
+import { BriefCell, GameBrief } from './provider';
+
+const BRIEF_CELLS = 4;
+const BRIEF_VIRUSES = 3;
+
+/** Sums up what the player's cells can see for the advisor; null while the player has no cells. */
+export function gameBrief(session: GameSession): GameBrief | null {
+  const p = session.view()?.state;
+  const { biomes } = session.map;
+  const mine = session.entities.filter(e => e.ownerId === session.playerId);
+  if (!p || !mine.length) return null;
+  const me = mine.reduce((a, b) => b.mass > a.mass ? b : a);
+  const eyes = mine.map(c => ({ cell: c, range: visionRadius(c, inDarkZone(biomes, c)) }));
+  const gap = (e: GameEntity) => Math.hypot(e.x - me.x, e.y - me.y);
+  const visible = session.entities
+    .filter(e => e.isVisible !== false && !sameOwner(me, e) && eyes.some(({ cell, range }) => canSee(biomes, cell, range, e, false)))
+    .sort((a, b) => gap(a) - gap(b));
+  const hostile = visible.filter(e => isCell(e) && !allied(me, e));
+  const near = (e: GameEntity): BriefCell => ({ id: e.id, name: nameOf(e), mass: e.mass, dx: e.x - me.x, dy: e.y - me.y });
+  const biome = biomeAt(biomes, me);
+  return {
+    x: me.x,
+    y: me.y,
+    class: p.class,
+    level: p.level,
+    mass: p.mass,
+    biome: biome && { name: biome.name, effect: biome.effect },
+    threats: hostile.filter(e => e.mass > evenMass(me.mass, presumedStats(e), p.stats)).slice(0, BRIEF_CELLS).map(near),
+    prey: hostile.filter(e => outweighs(me.mass, p.stats, e)).slice(0, BRIEF_CELLS).map(near),
+    viruses: visible.filter(e => e.type === 'virus').slice(0, BRIEF_VIRUSES).map(e => ({ dx: e.x - me.x, dy: e.y - me.y })),
+    events: session.worldEvents.map(ev => ev.name)
+  };
+}
+
+const COMPASS = ['east', 'south-east', 'south', 'south-west', 'west', 'north-west', 'north', 'north-east'];
+
+/** The compass point of an offset, with +y as south. */
+export const compass = (dx: number, dy: number) => COMPASS[(Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) + 8) % 8];
+
+const at = (o: { dx: number; dy: number }) => `${Math.round(o.dx)},${Math.round(o.dy)}`;
+const cellList = (cells: BriefCell[]) => cells.map(c => `${c.id} "${c.name}" ${Math.floor(c.mass)} @ ${at(c)}`).join('; ') || 'none';
+
+/** The brief in prose, for backends that only read text. Offsets are world units from the player, +y is south. */
+export const describeBrief = (b: GameBrief) => [
+  `I am a ${b.class} level ${b.level} with ${Math.floor(b.mass)} mass${b.biome ? ` inside ${b.biome.name} (${b.biome.effect})` : ''}.`,
+  `Offsets are world units from me, +y is south. Cells are listed as id "name" mass @ dx,dy.`,
+  `Threats: ${cellList(b.threats)}.`,
+  `Prey: ${cellList(b.prey)}.`,
+  `Viruses: ${b.viruses.map(at).join('; ') || 'none'}.`,
+  `Active world events: ${b.events.join(', ') || 'none'}.`
+].join('\n');
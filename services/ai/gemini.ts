@@ -0,0 +1,52 @@
+
+import { Content, FunctionCall, GoogleGenAI, Part } from '@google/genai';
+import { AIProvider, MAX_TOOL_ROUNDS, runTool } from './provider';
+
+export function createGeminiProvider(model: string): AIProvider {
+  return {
+    kind: 'gemini',
+    label: `Gemini ${model}`,
+    async generate(request) {
+      const { system, messages, tools, schema, signal, onText } = request;
+      if (!process.env.API_KEY) throw new Error('No Gemini API key; set GEMINI_API_KEY in .env.local');
+      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const contents: Content[] = messages.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+      const functionDeclarations = tools?.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters }));
+      let text = '';
+      for (let round = 0; ; round++) {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents,
+          config: {
+            systemInstruction: system,
+            abortSignal: signal,
+            ...(functionDeclarations?.length && round < MAX_TOOL_ROUNDS && { tools: [{ functionDeclarations }] }),
+            ...(schema && { responseMimeType: 'application/json', responseJsonSchema: schema })
+          }
+        });
+        // Keep every part as sent: tool turns must echo the model's parts back, thought signatures included
+        const parts: Part[] = [];
+        const calls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+          signal?.throwIfAborted();
+          const delta = chunk.candidates?.[0]?.content?.parts || [];
+          parts.push(...delta);
+          delta.forEach(p => {
+            if (p.functionCall) calls.push(p.functionCall);
+            else if (p.text && !p.thought) {
+              text += p.text;
+              onText?.(text);
+            }
+          });
+        }
+        if (!calls.length) return { text, provider: 'gemini' };
+        const responses: Part[] = [];
+        for (const call of calls) {
+          const result = await runTool(request, call.name || '', call.args || {});
+          responses.push({ functionResponse: { id: call.id, name: call.name, response: { result } } });
+        }
+        contents.push({ role: 'model', parts }, { role: 'user', parts: responses });
+      }
+    }
+  };
+}
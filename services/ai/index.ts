@@ -0,0 +1,45 @@
+
+import { AISettings } from '../../types';
+import { AIProvider, deadline, isAbort } from './provider';
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+import { createOfflineProvider } from './offline';
+
+export * from './provider';
+export { gameBrief, describeBrief } from './brief';
+export * from './advisor';
+
+const backendFor = (s: AISettings): AIProvider =>
+  s.provider === 'gemini' ? createGeminiProvider(s.geminiModel)
+    : s.provider === 'local' ? createLocalProvider(s.localUrl, s.localModel)
+    : createOfflineProvider();
+
+/**
+ * The backend the settings pick, bounded by the configured timeout. Anything
+ * but a cancel from the caller falls back to the offline responder, so the
+ * advisor always has something to say.
+ */
+export function createProvider(settings: AISettings): AIProvider {
+  const backend = backendFor(settings);
+  if (backend.kind === 'offline') return backend;
+  const offline = createOfflineProvider();
+  return {
+    kind: backend.kind,
+    label: backend.label,
+    async generate(request) {
+      const limit = deadline(settings.timeoutMs, request.signal);
+      try {
+        const reply = await backend.generate({ ...request, signal: limit.signal });
+        if (!reply.text.trim()) throw new Error('empty reply');
+        return reply;
+      } catch (err) {
+        if (request.signal?.aborted) throw err;
+        const reason = limit.timedOut() ? `${backend.label} timed out` : `${backend.label} failed: ${isAbort(err) ? 'aborted' : (err as Error).message}`;
+        console.warn(reason, err);
+        return { ...(await offline.generate(request)), fallbackReason: reason };
+      } finally {
+        limit.done();
+      }
+    }
+  };
+}
@@ -0,0 +1,121 @@
+
+import { isNum, isRecord, isStr } from '../../engine/parse';
+import { AIProvider, MAX_TOOL_ROUNDS, runTool } from './provider';
+
+type ApiMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: string | null; tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/** What one stream chunk adds to the reply: text, and pieces of tool calls keyed by index. */
+interface Delta {
+  content: string;
+  toolCalls: { index: number; id?: string; name?: string; args?: string }[];
+}
+
+/** The delta of a chunk's first choice, keeping only the fields that have the expected types. */
+function parseDelta(data: unknown): Delta {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const delta: Record<string, unknown> = isRecord(choice) && isRecord(choice.delta) ? choice.delta : {};
+  const calls = Array.isArray(delta.tool_calls) ? delta.tool_calls.filter(isRecord) : [];
+  return {
+    content: isStr(delta.content) ? delta.content : '',
+    toolCalls: calls.map(c => {
+      const fn: Record<string, unknown> = isRecord(c.function) ? c.function : {};
+      return {
+        index: isNum(c.index) && Number.isInteger(c.index) && c.index >= 0 ? c.index : 0,
+        id: isStr(c.id) ? c.id : undefined,
+        name: isStr(fn.name) ? fn.name : undefined,
+        args: isStr(fn.arguments) ? fn.arguments : undefined
+      };
+    })
+  };
+}
+
+/** A tool call's arguments; broken JSON or anything but an object runs the tool without any. */
+function parseArgs(json: string): Record<string, unknown> {
+  try {
+    const args: unknown = JSON.parse(json || '{}');
+    return isRecord(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The `data:` payloads of a server-sent event stream, up to `[DONE]`. */
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop()!;
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (data === '[DONE]') return;
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions API: Ollama, llama.cpp,
+ * LM Studio, vLLM. Replies stream as server-sent events.
+ */
+export function createLocalProvider(baseUrl: string, model: string): AIProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    kind: 'local',
+    label: `${model} @ ${baseUrl}`,
+    async generate(request) {
+      const { system, messages, tools, schema, signal, onText } = request;
+      const history: ApiMessage[] = [{ role: 'system', content: system }, ...messages.map(m => ({ role: m.role, content: m.text }))];
+      const functions = tools?.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }));
+      let text = '';
+      for (let round = 0; ; round++) {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            stream: true,
+            messages: history,
+            ...(functions?.length && round < MAX_TOOL_ROUNDS && { tools: functions }),
+            ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'reply', schema } } })
+          }),
+          signal
+        });
+        if (!res.ok || !res.body) throw new Error(`${url} answered ${res.status} ${res.statusText}`);
+
+        // Tool calls stream in pieces keyed by index: the id and name first, then the arguments a fragment at a time
+        let said = '';
+        const pieces: { id: string; name: string; args: string }[] = [];
+        for await (const data of sseData(res.body)) {
+          const delta = parseDelta(data);
+          if (delta.content) {
+            said += delta.content;
+            text += delta.content;
+            onText?.(text);
+          }
+          delta.toolCalls.forEach(c => {
+            const call = pieces[c.index] ??= { id: '', name: '', args: '' };
+            if (c.id) call.id = c.id;
+            if (c.name) call.name += c.name;
+            if (c.args) call.args += c.args;
+          });
+        }
+        const calls = pieces.filter(c => c.name);
+        if (!calls.length) return { text, provider: 'local' };
+        history.push({
+          role: 'assistant',
+          content: said || null,
+          tool_calls: calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.args } }))
+        });
+        for (const call of calls) {
+          history.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(await runTool(request, call.name, parseArgs(call.args))) });
+        }
+      }
+    }
+  };
+}
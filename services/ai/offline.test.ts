@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { AITool } from './provider';
+import { createOfflineProvider } from './offline';
+
+const ask = (question: string, tools: AITool[]) =>
+  createOfflineProvider().generate({ task: 'chat', system: '', messages: [{ role: 'user', text: question }], tools }).then(r => r.text);
+
+const tool = (name: string, result: unknown): AITool => ({ name, description: '', parameters: {}, run: () => result });
+
+describe('offline responder', () => {
+  it('answers from a tool result that has the fields it reads', async () => {
+    const threats = { yourMass: 50, threats: [{ id: 'a', name: 'BIG', mass: 300, distance: 420, direction: 'north' }] };
+    expect(await ask('any threats nearby?', [tool('list_nearby_threats', threats)])).toMatch(/\*\*BIG\*\* \(300\), 420 units north/);
+  });
+
+  it('passes tool errors on and refuses results of the wrong shape', async () => {
+    expect(await ask('any threats nearby?', [tool('list_nearby_threats', { error: 'Not in a match.' })])).toBe('Not in a match.');
+    expect(await ask('any threats nearby?', [tool('list_nearby_threats', { yourMass: 50, threats: 'lots' })])).toMatch(/cannot read/);
+    expect(await ask('what are my stats?', [tool('get_my_stats', null)])).toMatch(/cannot read/);
+  });
+
+  it('skips malformed design-document matches', async () => {
+    const text = await ask('how does quantum tunnelling work', [tool('lookup_rules', { rules: [{ section: 3 }] })]);
+    expect(text).toMatch(/^No record on that/);
+  });
+});
@@ -0,0 +1,206 @@
+
+import { CellClass } from '../../types';
+import { CLASS_DATA, CLASS_ABILITIES, BIOME_EFFECTS, FACTION_DATA, FOOD_KINDS, MIN_SPLIT_MASS, VIRUS_POP_RATIO, VIRUS_MASS, SKILL_POINTS_PER_LEVEL } from '../../constants';
+import { WORLD_EVENTS } from '../../engine/events';
+import { isNum, isRecord, isStr } from '../../engine/parse';
+import { AIProvider, AIRequest, BriefCell, GameBrief, TacticalAdvice, runTool } from './provider';
+import { compass } from './brief';
+import type { ClassInfo, MassToEat, MyStats, NearbyThreats, RulesFound, ToolError } from './tools';
+
+const BIOME_RULES: Record<string, string> = {
+  toxic: 'Toxic biomes slowly drain mass; defense slows the loss.',
+  lava: 'Lava burns mass faster than toxic ground but makes you 25% quicker while inside.',
+  nutrient: 'Nutrient biomes grow your mass over time, faster with high regen.',
+  dark: 'Dark biomes halve vision inside them and cloak Assassins from AI cells.',
+  normal: 'Normal biomes have no effect.'
+};
+
+interface Topic {
+  keys: string[];
+  text: string;
+}
+
+const statLine = (cls: CellClass) =>
+  Object.entries(CLASS_DATA[cls].baseStats).map(([k, v]) => `${k} ${v}`).join(', ');
+
+// Everything the responder knows, drawn from the same tables the game runs on
+const TOPICS: Topic[] = [
+  ...Object.values(CellClass).map(cls => ({
+    keys: [cls.toLowerCase()],
+    text: `${cls}: base stats ${statLine(cls)}; vision ${CLASS_DATA[cls].vision}x. Skill: ${CLASS_ABILITIES[cls].name}. ${CLASS_ABILITIES[cls].description}`
+  })),
+  ...Object.entries(BIOME_EFFECTS).map(([effect, b]) => ({
+    keys: [effect, b.label.toLowerCase(), ...b.names.map(n => n.toLowerCase())],
+    text: `${b.label} (${b.names.join(', ')}): ${BIOME_RULES[effect]}`
+  })),
+  ...Object.values(FACTION_DATA).map(f => ({
+    keys: [f.name.toLowerCase()],
+    text: `${f.name} faction: ${f.description} Unlocks at level ${f.unlockLevel}; allied cells never eat each other.`
+  })),
+  ...WORLD_EVENTS.map(ev => ({ keys: [ev.name.toLowerCase(), ev.kind.toLowerCase()], text: `${ev.name}: ${ev.description}` })),
+  { keys: ['eat', 'absorb', 'bigger', 'size', 'fight', 'combat', 'health', 'damage'], text: "Overlapping hostile cells fight, both losing health every tick. Damage grows with the square of the mass ratio and the attacker's burst, and shrinks with the defender's defense. The killing blow absorbs the loser, keeping a share of its mass set by absorption. Food and ejected mass are swallowed whole by cells 10% heavier." },
+  { keys: ['split'], text: `Splitting halves every cell of at least ${MIN_SPLIT_MASS} mass and throws the new half forward. Use it to catch prey under half your mass, but the pieces are easy to pick off.` },
+  { keys: ['eject', 'feed'], text: 'Ejecting fires a small blob of your mass. Feed enough into a virus and it fires a new virus along the feed direction.' },
+  { keys: ['virus', 'spike'], text: `Cells over ${VIRUS_POP_RATIO}x a virus's ${VIRUS_MASS} mass burst into pieces when they touch one. Small cells can hide behind them.` },
+  { keys: ['level', 'xp', 'experience', 'skill point'], text: `Eating food, AI cells and players earns XP; each level grants ${SKILL_POINTS_PER_LEVEL} skill points for stats or skill tree nodes.` },
+  { keys: ['stat', 'speed', 'defense', 'regen', 'burst'], text: "Speed moves you. Absorption multiplies XP from eating and how much of a kill's mass you keep. Defense blunts contact damage and mass loss. Regen restores health out of combat and speeds mass recovery. Burst drives contact damage and your class skill." },
+  { keys: ['death', 'die', 'lose'], text: 'When you die you lose your mass but keep your level, skill points and class progress.' },
+  { keys: ['food', 'pellet', 'cluster', 'toxic pellet'], text: Object.values(FOOD_KINDS).map(f => `${f.name} (${f.mass} mass): ${f.description}`).join(' ') + ' Eaten food grows back elsewhere after a few seconds.' },
+  { keys: ['star dust', 'meteor'], text: `Star Dust drifts in dark biomes and falls during a Meteor Shower with bonus XP. ${FOOD_KINDS.stardust.description}` }
+];
+
+const dist = (c: BriefCell) => Math.hypot(c.dx, c.dy);
+
+function answer(question: string): string | null {
+  // Keys match at the start of a word, so 'eat' finds 'eating' but not 'weather'
+  const q = ` ${question.toLowerCase().replace(/[^a-z0-9]+/g, ' ')}`;
+  const scored = TOPICS.map(t => ({ t, score: t.keys.filter(k => q.includes(` ${k}`)).length })).filter(s => s.score > 0);
+  if (!scored.length) return null;
+  const best = Math.max(...scored.map(s => s.score));
+  return scored.filter(s => s.score === best).slice(0, 3).map(s => s.t.text).join('\n\n');
+}
+
+const toward = (c: { dx: number; dy: number }, reach: number) => {
+  const d = Math.hypot(c.dx, c.dy) || 1;
+  return { dx: (c.dx / d) * reach, dy: (c.dy / d) * reach };
+};
+
+/** Advice by rule, most urgent first: flee, leave a draining biome, hunt, then graze. */
+export function adviseOffline(b: GameBrief): TacticalAdvice {
+  const closing = b.threats.filter(t => dist(t) < 900);
+  const avoid = closing.map(t => t.id);
+  const threat = closing[0];
+  if (threat) {
+    const away = compass(-threat.dx, -threat.dy);
+    const skill = b.class === CellClass.ASSASSIN ? ' Dash if it closes in.' : b.class === CellClass.TANK ? ' Fortify if it catches you.' : '';
+    return {
+      directive: `${threat.name} (${Math.floor(threat.mass)}) is closing from the ${compass(threat.dx, threat.dy)}. Break ${away}.${skill}`,
+      waypoint: toward({ dx: -threat.dx, dy: -threat.dy }, 600), avoid, chase: []
+    };
+  }
+  if (b.biome && (b.biome.effect === 'toxic' || b.biome.effect === 'lava')) {
+    return { directive: `${b.biome.name} is eating your mass. Get out.`, waypoint: null, avoid, chase: [] };
+  }
+  const prey = b.prey[0];
+  if (prey) {
+    const split = prey.mass * 2.2 < b.mass && b.mass >= MIN_SPLIT_MASS * 2 && dist(prey) < 500 ? ' Split to catch it.' : '';
+    return {
+      directive: `${prey.name} (${Math.floor(prey.mass)}) lies ${compass(prey.dx, prey.dy)}. Take it.${split}`,
+      waypoint: { dx: prey.dx, dy: prey.dy }, avoid, chase: [prey.id]
+    };
+  }
+  const calm = (directive: string): TacticalAdvice => ({ directive, waypoint: null, avoid, chase: [] });
+  if (b.events.includes('Meteor Shower')) return calm('Meteors are falling. Sweep up the Star Dust they leave.');
+  if (b.events.includes('Faction War')) return calm('A faction war pays triple XP. Pick off the stragglers at its edge.');
+  if (b.threats[0]) return calm(`Quiet for now, but ${b.threats[0].name} outweighs you. Graze and keep it in sight.`);
+  return calm('Nothing near can hurt you. Graze and grow.');
+}
+
+interface Intent {
+  tool: string;
+  match: (question: string) => Record<string, unknown> | null;
+  say: (result: unknown) => string | null; // null when the result lacks the fields the answer reads
+}
+
+const CLASS_NAME = new RegExp(`\\b(${Object.values(CellClass).join('|')})\\b`, 'i');
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const isToolError = (r: unknown): r is ToolError => isRecord(r) && isStr(r.error);
+const isStatLine = (v: unknown): v is Record<string, number> => isRecord(v) && Object.values(v).every(isNum);
+
+const isThreats = (r: unknown): r is NearbyThreats =>
+  isRecord(r) && isNum(r.yourMass) && Array.isArray(r.threats)
+  && r.threats.every(t => isRecord(t) && isStr(t.name) && isNum(t.mass) && isNum(t.distance) && isStr(t.direction));
+
+const isMassToEat = (r: unknown): r is MassToEat =>
+  isRecord(r) && isStr(r.target) && isNum(r.targetMass) && isNum(r.massNeeded) && isNum(r.biggestCell) && isNum(r.shortfall)
+  && typeof r.canEatNow === 'boolean' && typeof r.canEatAfterSplit === 'boolean';
+
+const isMyStats = (r: unknown): r is MyStats =>
+  isRecord(r) && isStr(r.name) && isStr(r.class) && isNum(r.level) && isStr(r.xp) && isNum(r.mass) && isNum(r.cells)
+  && isStatLine(r.stats) && isNum(r.skillPoints) && Array.isArray(r.skills) && r.skills.every(isStr) && isStr(r.skillCooldown);
+
+const isClassInfo = (r: unknown): r is ClassInfo =>
+  isRecord(r) && isStr(r.class) && isStatLine(r.baseStats) && isNum(r.vision)
+  && isRecord(r.skill) && isStr(r.skill.name) && isStr(r.skill.description) && Array.isArray(r.skillTree)
+  && r.skillTree.every(n => isRecord(n) && isStr(n.name) && isStr(n.description) && isNum(n.cost) && isNum(n.minLevel));
+
+const isRulesFound = (r: unknown): r is RulesFound =>
+  isRecord(r) && Array.isArray(r.rules) && r.rules.every(x => isRecord(x) && isStr(x.section) && isStr(x.rule));
+
+// Questions the responder answers by calling the same tools a model would, checked in order
+const INTENTS: Intent[] = [
+  {
+    tool: 'list_nearby_threats',
+    match: q => /\b(threats?|danger\w*|nearby|around me|eat me|hunting me)\b/i.test(q) ? {} : null,
+    say: r => !isThreats(r) ? null : r.threats.length
+      ? `**${plural(r.threats.length, 'threat')}** can eat your ${r.yourMass} mass:\n${r.threats.map(t => `- **${t.name}** (${t.mass}), ${t.distance} units ${t.direction}`).join('\n')}`
+      : `Nothing you can see outweighs your ${r.yourMass} mass.`
+  },
+  {
+    tool: 'mass_to_eat',
+    match: q => {
+      const m = q.match(/\b(?:eat|absorb|swallow|consume)\s+(?:the |an? )?(.+?)[\s?.!]*$/i);
+      return m ? { target: m[1] } : null;
+    },
+    say: r => !isMassToEat(r) ? null : r.canEatNow
+      ? `Yes. ${r.target} weighs ${r.targetMass}, and your biggest cell (${r.biggestCell}) is over the **${r.massNeeded}** it takes to win the fight.${r.canEatAfterSplit ? ' Even a split half would do it.' : ''}`
+      : `${r.target} weighs ${r.targetMass}. One cell needs more than **${r.massNeeded}** to win the fight; your biggest has ${r.biggestCell}, **${r.shortfall}** short.`
+  },
+  {
+    tool: 'get_my_stats',
+    match: q => /\b(my|me|i)\b/i.test(q) && /\b(stats?|level|xp|mass|skills?|cooldown|doing)\b/i.test(q) ? {} : null,
+    say: r => !isMyStats(r) ? null : [
+      `**${r.name}**, ${r.class} level ${r.level} (${r.xp} XP), ${r.mass} mass in ${plural(r.cells, 'cell')}.`,
+      `- Stats: ${Object.entries(r.stats).map(([k, v]) => `${k} ${v.toFixed(2)}`).join(', ')}`,
+      `- Skill points: ${r.skillPoints}${r.skills.length ? `; skills: ${r.skills.join(', ')}` : ''}`,
+      `- Skill cooldown: ${r.skillCooldown}`
+    ].join('\n')
+  },
+  {
+    tool: 'explain_class',
+    match: q => {
+      const m = q.match(CLASS_NAME);
+      return m ? { class: m[1] } : null;
+    },
+    say: r => !isClassInfo(r) ? null : [
+      `**${r.class}**: ${Object.entries(r.baseStats).map(([k, v]) => `${k} ${v}`).join(', ')}; vision ${r.vision}x.`,
+      `**${r.skill.name}**: ${r.skill.description}`,
+      `Skill tree:\n${r.skillTree.map(n => `- **${n.name}** (level ${n.minLevel}, ${plural(n.cost, 'point')}): ${n.description}`).join('\n')}`
+    ].join('\n\n')
+  }
+];
+
+async function chat(request: AIRequest, question: string): Promise<string> {
+  const has = (tool: string) => !!request.tools?.some(t => t.name === tool);
+  for (const intent of INTENTS) {
+    const args = has(intent.tool) && intent.match(question);
+    if (!args) continue;
+    const result = await runTool(request, intent.tool, args);
+    if (isToolError(result)) return result.error;
+    return intent.say(result) ?? `The ${intent.tool} tool sent back something I cannot read.`;
+  }
+  const known = answer(question);
+  if (known) return known;
+  if (has('lookup_rules')) {
+    const found = await runTool(request, 'lookup_rules', { query: question });
+    if (isRulesFound(found) && found.rules.length) return `From the design document:\n${found.rules.map(r => `- **${r.section}**: ${r.rule}`).join('\n')}`;
+  }
+  return request.brief ? `No record on that. From here: ${adviseOffline(request.brief).directive}`
+    : 'No record on that. Ask about your stats, nearby threats, a class, biome, faction, world event, splitting, viruses or leveling.';
+}
+
+/** A rule-based responder that needs no network: good for air-gapped rigs and as the fallback for the others. */
+export function createOfflineProvider(): AIProvider {
+  return {
+    kind: 'offline',
+    label: 'Offline rules',
+    async generate(request) {
+      const { task, messages, brief, onText } = request;
+      const question = [...messages].reverse().find(m => m.role === 'user')?.text || '';
+      const text = task === 'advisor' && brief ? JSON.stringify(adviseOffline(brief)) : await chat(request, question);
+      onText?.(text);
+      return { text, provider: 'offline' };
+    }
+  };
+}
@@ -0,0 +1,104 @@
+
+import { AIProviderKind, BiomeEffect, CellClass } from '../../types';
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** What the player's cell can see right now; the offline responder reasons from this alone. */
+export interface GameBrief {
+  x: number; // our biggest cell, in world units; offsets below are from here
+  y: number;
+  class: CellClass;
+  level: number;
+  mass: number;
+  biome?: { name: string; effect: BiomeEffect };
+  threats: BriefCell[]; // hostile cells heavy enough to eat us, nearest first
+  prey: BriefCell[]; // hostile cells we can eat, nearest first
+  viruses: { dx: number; dy: number }[];
+  events: string[]; // active world events
+}
+
+export interface BriefCell {
+  id: string;
+  name: string;
+  mass: number;
+  dx: number; // world units from our biggest cell
+  dy: number;
+}
+
+/** A function the model may call while answering; whatever `run` returns goes back to it as JSON. */
+export interface AITool {
+  name: string;
+  description: string;
+  parameters: object; // JSON Schema for the arguments
+  run(args: Record<string, unknown>): unknown;
+}
+
+export const MAX_TOOL_ROUNDS = 4; // model turns that may call tools before it has to answer
+
+export interface AIRequest {
+  task: 'advisor' | 'chat';
+  system: string;
+  messages: AIMessage[];
+  brief?: GameBrief;
+  tools?: AITool[];
+  onTool?: (name: string) => void; // a tool call is about to run
+  schema?: object; // JSON Schema the reply must follow, on backends that can constrain output
+  signal?: AbortSignal;
+  /** Called with the whole reply so far each time a chunk arrives. */
+  onText?: (text: string) => void;
+}
+
+export interface AIReply {
+  text: string;
+  provider: AIProviderKind;
+  fallbackReason?: string; // set when the chosen backend failed and the offline responder answered
+}
+
+/** The advisor's structured answer. Cells are referred to by the ids in the brief. */
+export interface TacticalAdvice {
+  directive: string;
+  waypoint: { dx: number; dy: number } | null; // where to head, relative to the brief's origin
+  avoid: string[];
+  chase: string[];
+}
+
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  readonly label: string;
+  generate(request: AIRequest): Promise<AIReply>;
+}
+
+/** Runs one tool call for a backend; failures are reported to the model rather than thrown. */
+export async function runTool({ tools = [], onTool }: AIRequest, name: string, args: Record<string, unknown>): Promise<unknown> {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) return { error: `No tool named ${name}` };
+  onTool?.(name);
+  try {
+    return await tool.run(args);
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+}
+
+export const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * A signal that fires when `parent` does or after `ms`, whichever comes first.
+ * Call `done` once the request settles so the timer does not outlive it.
+ */
+export function deadline(ms: number, parent?: AbortSignal): { signal: AbortSignal; timedOut: () => boolean; done: () => void } {
+  const ctrl = new AbortController();
+  let expired = false;
+  const onAbort = () => ctrl.abort(parent!.reason);
+  const timer = setTimeout(() => { expired = true; ctrl.abort(new DOMException(`No reply within ${ms} ms`, 'TimeoutError')); }, ms);
+  if (parent?.aborted) onAbort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: ctrl.signal,
+    timedOut: () => expired,
+    done: () => { clearTimeout(timer); parent?.removeEventListener('abort', onAbort); }
+  };
+}
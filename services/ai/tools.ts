@@ -0,0 +1,182 @@
+
+import { CellClass, GameEntity, SkillNode, Stats } from '../../types';
+import { CLASS_DATA, CLASS_ABILITIES, SKILL_TREE, PHYSICS_TPS, MIN_SPLIT_MASS } from '../../constants';
+import { isCell, sameOwner, nameOf } from '../../engine/entity';
+import { evenMass, presumedStats } from '../../engine/combat';
+import { isNum } from '../../engine/parse';
+import { GameSession } from '../session';
+import { lookupRules } from '../gameDesign';
+import { AITool } from './provider';
+import { compass, gameBrief } from './brief';
+
+export interface ToolError {
+  error: string;
+}
+
+const NOT_PLAYING: ToolError = { error: 'The player is not in a match right now.' };
+
+const classOf = (name: unknown) => Object.values(CellClass).find(c => c.toLowerCase() === String(name).trim().toLowerCase());
+
+export interface MassToEat {
+  target: string;
+  targetMass: number;
+  massNeeded: number; // the biggest cell has to be heavier than this to win a fight at full health
+  biggestCell: number;
+  shortfall: number;
+  canEatNow: boolean;
+  canEatAfterSplit: boolean;
+}
+
+export interface MyStats {
+  name: string;
+  class: CellClass;
+  level: number;
+  xp: string; // "exp/maxExp"
+  mass: number;
+  cells: number;
+  stats: Stats;
+  skillPoints: number;
+  skills: string[]; // node names
+  effects: Record<string, string>; // effect -> seconds left
+  skillCooldown: string;
+}
+
+export interface NearbyThreats {
+  yourMass: number;
+  threats: { id: string; name: string; mass: number; distance: number; direction: string }[];
+}
+
+export interface ClassInfo {
+  class: CellClass;
+  baseStats: Stats;
+  vision: number;
+  skill: { name: string; description: string };
+  skillTree: Pick<SkillNode, 'name' | 'description' | 'cost' | 'minLevel' | 'modifiers'>[];
+}
+
+export interface RulesFound {
+  rules: { section: string; rule: string }[];
+  note?: string;
+}
+
+/** Finds a cell the player can see by id or (partial) name, the nearest match first. */
+function findCell(session: GameSession, me: GameEntity, query: string) {
+  const q = query.trim().toLowerCase();
+  return session.entities
+    .filter(e => isCell(e) && e.isVisible !== false && !sameOwner(me, e) && (e.id.toLowerCase() === q || nameOf(e).toLowerCase().includes(q)))
+    .sort((a, b) => Math.hypot(a.x - me.x, a.y - me.y) - Math.hypot(b.x - me.x, b.y - me.y))[0];
+}
+
+export function massToEat(session: GameSession, target: string | number): MassToEat | ToolError {
+  const mine = session.entities.filter(e => e.ownerId === session.playerId);
+  if (!mine.length) return NOT_PLAYING;
+  const me = mine.reduce((a, b) => b.mass > a.mass ? b : a);
+  if (String(target).trim() === '') return { error: 'Name the cell to eat.' };
+  const byMass = typeof target === 'number' ? target : Number(target);
+  const cell = Number.isFinite(byMass) ? null : findCell(session, me, String(target));
+  if (!cell && !Number.isFinite(byMass)) return { error: `No visible cell matches "${target}".` };
+  const targetMass = cell ? cell.mass : byMass;
+  const massNeeded = evenMass(targetMass, session.view()!.state.stats, presumedStats(cell));
+  return {
+    target: cell ? nameOf(cell) : `a ${Math.round(targetMass)}-mass cell`,
+    targetMass: Math.round(targetMass),
+    massNeeded: Math.ceil(massNeeded),
+    biggestCell: Math.floor(me.mass),
+    shortfall: Math.max(0, Math.ceil(massNeeded - me.mass)),
+    canEatNow: me.mass > massNeeded,
+    canEatAfterSplit: me.mass >= MIN_SPLIT_MASS && me.mass / 2 > massNeeded
+  };
+}
+
+/** Functions the assistant can call into the live match and the rule books. */
+export function gameTools(getSession: () => GameSession | null): AITool[] {
+  return [
+    {
+      name: 'get_my_stats',
+      description: "The player's class, level, XP, mass, stats, unspent skill points, unlocked skills, active effects and skill cooldown.",
+      parameters: { type: 'object', properties: {} },
+      run: (): MyStats | ToolError => {
+        const session = getSession();
+        const view = session?.view();
+        if (!session || !view) return NOT_PLAYING;
+        const p = view.state;
+        const tree = SKILL_TREE[p.class];
+        return {
+          name: p.name,
+          class: p.class,
+          level: p.level,
+          xp: `${Math.floor(p.exp)}/${p.maxExp}`,
+          mass: Math.floor(p.mass),
+          cells: session.entities.filter(e => e.ownerId === session.playerId).length,
+          stats: p.stats,
+          skillPoints: p.skillPoints,
+          skills: p.skills.map(id => tree.find(n => n.id === id)?.name || id),
+          effects: Object.fromEntries(Object.entries(view.effects).filter(([, t]) => t > 0).map(([k, t]) => [k, `${Math.ceil(t / PHYSICS_TPS)}s`])),
+          skillCooldown: `${Math.ceil(view.cooldown / PHYSICS_TPS)}s`
+        };
+      }
+    },
+    {
+      name: 'list_nearby_threats',
+      description: "Visible hostile cells heavy enough to eat the player's biggest cell, nearest first, with distance and compass direction.",
+      parameters: { type: 'object', properties: {} },
+      run: (): NearbyThreats | ToolError => {
+        const session = getSession();
+        const brief = session && gameBrief(session);
+        if (!brief) return NOT_PLAYING;
+        return {
+          yourMass: Math.floor(brief.mass),
+          threats: brief.threats.map(t => ({
+            id: t.id, name: t.name, mass: Math.floor(t.mass), distance: Math.round(Math.hypot(t.dx, t.dy)), direction: compass(t.dx, t.dy)
+          }))
+        };
+      }
+    },
+    {
+      name: 'explain_class',
+      description: 'Base stats, vision, class skill and skill tree of one cell class.',
+      parameters: {
+        type: 'object',
+        properties: { class: { type: 'string', enum: Object.values(CellClass) } },
+        required: ['class']
+      },
+      run: ({ class: name }): ClassInfo | ToolError => {
+        const cls = classOf(name);
+        if (!cls) return { error: `Unknown class "${name}". Classes: ${Object.values(CellClass).join(', ')}.` };
+        return {
+          class: cls,
+          baseStats: CLASS_DATA[cls].baseStats,
+          vision: CLASS_DATA[cls].vision,
+          skill: CLASS_ABILITIES[cls],
+          skillTree: SKILL_TREE[cls].map(n => ({ name: n.name, description: n.description, cost: n.cost, minLevel: n.minLevel, modifiers: n.modifiers }))
+        };
+      }
+    },
+    {
+      name: 'mass_to_eat',
+      description: "How much mass the player's biggest cell needs to win a contact fight against a cell and eat it, given the target's name, id or mass.",
+      parameters: {
+        type: 'object',
+        properties: { target: { type: 'string', description: 'Name or id of a visible cell, or a mass' } },
+        required: ['target']
+      },
+      run: ({ target }): MassToEat | ToolError => {
+        const session = getSession();
+        return session ? massToEat(session, isNum(target) ? target : String(target ?? '')) : NOT_PLAYING;
+      }
+    },
+    {
+      name: 'lookup_rules',
+      description: 'Searches the game design document (progression, classes, AI behavior, biomes, world events) for rules matching a query.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' } },
+        required: ['query']
+      },
+      run: ({ query }): RulesFound => {
+        const rules = lookupRules(String(query || ''));
+        return rules.length ? { rules } : { rules, note: 'Nothing in the design document matches.' };
+      }
+    }
+  ];
+}
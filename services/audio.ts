@@ -0,0 +1,33 @@
+
+import { Settings } from '../types';
+
+export type Cue = 'levelUp' | 'kill' | 'death' | 'worldEvent';
+
+// Each cue is a short synthesized sweep, so there are no sound files to ship
+const CUES: Record<Cue, { wave: OscillatorType; from: number; to: number; duration: number; gain: number }> = {
+  levelUp: { wave: 'triangle', from: 440, to: 880, duration: 0.35, gain: 0.25 },
+  kill: { wave: 'sine', from: 220, to: 520, duration: 0.12, gain: 0.3 },
+  death: { wave: 'sawtooth', from: 180, to: 40, duration: 0.8, gain: 0.2 },
+  worldEvent: { wave: 'square', from: 150, to: 300, duration: 0.6, gain: 0.12 }
+};
+
+let ctx: AudioContext | null = null;
+
+export function playCue(cue: Cue, volume: Settings['volume']) {
+  const level = volume.master * volume.effects;
+  if (level <= 0 || typeof AudioContext === 'undefined') return;
+  ctx ??= new AudioContext();
+  if (ctx.state === 'suspended') ctx.resume();
+  const { wave, from, to, duration, gain } = CUES[cue];
+  const t = ctx.currentTime;
+  const osc = ctx.createOscillator();
+  const amp = ctx.createGain();
+  osc.type = wave;
+  osc.frequency.setValueAtTime(from, t);
+  osc.frequency.exponentialRampToValueAtTime(to, t + duration);
+  amp.gain.setValueAtTime(gain * level, t);
+  amp.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+  osc.connect(amp).connect(ctx.destination);
+  osc.start(t);
+  osc.stop(t + duration);
+}
@@ -0,0 +1,34 @@
+
+import { ChatMessage } from '../types';
+import { CHAT_TRANSCRIPTS_KEPT, CHAT_MESSAGES_KEPT } from '../constants';
+
+const STORAGE_KEY = 'osmos_chat';
+
+interface Transcript {
+  id: string; // game session
+  messages: ChatMessage[];
+}
+
+const readAll = (): Transcript[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(data) ? data.filter(t => typeof t?.id === 'string' && Array.isArray(t.messages)) : [];
+  } catch (err) {
+    console.warn('Discarding unreadable chat transcripts', err);
+    return [];
+  }
+};
+
+export const loadTranscript = (id: string): ChatMessage[] =>
+  (readAll().find(t => t.id === id)?.messages || []).filter(m => (m.role === 'user' || m.role === 'ai') && typeof m.text === 'string');
+
+/** Stores one session's chat; the newest CHAT_TRANSCRIPTS_KEPT sessions survive. */
+export function saveTranscript(id: string, messages: ChatMessage[]) {
+  const rest = readAll().filter(t => t.id !== id);
+  const all = messages.length ? [...rest, { id, messages: messages.slice(-CHAT_MESSAGES_KEPT) }] : rest;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all.slice(-CHAT_TRANSCRIPTS_KEPT)));
+  } catch (err) {
+    console.warn('Chat transcript could not be saved', err);
+  }
+}
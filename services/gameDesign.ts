@@ -1,43 +1,109 @@
-
 /**
  * OSMOS PRIME: DESIGN DOCUMENTATION
- * 
- * 1. RPG PROGRESSION
- * - Experience Points (XP): Earned through absorbing food (small), AIs (medium), and Players (high).
- * - Leveling: Each level grants Skill Points used to customize the cell's physical attributes.
- * - Persistence: Upon death, the player loses their current mass but retains their Level, Skill Points, and Class.
- * 
- * 2. CELL CLASSES
- * - Predator: Enhanced visual range and speed. Digestion efficiency +50%.
- * - Tank: Massive defense. Splits are 50% slower but split-cells can reform faster.
- * - Parasite: Can attach to larger cells and drain mass over time without killing them immediately.
- * - Assassin: Reduced visual signature. Can 'dash' (expend mass for sudden burst).
- * - Support: Emanates a field that buffs health regeneration for faction members.
- * 
- * 3. AI BEHAVIOR MODEL (The "Ecosystem" Engine)
- * - Memory: AIs remember players who attacked them.
- * - Faction Logic: AIs belong to one of 3 factions (Biological, Synthetic, Void).
- * - Social Intelligence: Smaller AIs will follow larger faction-friendly AIs for protection.
- * - Ambush: AIs will hide in "Dark Zones" and wait for low-health entities.
- * 
- * 4. BIOME MECHANICS
- * - Toxic Mire: Slowly drains mass; high density of food particles.
- * - Magma Core: Deals high 'burn' damage; enhances Speed and Attack Power.
- * - Nutrient Field: Increases mass regeneration. Faction territory wars occur here.
- * - Dark Zones: Fog of war logic. Invisibility for Assassin class.
- * 
- * 5. WORLD EVENTS
- * - Infection: A random 'virus' cell enters, turning AIs into aggressive zombies that spread mass-draining debuffs.
- * - Meteor Shower: Falling rocks that break cells into fragments but contain high-value 'Star Dust' (XP boosters).
- * - Faction War: World map highlights regions where faction AI will clash. Players can join for massive rewards.
- * 
- * 6. ADDICTION LOOP
- * - The "Just One More Level" Hook: Seeing stats increase creates a desire to reach the next power tier.
- * - Territory Control: Players feel ownership over biomes where their faction is winning.
- * - Build Diversity: Experimenting with "Speed Tanks" or "Tank Assassins" via skill trees.
- * 
- * 7. MONETIZATION (Ethical Model)
- * - Cosmetics: Cell skins, particle trails, and custom 'death' animations.
- * - Battle Pass: Rewards XP boosters and unique cosmetic themes.
- * - NO PAY-TO-WIN: No stats or mass can be purchased with real money.
+ *
+ * Kept as data so the in-game assistant can look rules up.
  */
+
+export interface DesignSection {
+  title: string;
+  rules: string[];
+}
+
+export const GAME_DESIGN: DesignSection[] = [
+  {
+    title: 'RPG Progression',
+    rules: [
+      'Experience Points (XP): Earned through absorbing food (small), AIs (medium), and Players (high).',
+      "Leveling: Each level grants Skill Points used to customize the cell's physical attributes.",
+      'Persistence: Upon death, the player loses their current mass but retains their Level, Skill Points, and Class.'
+    ]
+  },
+  {
+    title: 'Cell Classes',
+    rules: [
+      'Predator: Enhanced visual range and speed. Digestion efficiency +50%.',
+      'Tank: Massive defense. Splits are 50% slower but split-cells can reform faster.',
+      'Parasite: Can attach to larger cells and drain mass over time without killing them immediately.',
+      "Assassin: Reduced visual signature. Can 'dash' (expend mass for sudden burst).",
+      'Support: Emanates a field that buffs health regeneration for faction members.'
+    ]
+  },
+  {
+    title: 'Combat',
+    rules: [
+      "Contact: Overlapping hostile cells deal damage over time, scaled by the square of their mass ratio, the attacker's Burst and the defender's Defense.",
+      "Absorption: The cell landing the killing blow absorbs the loser and keeps a share of its mass set by Absorption.",
+      'Recovery: Health regrows with Regen once a cell has gone a few seconds without being hit.',
+      'Food and ejected mass are swallowed whole by any cell 10% heavier.'
+    ]
+  },
+  {
+    title: 'AI Behavior Model (The "Ecosystem" Engine)',
+    rules: [
+      'Memory: AIs remember players who attacked them.',
+      'Faction Logic: AIs belong to one of 3 factions (Biological, Synthetic, Void).',
+      'Social Intelligence: Smaller AIs will follow larger faction-friendly AIs for protection.',
+      'Ambush: AIs will hide in "Dark Zones" and wait for low-health entities.'
+    ]
+  },
+  {
+    title: 'Biome Mechanics',
+    rules: [
+      'Toxic Mire: Slowly drains mass; high density of food particles.',
+      "Magma Core: Deals high 'burn' damage; enhances Speed and Attack Power. Food is sparse but rich.",
+      'Nutrient Field: Increases mass regeneration. Faction territory wars occur here.',
+      'Dark Zones: Fog of war logic. Invisibility for Assassin class.'
+    ]
+  },
+  {
+    title: 'Food',
+    rules: [
+      'Pellets: Plain biomass. Eaten food grows back somewhere else a few seconds later.',
+      'Nutrient Clusters: Dense knots worth several pellets, common in Magma Cores and Nutrient Fields.',
+      'Star Dust: Briefly multiplies the XP of everything eaten; drifts in Dark Zones and falls with meteors.',
+      'Toxic Pellets: Thick in Toxic Mires; eating one slows the cell for a few seconds.'
+    ]
+  },
+  {
+    title: 'World Events',
+    rules: [
+      "Infection: A random 'virus' cell enters, turning AIs into aggressive zombies that spread mass-draining debuffs.",
+      "Meteor Shower: Falling rocks that break cells into fragments but contain high-value 'Star Dust' (XP boosters).",
+      'Faction War: World map highlights regions where faction AI will clash. Players can join for massive rewards.'
+    ]
+  },
+  {
+    title: 'Addiction Loop',
+    rules: [
+      'The "Just One More Level" Hook: Seeing stats increase creates a desire to reach the next power tier.',
+      'Territory Control: Players feel ownership over biomes where their faction is winning.',
+      'Build Diversity: Experimenting with "Speed Tanks" or "Tank Assassins" via skill trees.'
+    ]
+  },
+  {
+    title: 'Monetization (Ethical Model)',
+    rules: [
+      "Cosmetics: Cell skins, particle trails, and custom 'death' animations.",
+      'Battle Pass: Rewards XP boosters and unique cosmetic themes.',
+      'NO PAY-TO-WIN: No stats or mass can be purchased with real money.'
+    ]
+  }
+];
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'how', 'what', 'does', 'are', 'can', 'you', 'that', 'this', 'their', 'into']);
+const words = (text: string) => (text.toLowerCase().match(/[a-z0-9]{3,}/g) || []).filter(w => !STOP_WORDS.has(w));
+
+/** Rules sharing the most words with the query, best first; a section title match counts for the whole section. */
+export function lookupRules(query: string, limit = 4): { section: string; rule: string }[] {
+  const asked = new Set(words(query));
+  return GAME_DESIGN
+    .flatMap(s => s.rules.map(rule => ({
+      section: s.title,
+      rule,
+      score: words(rule).filter(w => asked.has(w)).length + words(s.title).filter(w => asked.has(w)).length * 2
+    })))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ section, rule }) => ({ section, rule }));
+}
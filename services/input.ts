@@ -0,0 +1,120 @@
+
+import { GameAction, KeyBindings, PlayerInput } from '../types';
+import { GAMEPAD_BUTTONS, GAMEPAD_DEADZONE, STICK_REACH, EJECT_REPEAT_MS } from '../constants';
+
+export type InputSource = 'pointer' | 'gamepad' | 'touch';
+
+export type PolledInput = Pick<PlayerInput, 'mx' | 'my' | 'split' | 'eject' | 'ability' | 'advisor'>;
+
+export const GAME_ACTIONS: GameAction[] = ['split', 'eject', 'ability', 'advisor'];
+const REPEATING: GameAction[] = ['eject'];
+const TOUCH_MOUSE_ECHO_MS = 800;
+
+const isTyping = (t: EventTarget | null) =>
+  t instanceof HTMLElement && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable);
+
+/** 'KeyW' -> 'W', 'Digit1' -> '1'; anything else keeps its code name. */
+export const keyLabel = (code: string) => code.replace(/^(Key|Digit)/, '');
+
+/**
+ * Turns keyboard, mouse, gamepad and touch into game actions. Devices feed it
+ * as their events arrive; the frame loop calls `poll` once per frame for the
+ * move vector and every action pressed since the last poll. Whichever device
+ * moved last steers.
+ */
+export class InputController {
+  source: InputSource = 'pointer';
+  private pointer = { x: 0, y: 0 };
+  private stick = { x: 0, y: 0 }; // touch or gamepad, -1..1 per axis
+  private pressed = new Set<GameAction>(); // waiting for the next poll
+  private held = new Map<string, GameAction>(); // device control ('key:KeyW', 'pad:2', 'touch:eject') -> action
+  private repeatAt = new Map<GameAction, number>();
+  private padDown: boolean[] = [];
+  private touchedAt = -Infinity;
+
+  constructor(public bindings: KeyBindings) {}
+
+  /** Listens for the bound keys until the returned function is called. */
+  attach(target: Window = window): () => void {
+    const actionFor = (code: string) => GAME_ACTIONS.find(a => this.bindings[a] === code);
+    const down = (e: KeyboardEvent) => {
+      if (e.repeat || isTyping(e.target)) return;
+      const action = actionFor(e.code);
+      if (!action) return;
+      e.preventDefault();
+      this.press(`key:${e.code}`, action);
+    };
+    const up = (e: KeyboardEvent) => this.release(`key:${e.code}`);
+    const blur = () => this.held.clear();
+    target.addEventListener('keydown', down);
+    target.addEventListener('keyup', up);
+    target.addEventListener('blur', blur);
+    return () => {
+      target.removeEventListener('keydown', down);
+      target.removeEventListener('keyup', up);
+      target.removeEventListener('blur', blur);
+    };
+  }
+
+  /** Mouse offset from the screen center, in px. Ignored right after a touch, which browsers echo as mouse events. */
+  pointerAt(dx: number, dy: number) {
+    if (this.source === 'touch' && performance.now() - this.touchedAt < TOUCH_MOUSE_ECHO_MS) return;
+    this.pointer = { x: dx, y: dy };
+    this.source = 'pointer';
+  }
+
+  /** Touch stick deflection, each axis -1..1; (0, 0) when released. */
+  touchStick(x: number, y: number) {
+    this.stick = { x, y };
+    this.source = 'touch';
+    this.touchedAt = performance.now();
+  }
+
+  press(control: string, action: GameAction) {
+    if (this.held.has(control)) return;
+    this.held.set(control, action);
+    this.pressed.add(action);
+    this.repeatAt.set(action, performance.now() + EJECT_REPEAT_MS);
+  }
+
+  release(control: string) {
+    this.held.delete(control);
+  }
+
+  /** A one-off press, e.g. from an on-screen button. */
+  trigger(action: GameAction) {
+    this.pressed.add(action);
+  }
+
+  poll(now: number): PolledInput {
+    this.pollGamepad();
+    for (const action of new Set(this.held.values())) {
+      if (!REPEATING.includes(action) || now < (this.repeatAt.get(action) || 0)) continue;
+      this.pressed.add(action);
+      this.repeatAt.set(action, now + EJECT_REPEAT_MS);
+    }
+    const move = this.source === 'pointer' ? this.pointer : { x: this.stick.x * STICK_REACH, y: this.stick.y * STICK_REACH };
+    const input: PolledInput = { mx: move.x, my: move.y };
+    this.pressed.forEach(a => { input[a] = true; });
+    this.pressed.clear();
+    return input;
+  }
+
+  private pollGamepad() {
+    const pad = navigator.getGamepads?.().find(p => p?.connected);
+    if (!pad) return;
+    const [x = 0, y = 0] = pad.axes;
+    if (Math.hypot(x, y) > GAMEPAD_DEADZONE) {
+      this.stick = { x, y };
+      this.source = 'gamepad';
+    } else if (this.source === 'gamepad') {
+      this.stick = { x: 0, y: 0 };
+    }
+    GAME_ACTIONS.forEach(action => GAMEPAD_BUTTONS[action].forEach(i => {
+      const down = !!pad.buttons[i]?.pressed;
+      if (down && !this.padDown[i]) this.press(`pad:${i}`, action);
+      if (!down && this.padDown[i]) this.release(`pad:${i}`);
+      this.padDown[i] = down;
+    }));
+  }
+}
@@ -0,0 +1,17 @@
+
+import { GameMap } from '../types';
+import { parseMap } from '../engine/maps';
+
+export function exportMap(map: GameMap) {
+  const blob = new Blob([JSON.stringify(map, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${map.id || 'map'}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function loadMap(file: File): Promise<GameMap> {
+  return parseMap(JSON.parse(await file.text()));
+}
@@ -0,0 +1,117 @@
+
+import { GameEntity, GameMap, Leaderboard, PlayerInput, SimEvent, WorldEventState } from '../types';
+import { MS_PER_TICK, INTERPOLATION_DELAY } from '../constants';
+import { ClientMessage, ServerMessage, Snapshot, PlayerView, parseMessage } from '../engine/protocol';
+import { GameSession, JoinRequest } from './session';
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * A seat in a world run by `server/index.ts`. Inputs go up at tick rate;
+ * snapshots come down at SNAPSHOT_INTERVAL and are rendered
+ * INTERPOLATION_DELAY behind so movement stays smooth between them.
+ */
+export class RemoteSession implements GameSession {
+  playerId = '';
+  map: GameMap;
+  entities: GameEntity[] = [];
+  worldEvents: WorldEventState[] = [];
+  tick = 0;
+  disconnected = false;
+  private snapshots: { at: number; snap: Snapshot }[] = [];
+  private inbox: SimEvent[] = [];
+  private board: Leaderboard = { top: [], rank: 0, total: 0 };
+  private pending: PlayerInput = { mx: 0, my: 0 };
+  private lastSent = 0;
+  private error: string | null = null;
+
+  private constructor(private socket: WebSocket) {}
+
+  static connect(url: string, join: JoinRequest): Promise<RemoteSession> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const session = new RemoteSession(socket);
+      socket.onmessage = e => {
+        const msg = parseMessage<ServerMessage>(e.data);
+        if (!msg) return;
+        if (msg.type === 'welcome') {
+          session.playerId = msg.playerId;
+          session.map = msg.map;
+          session.tick = msg.tick;
+          session.send({ type: 'join', ...join });
+          resolve(session);
+        } else if (msg.type === 'snapshot') {
+          session.receive(msg);
+        } else if (!session.playerId) {
+          // Refused before the welcome: there is no game to fall back to
+          session.close();
+          reject(new Error(msg.message));
+        } else {
+          session.error = msg.message;
+        }
+      };
+      socket.onerror = () => reject(new Error(`Could not reach ${url}`));
+      socket.onclose = () => { session.disconnected = true; reject(new Error('Server closed the connection')); };
+    });
+  }
+
+  private send(msg: ClientMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(msg));
+  }
+
+  private receive(snap: Snapshot) {
+    this.snapshots.push({ at: performance.now(), snap });
+    this.inbox.push(...snap.events);
+    if (snap.leaderboard) this.board = snap.leaderboard;
+    this.worldEvents = snap.worldEvents;
+    this.tick = snap.tick;
+  }
+
+  view(): PlayerView | undefined {
+    return this.snapshots[this.snapshots.length - 1]?.snap.you || undefined;
+  }
+
+  leaderboard(): Leaderboard {
+    return this.board;
+  }
+
+  takeError(): string | null {
+    const error = this.error;
+    this.error = null;
+    return error;
+  }
+
+  advance(now: number, input: PlayerInput): SimEvent[] {
+    this.pending = { ...this.pending, ...input };
+    if (now - this.lastSent >= MS_PER_TICK) {
+      this.send({ type: 'input', input: this.pending });
+      this.pending = { mx: input.mx, my: input.my };
+      this.lastSent = now;
+    }
+    this.interpolate(now - INTERPOLATION_DELAY);
+    const events = this.inbox;
+    this.inbox = [];
+    return events;
+  }
+
+  /** Blends the two snapshots around `renderAt`; anything only in the newer one just appears. */
+  private interpolate(renderAt: number) {
+    const snaps = this.snapshots;
+    while (snaps.length > 2 && snaps[1].at <= renderAt) snaps.shift();
+    if (snaps.length === 0) return;
+    const [from, to] = snaps.length > 1 ? snaps : [snaps[0], snaps[0]];
+    const t = to.at > from.at ? Math.max(0, Math.min(1, (renderAt - from.at) / (to.at - from.at))) : 1;
+    const prev = new Map(from.snap.entities.map(e => [e.id, e]));
+    this.entities = to.snap.entities.map(e => {
+      const p = prev.get(e.id);
+      if (!p || e.type === 'food') return e;
+      return { ...e, x: lerp(p.x, e.x, t), y: lerp(p.y, e.y, t), radius: lerp(p.radius, e.radius, t) };
+    });
+  }
+
+  close() {
+    this.socket.onclose = null;
+    this.socket.close();
+    this.disconnected = true;
+  }
+}
@@ -0,0 +1,52 @@
+
+import { PlayerInput } from '../types';
+import { MS_PER_TICK, LEADERBOARD_INTERVAL } from '../constants';
+import { toView } from '../engine/protocol';
+import { EntityPacker } from '../engine/packing';
+import { LocalSession } from './session';
+import type { WorkerRequest, WorkerReply } from './workerSession';
+
+// Runs a LocalSession on its own clock and streams packed frames to WorkerSession
+let session: LocalSession | null = null;
+let input: PlayerInput = { mx: 0, my: 0 };
+let rankedAt = -Infinity;
+const packer = new EntityPacker();
+const spare: ArrayBuffer[] = [];
+
+const reply = (msg: WorkerReply, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+function step() {
+  if (!session) return;
+  const before = session.tick;
+  const events = session.advance(performance.now(), input);
+  input = { mx: input.mx, my: input.my };
+  if (session.tick === before) return;
+  const frame = packer.pack(session.entities, session.tick, spare.pop());
+  const slot = session.sim.players.get(session.playerId);
+  const died = events.some(ev => ev.type === 'death');
+  const ranked = session.tick - rankedAt >= LEADERBOARD_INTERVAL;
+  if (ranked) rankedAt = session.tick;
+  reply({
+    type: 'frame', ...frame,
+    worldEvents: session.worldEvents,
+    view: slot ? toView(slot) : null,
+    events,
+    leaderboard: ranked ? session.leaderboard() : undefined,
+    recording: died ? session.recording() : undefined
+  }, [frame.buffer]);
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'start') {
+    session = new LocalSession(msg.join, msg.options);
+    reply({ type: 'ready', playerId: session.playerId, map: session.map });
+    setInterval(step, MS_PER_TICK / 2);
+  } else if (msg.type === 'input') {
+    input = { ...input, ...msg.input };
+  } else if (msg.type === 'pause') {
+    session?.pause(msg.paused);
+  } else {
+    spare.push(msg.buffer);
+  }
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { CellClass, DeathReport, Faction } from '../types';
+import { PlayerView } from '../engine/protocol';
+import { emptyAllocation, computeStats } from '../engine/progression';
+import { PROFILE_VERSION, migrateProfile, createProfile, withProgress, withDeath, isFactionUnlocked } from './profile';
+
+describe('profile migrations', () => {
+  it('lift a v0 name-only profile to the current version', () => {
+    const p = migrateProfile({ name: 'A VERY LONG OPERATOR NAME' });
+    expect(p.version).toBe(PROFILE_VERSION);
+    expect(p.name).toBe('A VERY LONG ');
+    expect(p.lastClass).toBe(CellClass.PREDATOR);
+    expect(p.classes).toEqual({});
+    expect(p.faction).toBeNull();
+    expect(isFactionUnlocked(p, Faction.BIOLOGICAL)).toBe(true);
+  });
+
+  it('keep v1 class progress and fill in missing stat allocations', () => {
+    const progress = { level: 4, exp: 50, maxExp: 926, skillPoints: 1, allocated: { speed: 3 }, skills: ['tank_plating'] };
+    const p = migrateProfile({ version: 1, name: 'OLD', lastClass: CellClass.TANK, classes: { [CellClass.TANK]: progress }, lifetime: { gamesPlayed: 7 }, unlocks: ['x'] });
+    expect(p.lastClass).toBe(CellClass.TANK);
+    expect(p.classes[CellClass.TANK]).toEqual({ ...progress, allocated: { ...emptyAllocation(), speed: 3 } });
+    expect(p.lifetime.gamesPlayed).toBe(7);
+    expect(p.unlocks).toContain('x');
+    expect(isFactionUnlocked(p, Faction.BIOLOGICAL)).toBe(true);
+  });
+
+  it('keep a v2 faction allegiance', () => {
+    const p = migrateProfile({ version: 2, name: 'MID', classes: {}, unlocks: [], faction: Faction.VOID });
+    expect(p.version).toBe(PROFILE_VERSION);
+    expect(p.faction).toBe(Faction.VOID);
+    expect(p.history).toEqual([]);
+    expect(p.bests).toEqual({});
+  });
+
+  it('refuse profiles from a newer build or no build at all', () => {
+    expect(() => migrateProfile({ version: PROFILE_VERSION + 1 })).toThrow(/newer/);
+    expect(() => migrateProfile({ version: 1.5 })).toThrow(/not one this build knows/);
+    expect(() => migrateProfile(null)).toThrow();
+    expect(() => migrateProfile([])).toThrow();
+  });
+
+  it('drop or default every field that does not check out', () => {
+    const record = { at: '2026-01-01T00:00:00Z', name: 'OLD', class: CellClass.TANK, map: 'Classic', cause: { kind: 'virus', finisher: 7 }, ticks: 60, peakMass: 90, eaten: { ai: 2, food: 'many' }, xpEarned: 40, levelsGained: 0 };
+    const p = migrateProfile({
+      version: PROFILE_VERSION, name: 42, lastClass: 'Wizard', faction: 'VOID', unlocks: ['x', 3, null],
+      lifetime: { gamesPlayed: 'lots', deaths: 2 },
+      classes: { [CellClass.TANK]: { level: 2, allocated: { speed: 'fast', defense: 1 }, skills: ['tank_plating', 5] }, [CellClass.PREDATOR]: { level: '9' } },
+      history: [record, { ...record, cause: { kind: 'cell' } }, { ...record, class: 'Wizard' }, 'junk'],
+      bests: { [CellClass.TANK]: { peakMass: 90, kills: 'all' }, [CellClass.ASSASSIN]: 5 }
+    });
+    expect(p.name).toBe('42');
+    expect(p.lastClass).toBe(CellClass.PREDATOR);
+    expect(p.faction).toBeNull();
+    expect(p.unlocks).toEqual(['x']);
+    expect(p.lifetime).toMatchObject({ gamesPlayed: 0, deaths: 2 });
+    expect(p.classes).toEqual({ [CellClass.TANK]: { level: 2, exp: 0, maxExp: 210, skillPoints: 0, allocated: { ...emptyAllocation(), defense: 1 }, skills: ['tank_plating'] } });
+    expect(p.history).toEqual([{ ...record, cause: { kind: 'virus' }, eaten: { ai: 2 } }]);
+    expect(p.bests).toEqual({ [CellClass.TANK]: { peakMass: 90, ticks: 0, xpEarned: 0, kills: 0 } });
+  });
+});
+
+const playerState = (allocated = emptyAllocation()) =>
+  ({ id: 'p', name: 'TEST', level: 3, exp: 10, maxExp: 441, class: CellClass.ASSASSIN, mass: 80, stats: computeStats(CellClass.ASSASSIN, allocated, []), allocated, skillPoints: 2, skills: [] });
+
+describe('withProgress', () => {
+  it('snapshots the live build under its class', () => {
+    const allocated = { ...emptyAllocation(), burst: 2 };
+    const state = playerState(allocated);
+    const p = withProgress(createProfile(), state);
+    expect(p.lastClass).toBe(CellClass.ASSASSIN);
+    expect(p.classes[CellClass.ASSASSIN]).toEqual({ level: 3, exp: 10, maxExp: 441, skillPoints: 2, allocated, skills: [] });
+    expect(p.lifetime.highestLevel).toBe(3);
+    expect(isFactionUnlocked(p, Faction.SYNTHETIC)).toBe(true); // unlocks at level 3
+    expect(isFactionUnlocked(p, Faction.VOID)).toBe(false);
+    allocated.burst = 5;
+    expect(p.classes[CellClass.ASSASSIN]!.allocated.burst).toBe(2);
+  });
+});
+
+describe('withDeath', () => {
+  const report = (peakMass: number, ai: number): DeathReport => ({
+    name: 'TEST', class: CellClass.ASSASSIN, map: 'Classic', cause: { kind: 'virus' }, ticks: 600, peakMass,
+    eaten: { ai, food: 30 }, xpEarned: 200, levelsGained: 1, massHistory: [25, 80, 0], sampleTicks: 30
+  });
+  const slot = { state: playerState(), xpEarned: 200, peakMass: 300.6 } as PlayerView;
+
+  it('logs the life and keeps the best of each stat per class', () => {
+    const first = withDeath(createProfile(), slot, report(300, 4));
+    const p = withDeath(first, slot, report(150, 6));
+    expect(p.lifetime).toMatchObject({ deaths: 2, totalXp: 400, peakMass: 300 });
+    expect(p.history).toHaveLength(2);
+    expect(p.history[0]).not.toHaveProperty('massHistory');
+    expect(p.bests[CellClass.ASSASSIN]).toEqual({ peakMass: 300, ticks: 600, xpEarned: 200, kills: 6 });
+  });
+});
@@ -0,0 +1,201 @@
+
+import { BiomeEffect, CellClass, ClassProgress, DeathCause, DeathReport, EatenKind, LifetimeStats, PersonalBest, PlayerState, Profile, SessionRecord, Faction } from '../types';
+import { BIOME_EFFECTS, FACTION_DATA, FACTIONS, SESSION_HISTORY_SIZE } from '../constants';
+import { emptyAllocation, expForLevel } from '../engine/progression';
+import { isNum, isOneOf, isRecord, isStr } from '../engine/parse';
+import type { PlayerView } from '../engine/protocol';
+
+const STORAGE_KEY = 'osmos_profile';
+const LEGACY_NAME_KEY = 'osmos_name';
+
+export const PROFILE_VERSION = 3;
+
+const factionUnlock = (f: Faction) => `faction:${f}`;
+
+const emptyLifetime = (): LifetimeStats => ({ gamesPlayed: 0, deaths: 0, totalXp: 0, peakMass: 0, highestLevel: 1 });
+
+/**
+ * Upgrades a stored profile one version at a time. Key N turns a version N
+ * document into version N + 1; add a step here whenever the schema changes.
+ */
+type ProfileData = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (data: ProfileData) => ProfileData> = {
+  // v0: the pre-profile build only ever kept the operator name
+  0: (data) => ({
+    version: 1,
+    name: typeof data.name === 'string' ? data.name : 'NOMAD',
+    lastClass: CellClass.PREDATOR,
+    classes: {},
+    lifetime: emptyLifetime(),
+    unlocks: []
+  }),
+  // v1 -> v2: faction allegiance; Biological is open to everyone
+  1: (data) => ({ ...data, version: 2, faction: null, unlocks: [...strings(data.unlocks), factionUnlock(Faction.BIOLOGICAL)] }),
+  // v2 -> v3: per-life history and personal bests
+  2: (data) => ({ ...data, version: 3, history: [], bests: {} })
+};
+
+export const createProfile = (name = 'NOMAD'): Profile => migrateProfile({ name });
+
+export const isFactionUnlocked = (profile: Profile, f: Faction) => profile.unlocks.includes(factionUnlock(f));
+
+const CLASSES = Object.values(CellClass);
+const EFFECTS = Object.keys(BIOME_EFFECTS) as BiomeEffect[];
+const EATEN: EatenKind[] = ['food', 'ejected', 'ai', 'player', 'virus'];
+
+const num = (v: unknown, fallback = 0) => (isNum(v) ? v : fallback);
+const strings = (v: unknown) => (Array.isArray(v) ? v.filter(isStr) : []);
+
+/** `defaults` with every field `v` holds as a number taken from `v`. */
+function numbers<T extends object>(defaults: T, v: unknown): T {
+  const out = { ...defaults } as Record<string, unknown>;
+  if (isRecord(v)) Object.keys(out).forEach(k => { if (isNum(v[k])) out[k] = v[k]; });
+  return out as T;
+}
+
+function parseProgress(c: unknown): ClassProgress | undefined {
+  if (!isRecord(c) || !isNum(c.level)) return undefined;
+  return {
+    level: c.level, exp: num(c.exp), maxExp: num(c.maxExp, expForLevel(c.level)), skillPoints: num(c.skillPoints),
+    allocated: numbers(emptyAllocation(), c.allocated), skills: strings(c.skills)
+  };
+}
+
+function parseCause(c: unknown): DeathCause | undefined {
+  if (!isRecord(c)) return undefined;
+  if (c.kind === 'cell' && isStr(c.name)) return { kind: 'cell', name: c.name, isPlayer: c.isPlayer === true, ...(isOneOf(CLASSES, c.class) && { class: c.class }) };
+  if (c.kind === 'virus') return { kind: 'virus', ...(isStr(c.finisher) && { finisher: c.finisher }) };
+  if (c.kind === 'drain' && isStr(c.source)) return { kind: 'drain', source: c.source, ...(isOneOf(EFFECTS, c.effect) && { effect: c.effect }) };
+  return undefined;
+}
+
+/** A stored history entry, or undefined when it is too damaged to show. */
+function parseRecord(r: unknown): SessionRecord | undefined {
+  if (!isRecord(r) || !isStr(r.at) || !isStr(r.name) || !isStr(r.map) || !isOneOf(CLASSES, r.class)) return undefined;
+  const cause = parseCause(r.cause);
+  if (!cause) return undefined;
+  const eaten: SessionRecord['eaten'] = {};
+  const stored = isRecord(r.eaten) ? r.eaten : {};
+  EATEN.forEach(k => { const n = stored[k]; if (isNum(n)) eaten[k] = n; });
+  return {
+    at: r.at, name: r.name, class: r.class, map: r.map, cause, eaten,
+    ticks: num(r.ticks), peakMass: num(r.peakMass), xpEarned: num(r.xpEarned), levelsGained: num(r.levelsGained)
+  };
+}
+
+/** Brings a stored or imported profile up to date and keeps only the fields that check out. */
+export function migrateProfile(stored: unknown): Profile {
+  if (!isRecord(stored)) throw new Error('Profile is not a JSON object');
+  let data = stored;
+  let version = isNum(data.version) ? data.version : 0;
+  if (version > PROFILE_VERSION) throw new Error(`Profile version ${version} is newer than this build supports`);
+  if (!MIGRATIONS[version] && version !== PROFILE_VERSION) throw new Error(`Profile version ${version} is not one this build knows`);
+  for (; version < PROFILE_VERSION; version++) data = MIGRATIONS[version](data);
+  const classes: Profile['classes'] = {};
+  const bests: Profile['bests'] = {};
+  CLASSES.forEach(cls => {
+    const progress = parseProgress(isRecord(data.classes) ? data.classes[cls] : undefined);
+    if (progress) classes[cls] = progress;
+    const best = isRecord(data.bests) ? data.bests[cls] : undefined;
+    if (isRecord(best)) bests[cls] = numbers<PersonalBest>({ peakMass: 0, ticks: 0, xpEarned: 0, kills: 0 }, best);
+  });
+  return {
+    version,
+    name: String(data.name || 'NOMAD').slice(0, 12),
+    lastClass: isOneOf(CLASSES, data.lastClass) ? data.lastClass : CellClass.PREDATOR,
+    classes,
+    lifetime: numbers(emptyLifetime(), data.lifetime),
+    unlocks: strings(data.unlocks),
+    faction: isOneOf(FACTIONS, data.faction) ? data.faction : null,
+    history: (Array.isArray(data.history) ? data.history : []).slice(0, SESSION_HISTORY_SIZE).map(parseRecord).filter((r): r is SessionRecord => !!r),
+    bests
+  };
+}
+
+export function loadProfile(): Profile {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return migrateProfile(JSON.parse(raw));
+    return migrateProfile({ name: localStorage.getItem(LEGACY_NAME_KEY) || undefined });
+  } catch (err) {
+    console.warn('Discarding unreadable profile', err);
+    return createProfile();
+  }
+}
+
+export function saveProfile(profile: Profile) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (err) {
+    console.warn('Profile could not be saved', err);
+  }
+}
+
+export const toClassProgress = (p: PlayerState): ClassProgress => ({
+  level: p.level, exp: p.exp, maxExp: p.maxExp, skillPoints: p.skillPoints, allocated: { ...p.allocated }, skills: [...p.skills]
+});
+
+/** Snapshot of the live build, written on level-up and on death. Also awards level-gated factions. */
+export const withProgress = (profile: Profile, p: PlayerState): Profile => {
+  const highestLevel = Math.max(profile.lifetime.highestLevel, p.level);
+  const earned = FACTIONS.filter(f => FACTION_DATA[f].unlockLevel <= highestLevel && !isFactionUnlocked(profile, f)).map(factionUnlock);
+  return {
+    ...profile,
+    lastClass: p.class,
+    classes: { ...profile.classes, [p.class]: toClassProgress(p) },
+    lifetime: { ...profile.lifetime, highestLevel },
+    unlocks: [...profile.unlocks, ...earned]
+  };
+};
+
+export const withFaction = (profile: Profile, faction: Faction | null): Profile =>
+  faction === null || isFactionUnlocked(profile, faction) ? { ...profile, faction } : profile;
+
+export const withGameStarted = (profile: Profile, name: string, cls: CellClass): Profile => ({
+  ...profile,
+  name,
+  lastClass: cls,
+  lifetime: { ...profile.lifetime, gamesPlayed: profile.lifetime.gamesPlayed + 1 }
+});
+
+export const killsIn = (r: Pick<DeathReport, 'eaten'>) => (r.eaten.ai || 0) + (r.eaten.player || 0);
+
+const bestOf = (prev: PersonalBest | undefined, r: DeathReport): PersonalBest => ({
+  peakMass: Math.max(prev?.peakMass || 0, r.peakMass),
+  ticks: Math.max(prev?.ticks || 0, r.ticks),
+  xpEarned: Math.max(prev?.xpEarned || 0, r.xpEarned),
+  kills: Math.max(prev?.kills || 0, killsIn(r))
+});
+
+/** Closes out a life: lifetime totals, a history entry and the class's personal bests. */
+export const withDeath = (profile: Profile, slot: PlayerView, report: DeathReport): Profile => {
+  const next = withProgress(profile, slot.state);
+  const lifetime: LifetimeStats = {
+    ...next.lifetime,
+    deaths: next.lifetime.deaths + 1,
+    totalXp: next.lifetime.totalXp + slot.xpEarned,
+    peakMass: Math.max(next.lifetime.peakMass, Math.floor(slot.peakMass))
+  };
+  const { massHistory, sampleTicks, ...summary } = report;
+  return {
+    ...next,
+    lifetime,
+    history: [{ at: new Date().toISOString(), ...summary }, ...next.history].slice(0, SESSION_HISTORY_SIZE),
+    bests: { ...next.bests, [report.class]: bestOf(next.bests[report.class], report) }
+  };
+};
+
+export function exportProfile(profile: Profile) {
+  const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `osmos-profile-${profile.name.toLowerCase()}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function importProfile(file: File): Promise<Profile> {
+  return migrateProfile(JSON.parse(await file.text()));
+}
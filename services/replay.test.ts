@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { CellClass } from '../types';
+import { Simulation } from '../engine/simulation';
+import { parseMap } from '../engine/maps';
+import { ReplayRecorder, ReplaySession, parseReplay, REPLAY_VERSION } from './replay';
+
+const ARENA = parseMap({
+  id: 'arena', name: 'Arena', size: 2000, food: 150, ai: 4, viruses: [{ x: 1500, y: 1000 }],
+  biomes: [{ id: '1', name: 'Shade', color: '#000', effect: 'dark', shape: { kind: 'circle', x: 600, y: 600, r: 300 } }]
+});
+
+function record(ticks: number) {
+  const player = { id: 'p', name: 'TEST', cls: CellClass.ASSASSIN, faction: null };
+  const sim = new Simulation({ seed: 9, map: ARENA });
+  sim.addPlayer(player.id, player.name, player.cls);
+  const recorder = new ReplayRecorder({ seed: 9, map: sim.map, player });
+  for (let t = 0; t < ticks; t++) {
+    const input = { mx: Math.cos(t / 20) * 250.4, my: Math.sin(t / 15) * 250.4, split: t === 30, eject: t % 25 === 0, ability: t === 60, allocate: t === 10 ? 'speed' as const : undefined };
+    sim.step({ p: recorder.record(input) });
+  }
+  return { sim, file: recorder.finish() };
+}
+
+describe('replays', () => {
+  it('play back to the same world that was recorded', () => {
+    const { sim, file } = record(120);
+    const session = new ReplaySession(parseReplay(JSON.parse(JSON.stringify(file))));
+    session.seek(file.ticks);
+    while (session.seekTarget !== null) session.advance(0);
+    expect(session.tick).toBe(sim.tick);
+    expect(session.entities.map(e => [e.id, e.x, e.y, e.mass])).toEqual(sim.entities.map(e => [e.id, e.x, e.y, e.mass]));
+    expect(session.view()?.state).toEqual(sim.players.get('p')!.state);
+  });
+
+  it('refuse files they cannot play', () => {
+    const { file } = record(1);
+    expect(() => parseReplay({ ...file, version: REPLAY_VERSION + 1 })).toThrow(/newer/);
+    expect(() => parseReplay({ ...file, version: 1 })).toThrow(/before map files/);
+    expect(() => parseReplay({ ...file, inputs: undefined })).toThrow(/incomplete/);
+    expect(() => parseReplay({ format: 'something-else' })).toThrow(/Not an Osmos replay/);
+    expect(() => parseReplay({ ...file, version: '2' })).toThrow(/incomplete/);
+    expect(() => parseReplay({ ...file, inputs: [...file.inputs, [1, 0, 'x', 0]] })).toThrow(/incomplete/);
+    expect(() => parseReplay({ ...file, player: { ...file.player, cls: 'Wizard' } })).toThrow(/incomplete/);
+  });
+
+  it('drop damaged actions and rebuild the recorded build under the rules', () => {
+    const { file } = record(1);
+    const replay = parseReplay({
+      ...file, recordedAt: 5, population: -1,
+      player: { ...file.player, faction: 'VOID', progress: { level: 2, allocated: { speed: 9 } } },
+      actions: [{ tick: 3, allocate: 'speed', unlock: 4 }, { tick: 'soon', allocate: 'speed' }, { tick: 4, allocate: 'hacks' }, null]
+    });
+    expect(replay.recordedAt).toBe('');
+    expect(replay).not.toHaveProperty('population');
+    expect(replay.player.faction).toBeNull();
+    expect(replay.player.progress).toMatchObject({ level: 2, skillPoints: 0, allocated: { speed: 2 } });
+    expect(replay.actions).toEqual([{ tick: 3, allocate: 'speed' }]);
+  });
+});
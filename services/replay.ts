@@ -0,0 +1,182 @@
+
+import { CellClass, GameEntity, GameMap, Leaderboard, PlayerInput, ReplayFile, SimEvent, WorldEventState } from '../types';
+import { FACTIONS, MS_PER_TICK } from '../constants';
+import { Simulation } from '../engine/simulation';
+import { parseMap } from '../engine/maps';
+import { STAT_KEYS, sanitizeProgress } from '../engine/progression';
+import { isNum, isOneOf, isRecord, isStr } from '../engine/parse';
+import { PlayerView, isEventFor, toView } from '../engine/protocol';
+import type { GameSession } from './session';
+
+export const REPLAY_VERSION = 2;
+const SEEK_TICKS_PER_FRAME = 600;
+
+const FLAGS = { split: 1, eject: 2, ability: 4, advisor: 8 } as const;
+type Flag = keyof typeof FLAGS;
+
+/** Logs every tick's input in the compact replay encoding. */
+export class ReplayRecorder {
+  private inputs: ReplayFile['inputs'] = [];
+  private actions: ReplayFile['actions'] = [];
+  private ticks = 0;
+
+  constructor(private header: Pick<ReplayFile, 'seed' | 'population' | 'map' | 'player'>) {}
+
+  /** Stores the input and returns it exactly as stored, so live play and playback feed the simulation the same values. */
+  record(input: PlayerInput): PlayerInput {
+    const mx = Math.round(input.mx), my = Math.round(input.my);
+    let flags = 0;
+    (Object.keys(FLAGS) as Flag[]).forEach(f => { if (input[f]) flags |= FLAGS[f]; });
+    const last = this.inputs[this.inputs.length - 1];
+    if (last && last[1] === mx && last[2] === my && last[3] === flags) last[0]++;
+    else this.inputs.push([1, mx, my, flags]);
+    if (input.allocate || input.unlock) this.actions.push({ tick: this.ticks, allocate: input.allocate, unlock: input.unlock });
+    this.ticks++;
+    return decodeInput(mx, my, flags, input);
+  }
+
+  finish(): ReplayFile {
+    return {
+      format: 'osmos-replay', version: REPLAY_VERSION, recordedAt: new Date().toISOString(), ...this.header,
+      ticks: this.ticks, inputs: this.inputs.map(row => [...row] as ReplayFile['inputs'][number]), actions: [...this.actions]
+    };
+  }
+}
+
+function decodeInput(mx: number, my: number, flags: number, extra?: Pick<PlayerInput, 'allocate' | 'unlock'>): PlayerInput {
+  const input: PlayerInput = { mx, my };
+  (Object.keys(FLAGS) as Flag[]).forEach(f => { if (flags & FLAGS[f]) input[f] = true; });
+  if (extra?.allocate) input.allocate = extra.allocate;
+  if (extra?.unlock) input.unlock = extra.unlock;
+  return input;
+}
+
+const isInputRow = (row: unknown): row is ReplayFile['inputs'][number] => Array.isArray(row) && row.length === 4 && row.every(isNum);
+
+function parseAction(a: unknown): ReplayFile['actions'][number] | undefined {
+  if (!isRecord(a) || !isNum(a.tick)) return undefined;
+  const allocate = isOneOf(STAT_KEYS, a.allocate) ? a.allocate : undefined, unlock = isStr(a.unlock) ? a.unlock : undefined;
+  return allocate || unlock ? { tick: a.tick, ...(allocate && { allocate }), ...(unlock && { unlock }) } : undefined;
+}
+
+function parsePlayer(p: unknown): ReplayFile['player'] | undefined {
+  if (!isRecord(p) || !isStr(p.id) || !isStr(p.name) || !isOneOf(Object.values(CellClass), p.cls)) return undefined;
+  const progress = sanitizeProgress(p.cls, p.progress);
+  return { id: p.id, name: p.name, cls: p.cls, faction: isOneOf(FACTIONS, p.faction) ? p.faction : null, ...(progress && { progress }) };
+}
+
+export function parseReplay(data: unknown): ReplayFile {
+  if (!isRecord(data) || data.format !== 'osmos-replay') throw new Error('Not an Osmos replay file');
+  const { version, seed, population, ticks, inputs, actions } = data;
+  if (!isNum(version)) throw new Error('Replay file is incomplete');
+  if (version > REPLAY_VERSION) throw new Error(`Replay version ${version} is newer than this build supports`);
+  if (version < 2) throw new Error('This replay was recorded before map files and can no longer be played back');
+  const player = parsePlayer(data.player);
+  if (!isNum(seed) || !isNum(ticks) || !player || !Array.isArray(inputs) || !inputs.every(isInputRow) || !data.map) throw new Error('Replay file is incomplete');
+  return {
+    format: 'osmos-replay', version, recordedAt: isStr(data.recordedAt) ? data.recordedAt : '', seed,
+    ...(isNum(population) && population > 0 && { population }),
+    map: parseMap(data.map), player, ticks,
+    inputs: inputs.map(row => [...row] as ReplayFile['inputs'][number]),
+    actions: (Array.isArray(actions) ? actions : []).map(parseAction).filter((a): a is ReplayFile['actions'][number] => !!a)
+  };
+}
+
+export function exportReplay(replay: ReplayFile) {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `osmos-replay-${replay.recordedAt.replace(/[:.]/g, '-')}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function loadReplay(file: File): Promise<ReplayFile> {
+  return parseReplay(JSON.parse(await file.text()));
+}
+
+/**
+ * Plays a replay back through a fresh Simulation. Seeking forward fast-forwards;
+ * seeking backward rebuilds the world from the seed. Both run in slices so the
+ * page stays responsive.
+ */
+export class ReplaySession implements GameSession {
+  readonly playerId: string;
+  readonly disconnected = false;
+  paused = false;
+  speed = 1;
+  seekTarget: number | null = null;
+  private sim!: Simulation;
+  private row = 0;
+  private used = 0;
+  private action = 0;
+  private last = 0;
+  private accumulator = 0;
+
+  constructor(readonly replay: ReplayFile) {
+    this.playerId = replay.player.id;
+    this.reset();
+  }
+
+  get map(): GameMap { return this.sim.map; }
+  get entities(): GameEntity[] { return this.sim.entities; }
+  get worldEvents(): WorldEventState[] { return this.sim.worldEvents; }
+  get tick() { return this.sim.tick; }
+  get length() { return this.replay.ticks; }
+
+  view(): PlayerView | undefined {
+    const slot = this.sim.players.get(this.playerId);
+    return slot && toView(slot);
+  }
+
+  leaderboard(): Leaderboard {
+    return this.sim.leaderboard(this.playerId);
+  }
+
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(this.length, Math.round(tick)));
+    if (target < this.sim.tick) this.reset();
+    this.seekTarget = target;
+  }
+
+  advance(now: number): SimEvent[] {
+    const elapsed = this.last ? Math.min(100, now - this.last) : 0;
+    this.last = now;
+    const events: SimEvent[] = [];
+    if (this.seekTarget !== null) {
+      const stop = Math.min(this.seekTarget, this.sim.tick + SEEK_TICKS_PER_FRAME);
+      while (this.sim.tick < stop) this.step();
+      if (this.sim.tick >= this.seekTarget) this.seekTarget = null;
+      return events;
+    }
+    if (this.paused) return events;
+    this.accumulator += elapsed * this.speed;
+    while (this.accumulator >= MS_PER_TICK && this.sim.tick < this.length) {
+      events.push(...this.step());
+      this.accumulator -= MS_PER_TICK;
+    }
+    if (this.sim.tick >= this.length) this.accumulator = 0;
+    return events.filter(ev => isEventFor(ev, this.playerId));
+  }
+
+  close() {}
+
+  private reset() {
+    const { seed, population, map, player } = this.replay;
+    this.sim = new Simulation({ seed, population, map });
+    this.sim.addPlayer(player.id, player.name, player.cls, { progress: player.progress, faction: player.faction });
+    this.row = 0; this.used = 0; this.action = 0; this.accumulator = 0;
+  }
+
+  private step(): SimEvent[] {
+    const { inputs, actions } = this.replay;
+    const row = inputs[this.row];
+    let extra: Pick<PlayerInput, 'allocate' | 'unlock'> | undefined;
+    while (this.action < actions.length && actions[this.action].tick < this.sim.tick) this.action++;
+    if (actions[this.action]?.tick === this.sim.tick) extra = actions[this.action++];
+    const input = row ? decodeInput(row[1], row[2], row[3], extra) : { mx: 0, my: 0 };
+    if (row && ++this.used >= row[0]) { this.row++; this.used = 0; }
+    return this.sim.step({ [this.playerId]: input });
+  }
+}
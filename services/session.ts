@@ -0,0 +1,101 @@
+
+import { GameEntity, GameMap, CellClass, ClassProgress, Faction, Leaderboard, PlayerInput, ReplayFile, SimEvent, WorldEventState } from '../types';
+import { MS_PER_TICK } from '../constants';
+import { Simulation, SimulationOptions } from '../engine/simulation';
+import { PlayerView, isEventFor, toView } from '../engine/protocol';
+import { ReplayRecorder } from './replay';
+
+export interface JoinRequest {
+  name: string;
+  cls: CellClass;
+  faction: Faction | null;
+  progress?: ClassProgress;
+}
+
+export type WorldOptions = Partial<Pick<SimulationOptions, 'seed' | 'population' | 'map'>>;
+
+/**
+ * What the UI plays against: an offline Simulation stepped in the browser, or
+ * a remote authoritative world. Either way the UI only ever sees entities,
+ * its own player view and the events addressed to it.
+ */
+export interface GameSession {
+  readonly playerId: string;
+  readonly map: GameMap;
+  readonly entities: GameEntity[];
+  readonly worldEvents: WorldEventState[];
+  readonly tick: number;
+  readonly disconnected: boolean;
+  view(): PlayerView | undefined;
+  leaderboard(): Leaderboard;
+  /** Feeds the latest input and advances to `now` (ms); returns the events for this player. */
+  advance(now: number, input: PlayerInput): SimEvent[];
+  /** The replay recorded so far, for sessions that keep one. */
+  recording?(): ReplayFile | null;
+  /** Complaints from the server not yet shown to the player; remote sessions only. */
+  takeError?(): string | null;
+  /** Freezes the world; only single-player sessions can. */
+  pause?(paused: boolean): void;
+  close(): void;
+}
+
+export class LocalSession implements GameSession {
+  readonly playerId = 'local';
+  readonly disconnected = false;
+  readonly sim: Simulation;
+  readonly recorder: ReplayRecorder;
+  private last = 0;
+  private accumulator = 0;
+  private pending: PlayerInput = { mx: 0, my: 0 };
+  private paused = false;
+
+  constructor(join: JoinRequest, { seed = (Math.random() * 0x100000000) >>> 0, population, map }: WorldOptions = {}) {
+    this.sim = new Simulation({ seed, population, map });
+    this.sim.addPlayer(this.playerId, join.name, join.cls, { progress: join.progress, faction: join.faction });
+    this.recorder = new ReplayRecorder({ seed, population, map: this.sim.map, player: { id: this.playerId, ...join } });
+  }
+
+  get map() { return this.sim.map; }
+  get entities() { return this.sim.entities; }
+  get worldEvents() { return this.sim.worldEvents; }
+  get tick() { return this.sim.tick; }
+
+  view(): PlayerView | undefined {
+    const slot = this.sim.players.get(this.playerId);
+    return slot && toView(slot);
+  }
+
+  leaderboard(): Leaderboard {
+    return this.sim.leaderboard(this.playerId);
+  }
+
+  /** Pausing and resuming both restart the clock, so time spent away is never caught up. */
+  pause(paused: boolean) {
+    this.paused = paused;
+    this.last = 0;
+    this.accumulator = 0;
+  }
+
+  advance(now: number, input: PlayerInput): SimEvent[] {
+    if (this.paused) return [];
+    if (!this.last) this.last = now;
+    this.accumulator += Math.min(100, now - this.last);
+    this.last = now;
+    const events: SimEvent[] = [];
+    // One-shot actions wait for the next tick, even when this frame runs none
+    this.pending = { ...this.pending, ...input };
+    while (this.accumulator >= MS_PER_TICK) {
+      events.push(...this.sim.step({ [this.playerId]: this.recorder.record(this.pending) }));
+      this.pending = { mx: input.mx, my: input.my };
+      this.accumulator -= MS_PER_TICK;
+    }
+    this.sim.markVisibility(this.playerId);
+    return events.filter(ev => isEventFor(ev, this.playerId));
+  }
+
+  recording() {
+    return this.recorder.finish();
+  }
+
+  close() {}
+}
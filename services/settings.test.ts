@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_KEY_BINDINGS } from '../constants';
+import { AI_TIMEOUT_RANGE, MINIMAP_RANGE, defaultSettings, parseSettings } from './settings';
+
+describe('parseSettings', () => {
+  const defaults = defaultSettings();
+
+  it('falls back to the defaults for anything that is not a settings object', () => {
+    [null, 'webgl', 3, []].forEach(stored => expect(parseSettings(stored, defaults)).toEqual(defaults));
+  });
+
+  it('keeps valid fields and clamps numbers into range', () => {
+    const s = parseSettings({
+      renderer: 'canvas', uiScale: 1.25, minimapSize: 9999, labels: false,
+      graphics: { stars: 123.6, glow: false }, volume: { master: -1, effects: 0.3 },
+      ai: { provider: 'local', localUrl: '  http://box:8080/v1 ', timeoutMs: 1 }
+    }, defaults);
+    expect(s.renderer).toBe('canvas');
+    expect(s.uiScale).toBe(1.25);
+    expect(s.minimapSize).toBe(MINIMAP_RANGE[1]);
+    expect(s.labels).toBe(false);
+    expect(s.graphics).toEqual({ ...defaults.graphics, stars: 124, glow: false });
+    expect(s.volume).toEqual({ master: 0, effects: 0.3 });
+    expect(s.ai).toEqual({ ...defaults.ai, provider: 'local', localUrl: 'http://box:8080/v1', timeoutMs: AI_TIMEOUT_RANGE[0] });
+  });
+
+  it('ignores fields of the wrong type or with unknown values', () => {
+    const s = parseSettings({
+      renderer: 'vulkan', uiScale: '2', labels: 'yes', graphics: 'high', volume: null,
+      bindings: { split: 'KeyF', eject: 7, ability: '', teleport: 'KeyT' },
+      ai: { provider: 'skynet', geminiModel: '   ', timeoutMs: NaN }
+    }, defaults);
+    expect(s).toEqual({ ...defaults, bindings: { ...DEFAULT_KEY_BINDINGS, split: 'KeyF' } });
+  });
+});
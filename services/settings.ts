@@ -0,0 +1,108 @@
+
+import { Settings, RendererKind, KeyBindings, GraphicsSettings, AIProviderKind, AISettings } from '../types';
+import { DEFAULT_KEY_BINDINGS } from '../constants';
+import { GAME_ACTIONS } from './input';
+import { isNum, isOneOf, isRecord } from '../engine/parse';
+
+const STORAGE_KEY = 'osmos_settings';
+
+const RENDERERS: RendererKind[] = ['webgl', 'canvas'];
+export const AI_PROVIDERS: AIProviderKind[] = ['gemini', 'local', 'offline'];
+
+export const GRAPHICS_PRESETS: Record<'low' | 'medium' | 'high', GraphicsSettings> = {
+  low: { stars: 0, pulse: false, glow: false, vignette: false },
+  medium: { stars: 200, pulse: true, glow: false, vignette: true },
+  high: { stars: 400, pulse: true, glow: true, vignette: true }
+};
+
+export const STAR_RANGE: [number, number] = [0, 1000];
+export const UI_SCALE_RANGE: [number, number] = [0.75, 1.5];
+export const MINIMAP_RANGE: [number, number] = [120, 320];
+export const AI_TIMEOUT_RANGE: [number, number] = [2000, 60000]; // ms
+
+export const defaultSettings = (): Settings => ({
+  renderer: typeof WebGL2RenderingContext !== 'undefined' ? 'webgl' : 'canvas',
+  bindings: { ...DEFAULT_KEY_BINDINGS },
+  graphics: { ...GRAPHICS_PRESETS.high },
+  uiScale: 1,
+  minimapSize: 180,
+  labels: true,
+  massNumbers: false,
+  volume: { master: 0.8, effects: 0.8 },
+  ai: {
+    // Without a build-time key Gemini could only ever fall back, so start offline
+    provider: process.env.API_KEY ? 'gemini' : 'offline',
+    geminiModel: 'gemini-3-flash-preview',
+    localUrl: 'http://localhost:11434/v1',
+    localModel: 'llama3.2',
+    timeoutMs: 15000
+  }
+});
+
+const clampNum = (v: unknown, [min, max]: [number, number], fallback: number) =>
+  isNum(v) ? Math.max(min, Math.min(max, v)) : fallback;
+const bool = (v: unknown, fallback: boolean) => typeof v === 'boolean' ? v : fallback;
+
+const str = (v: unknown, fallback: string) => typeof v === 'string' && v.trim() ? v.trim() : fallback;
+
+/** The object's fields, or none when it is not an object. */
+const fields = (v: unknown): Record<string, unknown> => isRecord(v) ? v : {};
+
+const parseBindings = (data: unknown): KeyBindings => {
+  const stored = fields(data);
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  GAME_ACTIONS.forEach(a => { const code = stored[a]; if (typeof code === 'string' && code) bindings[a] = code; });
+  return bindings;
+};
+
+const parseAI = (data: unknown, defaults: AISettings): AISettings => {
+  const ai = fields(data);
+  return {
+    provider: isOneOf(AI_PROVIDERS, ai.provider) ? ai.provider : defaults.provider,
+    geminiModel: str(ai.geminiModel, defaults.geminiModel),
+    localUrl: str(ai.localUrl, defaults.localUrl),
+    localModel: str(ai.localModel, defaults.localModel),
+    timeoutMs: Math.round(clampNum(ai.timeoutMs, AI_TIMEOUT_RANGE, defaults.timeoutMs))
+  };
+};
+
+/** Reads stored settings field by field; anything missing or out of range falls back to `defaults`. */
+export function parseSettings(stored: unknown, defaults = defaultSettings()): Settings {
+  const data = fields(stored), graphics = fields(data.graphics), volume = fields(data.volume);
+  return {
+    renderer: isOneOf(RENDERERS, data.renderer) ? data.renderer : defaults.renderer,
+    bindings: parseBindings(data.bindings),
+    graphics: {
+      stars: Math.round(clampNum(graphics.stars, STAR_RANGE, defaults.graphics.stars)),
+      pulse: bool(graphics.pulse, defaults.graphics.pulse),
+      glow: bool(graphics.glow, defaults.graphics.glow),
+      vignette: bool(graphics.vignette, defaults.graphics.vignette)
+    },
+    uiScale: clampNum(data.uiScale, UI_SCALE_RANGE, defaults.uiScale),
+    minimapSize: Math.round(clampNum(data.minimapSize, MINIMAP_RANGE, defaults.minimapSize)),
+    labels: bool(data.labels, defaults.labels),
+    massNumbers: bool(data.massNumbers, defaults.massNumbers),
+    volume: {
+      master: clampNum(volume.master, [0, 1], defaults.volume.master),
+      effects: clampNum(volume.effects, [0, 1], defaults.volume.effects)
+    },
+    ai: parseAI(data.ai, defaults.ai)
+  };
+}
+
+export function loadSettings(): Settings {
+  try {
+    return parseSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch (err) {
+    console.warn('Discarding unreadable settings', err);
+    return defaultSettings();
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Settings could not be saved', err);
+  }
+}
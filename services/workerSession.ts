@@ -0,0 +1,106 @@
+
+import { GameEntity, GameMap, Leaderboard, PlayerInput, ReplayFile, SimEvent, WorldEventState } from '../types';
+import { MS_PER_TICK } from '../constants';
+import { PlayerView } from '../engine/protocol';
+import { EntityUnpacker, PackedFrame } from '../engine/packing';
+import { GameSession, JoinRequest, WorldOptions } from './session';
+
+export type WorkerRequest =
+  | { type: 'start'; join: JoinRequest; options: WorldOptions }
+  | { type: 'input'; input: PlayerInput }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'recycle'; buffer: ArrayBuffer };
+
+export type WorkerReply =
+  | { type: 'ready'; playerId: string; map: GameMap }
+  | ({ type: 'frame'; worldEvents: WorldEventState[]; view: PlayerView | null; events: SimEvent[]; leaderboard?: Leaderboard; recording?: ReplayFile } & PackedFrame);
+
+/**
+ * An offline world stepped by `physics.worker.ts` instead of the UI thread.
+ * The worker posts a packed frame per tick; entities are drawn blended between
+ * the last two, so rendering stays smooth whatever the frame rate.
+ */
+export class WorkerSession implements GameSession {
+  playerId = '';
+  map: GameMap;
+  worldEvents: WorldEventState[] = [];
+  tick = 0;
+  disconnected = false;
+  private unpacker = new EntityUnpacker();
+  private you: PlayerView | undefined;
+  private inbox: SimEvent[] = [];
+  private board: Leaderboard = { top: [], rank: 0, total: 0 };
+  private receivedAt = 0;
+  private lastRecording: ReplayFile | null = null;
+
+  private constructor(private worker: Worker) {}
+
+  static start(join: JoinRequest, options: WorldOptions = {}): Promise<WorkerSession> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./physics.worker.ts', import.meta.url), { type: 'module' });
+      const session = new WorkerSession(worker);
+      worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+        const msg = e.data;
+        if (msg.type === 'ready') {
+          session.playerId = msg.playerId;
+          session.map = msg.map;
+          resolve(session);
+        } else {
+          session.receive(msg);
+        }
+      };
+      worker.onerror = e => {
+        session.disconnected = true;
+        reject(new Error(`Physics worker failed: ${e.message}`));
+      };
+      session.post({ type: 'start', join, options });
+    });
+  }
+
+  get entities(): GameEntity[] { return this.unpacker.entities; }
+
+  private post(msg: WorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(msg, { transfer });
+  }
+
+  private receive(frame: Extract<WorkerReply, { type: 'frame' }>) {
+    this.unpacker.apply(frame);
+    this.post({ type: 'recycle', buffer: frame.buffer }, [frame.buffer]);
+    this.receivedAt = performance.now();
+    this.tick = frame.tick;
+    this.worldEvents = frame.worldEvents;
+    this.you = frame.view || undefined;
+    this.inbox.push(...frame.events);
+    if (frame.leaderboard) this.board = frame.leaderboard;
+    if (frame.recording) this.lastRecording = frame.recording;
+  }
+
+  view(): PlayerView | undefined {
+    return this.you;
+  }
+
+  leaderboard(): Leaderboard {
+    return this.board;
+  }
+
+  advance(now: number, input: PlayerInput): SimEvent[] {
+    this.post({ type: 'input', input });
+    this.unpacker.interpolate(Math.max(0, Math.min(1, (now - this.receivedAt) / MS_PER_TICK)));
+    const events = this.inbox;
+    this.inbox = [];
+    return events;
+  }
+
+  recording() {
+    return this.lastRecording;
+  }
+
+  pause(paused: boolean) {
+    this.post({ type: 'pause', paused });
+  }
+
+  close() {
+    this.worker.terminate();
+    this.disconnected = true;
+  }
+}
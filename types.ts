@@ -7,6 +7,12 @@ export enum CellClass {
   SUPPORT = 'Support'
 }
 
+export enum Faction {
+  BIOLOGICAL = 0,
+  SYNTHETIC = 1,
+  VOID = 2
+}
+
 export interface Stats {
   speed: number;
   absorption: number;
@@ -23,19 +29,199 @@ export interface PlayerState {
   maxExp: number;
   class: CellClass;
   mass: number;
-  stats: Stats;
+  stats: Stats; // Effective stats: class base + allocated points + unlocked skills
+  allocated: Stats; // Points spent per stat
+  skillPoints: number;
+  skills: string[];
+}
+
+export interface ClassProgress {
+  level: number;
+  exp: number;
+  maxExp: number;
   skillPoints: number;
+  allocated: Stats;
   skills: string[];
 }
 
+export interface LifetimeStats {
+  gamesPlayed: number;
+  deaths: number;
+  totalXp: number;
+  peakMass: number;
+  highestLevel: number;
+}
+
+/** What took the player's last cell. */
+export type DeathCause =
+  | { kind: 'cell'; name: string; class?: CellClass; isPlayer: boolean }
+  | { kind: 'virus'; finisher?: string } // burst on a virus moments before being picked off
+  | { kind: 'drain'; source: string; effect?: BiomeEffect }; // a biome's name, or the infection or parasite that bled it dry
+
+export type EatenKind = 'food' | 'ejected' | 'ai' | 'player' | 'virus';
+
+/** Post-mortem for one life, built by the simulation when the player's last cell goes. */
+export interface DeathReport {
+  name: string;
+  class: CellClass;
+  map: string;
+  cause: DeathCause;
+  ticks: number; // time alive
+  peakMass: number;
+  eaten: Partial<Record<EatenKind, number>>;
+  xpEarned: number;
+  levelsGained: number;
+  massHistory: number[]; // one sample every `sampleTicks`
+  sampleTicks: number;
+}
+
+export interface SessionRecord extends Omit<DeathReport, 'massHistory' | 'sampleTicks'> {
+  at: string; // ISO time of death
+}
+
+export interface PersonalBest {
+  peakMass: number;
+  ticks: number;
+  xpEarned: number;
+  kills: number;
+}
+
+export interface Profile {
+  version: number;
+  name: string;
+  lastClass: CellClass;
+  classes: Partial<Record<CellClass, ClassProgress>>;
+  lifetime: LifetimeStats;
+  unlocks: string[];
+  faction: Faction | null;
+  history: SessionRecord[]; // newest first, capped at SESSION_HISTORY_SIZE
+  bests: Partial<Record<CellClass, PersonalBest>>;
+}
+
+export type RendererKind = 'webgl' | 'canvas';
+
+/** Per-device preferences; unlike the Profile they never travel with an export. */
+export interface GraphicsSettings {
+  stars: number; // background star count
+  pulse: boolean; // breathing cells, twinkling pickups
+  glow: boolean;
+  vignette: boolean;
+}
+
+export interface Settings {
+  renderer: RendererKind;
+  bindings: KeyBindings;
+  graphics: GraphicsSettings;
+  uiScale: number;
+  minimapSize: number; // px
+  labels: boolean;
+  massNumbers: boolean;
+  volume: { master: number; effects: number }; // 0..1
+  ai: AISettings;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'ai';
+  text: string; // markdown for 'ai'
+  offline?: boolean; // answered by the offline rules
+}
+
+export type AIProviderKind = 'gemini' | 'local' | 'offline';
+
+export interface AISettings {
+  provider: AIProviderKind;
+  geminiModel: string;
+  localUrl: string; // OpenAI-compatible base URL, e.g. Ollama's http://localhost:11434/v1
+  localModel: string;
+  timeoutMs: number;
+}
+
+export type GameAction = 'split' | 'eject' | 'ability' | 'advisor';
+
+export type KeyBindings = Record<GameAction, string>; // KeyboardEvent.code per action
+
+export interface SkillNode {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;
+  minLevel: number;
+  requires?: string;
+  modifiers: Partial<Stats>;
+}
+
+export interface PlayerInput {
+  mx: number; // Steering vector, screen-space offset from the camera center
+  my: number;
+  split?: boolean;
+  eject?: boolean;
+  ability?: boolean;
+  allocate?: keyof Stats;
+  unlock?: string; // SkillNode id
+  advisor?: boolean; // Asked the tactical advisor; recorded for replays, ignored by the simulation
+}
+
+/**
+ * A recorded session. The initial world is rebuilt from the seed and biomes;
+ * inputs are run-length rows of [ticks, mx, my, flags] with flags
+ * split=1, eject=2, ability=4, advisor=8.
+ */
+export interface ReplayFile {
+  format: 'osmos-replay';
+  version: number;
+  recordedAt: string;
+  seed: number;
+  population?: number; // SimulationOptions.population; absent means 1
+  map: GameMap;
+  player: { id: string; name: string; cls: CellClass; faction: Faction | null; progress?: ClassProgress };
+  ticks: number;
+  inputs: [number, number, number, number][];
+  actions: { tick: number; allocate?: keyof Stats; unlock?: string }[];
+}
+
+/** A running world event; `kind` names its WorldEventDef. */
+export interface WorldEventState {
+  id: string;
+  kind: string;
+  name: string;
+  description: string;
+  color: string;
+  x: number;
+  y: number;
+  radius: number;
+  startTick: number;
+  endTick: number;
+  factions?: [Faction, Faction]; // Faction War belligerents
+}
+
+export type SimEvent =
+  | { type: 'levelUp'; playerId: string; level: number }
+  | { type: 'death'; playerId: string; report: DeathReport }
+  | { type: 'worldEvent'; phase: 'start' | 'end'; event: WorldEventState }
+  | { type: 'kill'; killerId: string; killer: string; victimId: string; victim: string; mass: number }; // ids are identities: player id or AI id
+
+export interface LeaderboardEntry {
+  id: string; // player id, or the id of the AI its fragments split from
+  name: string;
+  mass: number;
+  isPlayer: boolean;
+}
+
+export interface Leaderboard {
+  top: LeaderboardEntry[];
+  rank: number; // the viewer's place, 1-based; 0 when it has no cells
+  total: number;
+}
+
 export type AIBehavior = 'flee' | 'hunt' | 'idle' | 'ambush' | 'team';
 
 export interface GameEntity {
   id: string;
   type: 'player' | 'ai' | 'food' | 'hazard' | 'virus' | 'ejected';
   ownerId?: string;
+  name?: string; // player or generated AI name, shared by every fragment
   mergeTimer?: number;
-  spawnTime?: number; // performance.now() at creation
+  spawnTime?: number; // simulation tick at creation
   vx?: number; // Velocity X for ejected mass/splits
   vy?: number; // Velocity Y for ejected mass/splits
   x: number;
@@ -44,11 +230,17 @@ export interface GameEntity {
   color: string;
   mass: number;
   class?: CellClass;
-  health?: number;
+  health?: number; // CELL_HEALTH when absent; worn down by contact combat
+  hitAt?: number; // tick the cell last took contact damage
   behavior?: AIBehavior;
   targetId?: string;
-  faction?: number;
-  isVisible?: boolean; 
+  faction?: Faction;
+  latchedTo?: string; // Parasite cell: id of the host it is draining
+  infectedUntil?: number; // AI zombie: tick at which the infection wears off
+  food?: FoodKind; // catalogue food; spores carry none
+  bonusXp?: number; // XP pickup (Star Dust); eaten pickups do not respawn
+  bounty?: number; // XP multiplier for whoever eats this cell
+  isVisible?: boolean; // Set per frame by Simulation.markVisibility for the local player
   // Added personality to GameEntity for AI entities
   personality?: { aggro: number; chaseBudget: number; fleeMargin: number; riskAversion: number };
 }
@@ -57,6 +249,34 @@ export interface Biome {
   id: string;
   name: string;
   color: string;
-  bounds: { x: number; y: number; w: number; h: number };
-  effect: 'toxic' | 'lava' | 'nutrient' | 'dark' | 'normal';
+  shape: Shape;
+  effect: BiomeEffect;
+  spawns?: SpawnTable;
+}
+
+export type BiomeEffect = 'toxic' | 'lava' | 'nutrient' | 'dark' | 'normal';
+
+export type FoodKind = 'pellet' | 'cluster' | 'stardust' | 'toxic';
+
+export type Shape =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number }
+  | { kind: 'circle'; x: number; y: number; r: number }
+  | { kind: 'polygon'; points: [number, number][] };
+
+/** Spawn density inside a biome relative to open space: 0 keeps it clear, 2 doubles it. Missing entries mean 1. */
+export interface SpawnTable {
+  food?: number;
+  ai?: number;
+}
+
+/** A playable world: the `maps/*.json` format, also what the procedural generator emits. */
+export interface GameMap {
+  id: string;
+  name: string;
+  size: number; // the world is a size x size square
+  food: number; // pellets at population 1
+  ai: number; // AI cells at population 1
+  viruses: { x: number; y: number }[];
+  biomes: Biome[]; // later entries draw on top and win where they overlap
+  playerSpawns?: { x: number; y: number; r: number }[]; // where players drop in; the map center when absent
 }